@@ -0,0 +1,347 @@
+/**
+ * Schema Code Generator
+ *
+ * Derives the TypeScript interfaces (src/types.ts) and the zod schemas
+ * (src/zodSchemas.ts) from the DPDS JSON Schema (public/schema.json), so that
+ * the three can't drift. String `format` keywords are checked with the DPDS
+ * custom formats of src/formats.ts.
+ *
+ * Usage:
+ *   node scripts/generate-schemas.mjs          Write the generated files
+ *   node scripts/generate-schemas.mjs --check  Fail when they are out of date
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+
+const ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const SCHEMA_PATH = 'public/schema.json';
+const TYPES_PATH = 'src/types.ts';
+const ZOD_PATH = 'src/zodSchemas.ts';
+const REGENERATE = 'npm run generate';
+
+// ===============================================================
+// Helpers
+// ===============================================================
+
+const pascalCase = (name) => name.charAt(0).toUpperCase() + name.slice(1);
+
+const camelCase = (name) => name.charAt(0).toLowerCase() + name.slice(1);
+
+const refName = (ref) => {
+  const match = /^#\/\$defs\/(.+)$/.exec(ref);
+  if (!match) throw new Error(`Unsupported $ref "${ref}"`);
+  return match[1];
+};
+
+const propertyKey = (key) =>
+  /^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key);
+
+const indent = (text, level = 1) =>
+  text
+    .split('\n')
+    .map((line) => (line ? '  '.repeat(level) + line : line))
+    .join('\n');
+
+const isObjectNode = (node) =>
+  node.type === 'object' ||
+  node.properties !== undefined ||
+  node.allOf !== undefined;
+
+/**
+ * Doc comment of a $defs entry: title, specification link and source
+ */
+function docComment(node, source) {
+  const lines = [];
+  if (node.title) lines.push(node.title);
+  if (node.$comment) lines.push(`@see ${node.$comment}`);
+  lines.push(`@see schema.json ${source}`);
+  return ['/**', ...lines.map((line) => ` * ${line}`), ' */'].join('\n');
+}
+
+/**
+ * Definitions referenced by a node, in order of appearance
+ */
+function dependenciesOf(node, found = []) {
+  if (Array.isArray(node)) {
+    node.forEach((item) => dependenciesOf(item, found));
+  } else if (typeof node === 'object' && node !== null) {
+    if (typeof node.$ref === 'string') {
+      const name = refName(node.$ref);
+      if (!found.includes(name)) found.push(name);
+    }
+    Object.values(node).forEach((value) => dependenciesOf(value, found));
+  }
+  return found;
+}
+
+/**
+ * Definitions ordered so that each one comes after its dependencies
+ */
+function sortDefinitions(defs) {
+  const sorted = [];
+  const visiting = new Set();
+
+  const visit = (name) => {
+    if (sorted.includes(name)) return;
+    if (visiting.has(name)) {
+      throw new Error(`Circular definition "${name}" is not supported`);
+    }
+    visiting.add(name);
+    dependenciesOf(defs[name]).forEach(visit);
+    visiting.delete(name);
+    sorted.push(name);
+  };
+
+  Object.keys(defs).forEach(visit);
+  return sorted;
+}
+
+// ===============================================================
+// TypeScript Interfaces
+// ===============================================================
+
+/**
+ * TypeScript type of a schema node
+ */
+function tsType(node) {
+  if (node === true || node === undefined) return 'unknown';
+  if (node.$ref) return pascalCase(refName(node.$ref));
+  if (node.oneOf) return node.oneOf.map(tsType).join(' | ');
+
+  switch (node.type) {
+    case 'string':
+      return 'string';
+    case 'number':
+    case 'integer':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'array':
+      return wrapArray(tsType(node.items));
+  }
+
+  if (isObjectNode(node)) {
+    if (node.additionalProperties && node.additionalProperties !== true) {
+      return `{\n  [key: string]: ${tsType(node.additionalProperties)};\n}`;
+    }
+    const members = tsMembers(node);
+    return members.length > 0
+      ? `{\n${indent(members.join('\n'))}\n}`
+      : 'Record<string, unknown>';
+  }
+
+  return 'unknown';
+}
+
+function wrapArray(type) {
+  return /^[\w<>, ]+$/.test(type) ? `${type}[]` : `(${type})[]`;
+}
+
+/**
+ * Properties and index signature of an object node
+ */
+function tsMembers(node) {
+  const required = node.required ?? [];
+  const members = Object.entries(node.properties ?? {}).map(
+    ([key, value]) =>
+      `${propertyKey(key)}${required.includes(key) ? '' : '?'}: ${tsType(value)};`,
+  );
+  if (node.patternProperties?.['^x-']) {
+    members.push('[key: `x-${string}`]: unknown;');
+  }
+  return members;
+}
+
+function tsDefinition(name, node, source) {
+  const typeName = pascalCase(name);
+  const doc = docComment(node, source);
+
+  if (
+    !isObjectNode(node) ||
+    (node.type === 'object' && !node.properties && !node.allOf)
+  ) {
+    return `${doc}\nexport type ${typeName} = ${tsType(node)};`;
+  }
+
+  // allOf: extend referenced definitions, inline the others
+  const parents = [];
+  const members = [];
+  (node.allOf ?? []).forEach((part) => {
+    if (part.$ref) parents.push(pascalCase(refName(part.$ref)));
+    else members.push(...tsMembers(part));
+  });
+  members.push(...tsMembers(node));
+
+  const extendsClause =
+    parents.length > 0 ? ` extends ${parents.join(', ')}` : '';
+  const body = [...new Set(members)];
+  return body.length > 0
+    ? `${doc}\nexport interface ${typeName}${extendsClause} {\n${indent(body.join('\n'))}\n}`
+    : `${doc}\nexport interface ${typeName}${extendsClause} {}`;
+}
+
+function generateTypes(schema) {
+  const defs = schema.$defs ?? {};
+  const rootName = schema.title ?? 'root';
+
+  return [
+    header(),
+    ...Object.entries(defs).map(([name, node]) =>
+      tsDefinition(name, node, `$defs.${name}`),
+    ),
+    tsDefinition(rootName, schema, 'root object'),
+    '',
+  ].join('\n\n');
+}
+
+// ===============================================================
+// Zod Schemas
+// ===============================================================
+
+/**
+ * Zod schema expression of a node
+ * @param property Name of the property holding the node, used in messages
+ */
+function zodExpression(node, property) {
+  if (node === true || node === undefined) return 'z.unknown()';
+  if (node.$ref) return `${camelCase(refName(node.$ref))}Schema`;
+  if (node.oneOf) {
+    return `z.union([\n${indent(
+      node.oneOf.map((item) => `${zodExpression(item, property)},`).join('\n'),
+    )}\n])`;
+  }
+
+  switch (node.type) {
+    case 'string':
+      return node.format
+        ? `z\n  .string()\n  .refine(...formatRefinement('${node.format}', '${property}'))`
+        : 'z.string()';
+    case 'number':
+      return 'z.number()';
+    case 'integer':
+      return 'z.number().int()';
+    case 'boolean':
+      return 'z.boolean()';
+    case 'array':
+      return `z.array(${zodExpression(node.items, property)})`;
+  }
+
+  if (isObjectNode(node)) return zodObject(node);
+  return 'z.unknown()';
+}
+
+/**
+ * Zod object of an object node
+ * Additional properties are kept, as JSON Schema allows them by default
+ */
+function zodObject(node) {
+  if (node.additionalProperties && node.additionalProperties !== true) {
+    return `z.record(${zodExpression(node.additionalProperties)})`;
+  }
+  if (!node.properties && !node.allOf) return 'z.record(z.unknown())';
+
+  const parts = (node.allOf ?? []).map((part) => zodExpression(part));
+  if (node.properties) parts.push(zodShape(node));
+  if (parts.length === 1) return parts[0];
+
+  const [first, ...rest] = parts;
+  return [
+    first,
+    ...rest.map((part) => indent(`.merge(${part})`)),
+    indent('.passthrough()'),
+  ].join('\n');
+}
+
+function zodShape(node) {
+  const required = node.required ?? [];
+  const fields = Object.entries(node.properties).map(([key, value]) => {
+    const expression = zodExpression(value, key);
+    // Chains spanning several lines get the modifier on their own line
+    const optional = expression.includes('\n  .')
+      ? '\n  .optional()'
+      : '.optional()';
+    return `${propertyKey(key)}: ${expression}${required.includes(key) ? '' : optional},`;
+  });
+  return `z\n  .object({\n${indent(fields.join('\n'), 2)}\n  })\n  .passthrough()`;
+}
+
+function zodDefinition(name, node, source, typeName) {
+  const expression = zodExpression(node, name);
+  const annotation = typeName ? ` as z.ZodType<${typeName}>` : '';
+  return `${docComment(node, source)}\nexport const ${camelCase(name)}Schema = ${expression}${annotation};`;
+}
+
+function generateZod(schema) {
+  const defs = schema.$defs ?? {};
+  const rootName = schema.title ?? 'root';
+  const rootType = pascalCase(rootName);
+
+  return [
+    header(),
+    [
+      "import { z } from 'zod';",
+      "import { formatRefinement } from './formats';",
+      `import type { ${rootType} } from './types';`,
+    ].join('\n'),
+    ...sortDefinitions(defs).map((name) =>
+      zodDefinition(name, defs[name], `$defs.${name}`),
+    ),
+    zodDefinition(rootName, schema, 'root object', rootType),
+    '',
+  ].join('\n\n');
+}
+
+// ===============================================================
+// Main
+// ===============================================================
+
+function header() {
+  return [
+    '/**',
+    ` * Generated from ${SCHEMA_PATH} by scripts/generate-schemas.mjs.`,
+    ` * Do not edit: change the schema, then run \`${REGENERATE}\`.`,
+    ' *',
+    ' * @see https://dpds.opendatamesh.org/specifications/dpds/1.0.0/',
+    ' */',
+  ].join('\n');
+}
+
+function main() {
+  const check = process.argv.includes('--check');
+  const schema = JSON.parse(
+    fs.readFileSync(path.join(ROOT, SCHEMA_PATH), 'utf-8'),
+  );
+
+  const outputs = [
+    [TYPES_PATH, generateTypes(schema)],
+    [ZOD_PATH, generateZod(schema)],
+  ];
+
+  if (check) {
+    const stale = outputs.filter(([file, content]) => {
+      const target = path.join(ROOT, file);
+      return (
+        !fs.existsSync(target) || fs.readFileSync(target, 'utf-8') !== content
+      );
+    });
+
+    stale.forEach(([file]) =>
+      console.error(`${file} is out of date with ${SCHEMA_PATH}`),
+    );
+    if (stale.length > 0) {
+      console.error(`Run \`${REGENERATE}\` and commit the result`);
+      process.exit(1);
+    }
+    console.log('Generated files are up to date');
+    return;
+  }
+
+  outputs.forEach(([file, content]) => {
+    fs.writeFileSync(path.join(ROOT, file), content, 'utf-8');
+    console.log(`Written: ${file}`);
+  });
+}
+
+main();
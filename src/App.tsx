@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { SchemaLoader } from './SchemaLoader';
 import { DataLoader } from './DataLoader';
 import { DynamicForm } from './DynamicForm';
@@ -7,7 +7,16 @@ import { version } from '../package.json';
 import { RJSFSchema } from '@rjsf/utils';
 import { AnySchema } from 'ajv/dist/2020';
 import { toast } from 'sonner';
-import { processSchema, testSchemaProcessor } from './schemaUtils';
+import { toFormSchema } from './schemaUtils';
+import { MigrateAction } from '@/components/MigrateAction';
+import { SourceEditor } from '@/components/SourceEditor';
+import { Code } from 'lucide-react';
+import {
+  DEFAULT_SPEC_VERSION,
+  findSpecVersion,
+  resolveSpecVersion,
+  SpecVersion,
+} from './specVersions';
 
 // Define a uiSchema to customize form appearance and behavior
 const defaultUiSchema = {
@@ -42,34 +51,77 @@ const defaultUiSchema = {
 function App() {
   const [schema, setSchema] = useState<RJSFSchema>();
   const [formData, setFormData] = useState<Record<string, unknown>>();
-
-  // For debugging - test the schema processor in the browser console
-  useEffect(() => {
-    // @ts-expect-error - Make the test function available in the console
-    window.testSchemaProcessor = testSchemaProcessor;
-  }, []);
+  // Specification version of the loaded schema, undefined for custom schemas
+  const [specVersion, setSpecVersion] = useState<string>();
+  // Show the JSON source of the form data beside the form
+  const [showSource, setShowSource] = useState(true);
 
   const handleSchemaLoaded = (loadedSchema: AnySchema) => {
-    console.log('Original schema loaded:', loadedSchema);
+    // oneOf choices between inline values and references are kept: the form
+    // offers a switch for them and validates against the schema as is
+    setSchema(toFormSchema(loadedSchema));
+    setSpecVersion(undefined);
+    toast.success('Schema loaded successfully');
+  };
+
+  // Load the schema of a specification version
+  // Returns whether it was loaded, failures are reported with a toast
+  const loadSpecSchema = async (spec: SpecVersion | undefined) => {
+    if (!spec) {
+      toast.error('Unknown specification version');
+      return false;
+    }
 
-    // Process the schema to transform oneOf properties
-    const processedSchema = processSchema(loadedSchema);
-    console.log('Processed schema:', processedSchema);
+    try {
+      const res = await fetch(spec.schemaUrl);
+      if (!res.ok) {
+        throw new Error(`${res.status} ${res.statusText}`);
+      }
+      const data = await res.json();
 
-    setSchema(processedSchema as RJSFSchema);
-    toast.success('Schema loaded and processed successfully');
+      setSchema(toFormSchema(data));
+      setSpecVersion(spec.version);
+      toast.success(
+        `Schema for specification ${spec.version} loaded successfully`,
+      );
+      return true;
+    } catch (error) {
+      console.error('Error loading schema:', error);
+      toast.error(
+        `Failed to load the schema for specification ${spec.version}`,
+      );
+      return false;
+    }
   };
 
   const handleUseDataProductSchemaBtn = async () => {
-    const res = await fetch('/schema.json');
-    const data = await res.json();
+    await loadSpecSchema(findSpecVersion(DEFAULT_SPEC_VERSION));
+  };
 
-    // Process the schema to transform oneOf properties
-    const processedSchema = processSchema(data);
-    console.log('Processed schema from file:', processedSchema);
+  // Switch to the schema of the specification version the data declares,
+  // unless a custom schema is in use. The data is loaded even if the schema
+  // can't be, the form then keeps the current one
+  const handleDataLoaded = async (data: Record<string, unknown>) => {
+    if (specVersion) {
+      const { spec, known } = resolveSpecVersion(data);
+      if (!known && typeof data.dataProductDescriptor === 'string') {
+        toast.warning(
+          `Unknown specification version ${data.dataProductDescriptor}, using ${spec.version}`,
+        );
+      }
+      if (spec.version !== specVersion) await loadSpecSchema(spec);
+    }
+    setFormData(data);
+  };
 
-    setSchema(processedSchema as RJSFSchema);
-    toast.success('Schema loaded and processed successfully');
+  // Migrated data is only shown with the schema of its version
+  const handleMigrated = async (
+    data: Record<string, unknown>,
+    migratedVersion: string,
+  ) => {
+    if (await loadSpecSchema(findSpecVersion(migratedVersion))) {
+      setFormData(data);
+    }
   };
 
   return (
@@ -92,20 +144,43 @@ function App() {
           <>
             <span className="text-lg font-bold ml-4">|</span>{' '}
             <span className="text-sm font-medium w-60">Load Form Data:</span>{' '}
-            <DataLoader onDataLoaded={setFormData} schema={schema} />
+            <DataLoader onDataLoaded={handleDataLoaded} schema={schema} />
           </>
         )}
+        {schema && specVersion && (
+          <MigrateAction
+            specVersion={specVersion}
+            onMigrated={handleMigrated}
+          />
+        )}
+        {schema && (
+          <Button
+            variant={showSource ? 'secondary' : 'outline'}
+            onClick={() => setShowSource(!showSource)}
+            aria-pressed={showSource}
+          >
+            <Code className="mr-2 h-4 w-4" />
+            Source
+          </Button>
+        )}
       </div>
       {schema && (
-        <>
-          <div className="mt-4">
+        <div
+          className={`mt-4 grid gap-4 ${showSource ? 'grid-cols-2' : 'grid-cols-1'}`}
+        >
+          <div className="min-w-0">
             <DynamicForm
               schema={schema}
               uiSchema={defaultUiSchema}
               formData={formData}
             />
           </div>
-        </>
+          {showSource && (
+            <div className="sticky top-4 min-w-0 self-start">
+              <SourceEditor schema={schema} />
+            </div>
+          )}
+        </div>
       )}
       <div className="fixed bottom-4 right-4 text-sm text-gray-400">
         v{version}
@@ -3,6 +3,8 @@ import { toast } from 'sonner';
 import { Ajv2020 } from 'ajv/dist/2020';
 import { RJSFSchema } from '@rjsf/utils';
 import { useStore } from './store';
+import { DPDS_FORMAT_PATTERNS } from './formats';
+import { detectFormat, formatParseError, parseDocument } from './lib/parse';
 
 interface DataLoaderProps {
   onDataLoaded: (data: Record<string, unknown>) => void;
@@ -15,6 +17,7 @@ export const DataLoader: React.FC<DataLoaderProps> = ({
 }) => {
   // Get the resetFormData function from the store
   const resetFormData = useStore((state) => state.resetFormData);
+  const setDocumentFormat = useStore((state) => state.setDocumentFormat);
 
   const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -25,13 +28,19 @@ export const DataLoader: React.FC<DataLoaderProps> = ({
       resetFormData();
 
       const content = await file.text();
-      const data = JSON.parse(content);
+      const format = detectFormat(file.name);
+      const parsed = parseDocument(content, format);
+
+      if (!parsed.success) {
+        toast.error(formatParseError(parsed, format));
+        return;
+      }
+
+      const data = parsed.data as Record<string, unknown>;
 
       // Check if data is an object (basic validation)
-      if (typeof data !== 'object' || data === null) {
-        toast.error(
-          'The uploaded file does not contain valid JSON object data',
-        );
+      if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+        toast.error('The uploaded file does not contain valid object data');
         return;
       }
 
@@ -43,6 +52,9 @@ export const DataLoader: React.FC<DataLoaderProps> = ({
           verbose: true,
           allowUnionTypes: true,
         });
+        Object.entries(DPDS_FORMAT_PATTERNS).forEach(([name, pattern]) =>
+          ajv.addFormat(name, pattern),
+        );
 
         const validate = ajv.compile(schema);
         const isValid = validate(data);
@@ -59,17 +71,19 @@ export const DataLoader: React.FC<DataLoaderProps> = ({
         toast.success('Form data loaded successfully');
       }
 
+      // Remember the format so the document is exported the same way
+      setDocumentFormat(format);
       onDataLoaded(data);
     } catch (error) {
       console.error('Error parsing form data:', error);
-      toast.error('Failed to parse JSON data. Please check the file format.');
+      toast.error('Failed to parse the data. Please check the file format.');
     }
   };
 
   return (
     <input
       type="file"
-      accept=".json"
+      accept=".json,.yaml,.yml"
       onChange={handleFileChange}
       className="block w-full text-sm text-gray-500
                 file:mr-4 file:py-2 file:px-4
@@ -1,7 +1,6 @@
 import { useState, useRef, useMemo, useCallback, useEffect } from 'react';
 import Form from '@rjsf/fluent-ui';
 import { useStore } from './store';
-import validator from '@rjsf/validator-ajv8';
 import { Button } from '@/components/ui/button';
 import {
   FieldTemplate,
@@ -12,10 +11,23 @@ import {
   BaseInputTemplate,
   ObjectFieldTemplate,
 } from '@/components/templates';
+import { ObjectField, OneOfField } from '@/components/fields';
 import { SubmitButton } from '@/components/SubmitButton';
+import { ExportAction, ExportMenu } from '@/components/ExportMenu';
 import { toast } from 'sonner';
 import { IChangeEvent } from '@rjsf/core';
-import { RJSFSchema, UiSchema } from '@rjsf/utils';
+import { RJSFSchema, RJSFValidationError, UiSchema } from '@rjsf/utils';
+import {
+  exportFileName,
+  ExportOptions,
+  serializeDescriptor,
+} from './lib/export';
+import { formValidator } from './validator';
+import {
+  ComponentRename,
+  findComponentRename,
+  renameComponentReferences,
+} from './lib/componentRefs';
 
 interface DynamicFormProps {
   schema: RJSFSchema;
@@ -23,12 +35,6 @@ interface DynamicFormProps {
   formData?: Record<string, unknown>;
 }
 
-// Type for the custom event
-interface JsonEditorChangeDetail {
-  id: string;
-  value: Record<string, unknown> | unknown[];
-}
-
 export const DynamicForm: React.FC<DynamicFormProps> = ({
   schema,
   uiSchema = {},
@@ -49,12 +55,21 @@ export const DynamicForm: React.FC<DynamicFormProps> = ({
     [],
   );
 
+  // Inline JSON objects are edited as JSON, at their own path, and values
+  // that can be references get a switch between inline and reference
+  const fields = useMemo(() => ({ ObjectField, OneOfField }), []);
+
   // Use any for the form ref to avoid type errors with the Form component
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const formRef = useRef<any>(null);
   const formData = useStore((state) => state.formData);
   const setFormData = useStore((state) => state.setFormData);
   const [shouldValidate, setShouldValidate] = useState<boolean>(true);
+  // Export requested from the menu, carried out once the form is validated
+  const pendingExport = useRef<{
+    action: ExportAction;
+    options: ExportOptions;
+  }>();
 
   // Initialize form data from props if provided
   useEffect(() => {
@@ -67,85 +82,138 @@ export const DynamicForm: React.FC<DynamicFormProps> = ({
     }
   }, [initialFormData, setFormData]);
 
-  // Listen for custom JSON editor changes
-  useEffect(() => {
-    const handleJsonEditorChange = (event: Event) => {
-      const customEvent = event as CustomEvent<JsonEditorChangeDetail>;
-      if (customEvent.detail) {
-        const { id, value } = customEvent.detail;
-
-        // Use the existing form data and update only the changed field
-        // This is a simple implementation that works for top-level fields
-        // For nested fields, you would need more logic to update the right path
-        const updatedFormData = { ...formData };
-
-        // Extract the field name from the ID (usually in format "root_fieldName")
-        const fieldName = id?.split('_').pop();
-
-        if (fieldName) {
-          updatedFormData[fieldName] = value;
-          setFormData(updatedFormData);
-        }
-      }
-    };
-
-    // Add event listener
-    const formElement = document.getElementById('dynamic-form');
-    if (formElement) {
-      formElement.addEventListener(
-        'json-editor-change',
-        handleJsonEditorChange,
-      );
-    }
-
-    // Clean up event listener
-    return () => {
-      if (formElement) {
-        formElement.removeEventListener(
-          'json-editor-change',
-          handleJsonEditorChange,
-        );
-      }
-    };
-  }, [formData, setFormData]);
+  // Offer to point the references to a renamed component to its new key
+  const offerReferenceUpdate = useCallback(
+    (rename: ComponentRename, count: number) => {
+      toast(`Component ${rename.from} renamed to ${rename.to}`, {
+        description: `${count} reference${count === 1 ? '' : 's'} still point${
+          count === 1 ? 's' : ''
+        } to ${rename.from}`,
+        action: {
+          label: `Update ${count === 1 ? 'reference' : 'references'}`,
+          onClick: () => {
+            const { data, count: updated } = renameComponentReferences(
+              useStore.getState().formData,
+              rename,
+            );
+            setFormData(data);
+            toast.success(
+              `${updated} reference${updated === 1 ? '' : 's'} updated`,
+            );
+          },
+        },
+      });
+    },
+    [setFormData],
+  );
 
   // Implement a debounced change handler for performance
   const handleChange = useCallback(
     (e: IChangeEvent) => {
       if (e && e.formData) {
+        // Only edits of the components section can rename a component
+        const previous = useStore.getState().formData;
+        const rename =
+          previous.components !== e.formData.components
+            ? findComponentRename(previous, e.formData)
+            : undefined;
+        if (rename) {
+          const { count } = renameComponentReferences(e.formData, rename);
+          if (count > 0) offerReferenceUpdate(rename, count);
+        }
+
         // Use a microtask to defer state update for better performance
         Promise.resolve().then(() => {
           setFormData(e.formData);
         });
       }
     },
-    [setFormData],
+    [setFormData, offerReferenceUpdate],
   );
 
-  // Submit handler with improved performance
-  const onSubmit = useCallback(
-    (e: IChangeEvent) => {
-      if (e && e.formData) {
-        try {
-          console.log('Data submitted: ', e.formData);
-          const dataStr = JSON.stringify(e.formData, null, 2);
+  // Copy or download the data with the options of the export menu
+  const exportData = useCallback(
+    (
+      data: Record<string, unknown>,
+      { action, options }: NonNullable<typeof pendingExport.current>,
+    ) => {
+      try {
+        const dataStr = serializeDescriptor(data, options);
+        const label = options.format.toUpperCase();
 
+        if (action === 'clipboard') {
           navigator.clipboard.writeText(dataStr).then(
-            () => toast.success('Data copied to clipboard'),
+            () => toast.success(`${label} data copied to clipboard`),
             () => toast.error('Failed to copy data to clipboard'),
           );
-
-          // Enable validation only after form submission
-          setShouldValidate(true);
-        } catch (error) {
-          console.error('Submission error:', error);
-          toast.error('Error processing form data');
+          return;
         }
+
+        const fileName = exportFileName(data, options.format);
+        const url = URL.createObjectURL(
+          new Blob([dataStr], {
+            type:
+              options.format === 'yaml'
+                ? 'application/yaml'
+                : 'application/json',
+          }),
+        );
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = fileName;
+        link.click();
+        // Revoking right away can cancel the download before it starts
+        setTimeout(() => URL.revokeObjectURL(url), 0);
+        toast.success(`${label} data downloaded as ${fileName}`);
+      } catch (error) {
+        console.error('Export error:', error);
+        toast.error('Error processing form data');
+      }
+    },
+    [],
+  );
+
+  // Validate the form first: submitting calls onSubmit or onError
+  const handleExport = useCallback(
+    (action: ExportAction, options: ExportOptions) => {
+      pendingExport.current = { action, options };
+      setShouldValidate(true);
+      formRef.current?.submit();
+    },
+    [],
+  );
+
+  // Submit handler, called when the form is valid
+  const onSubmit = useCallback(
+    (e: IChangeEvent) => {
+      const pending = pendingExport.current;
+      pendingExport.current = undefined;
+      if (!pending) return;
+
+      if (e && e.formData) {
+        exportData(e.formData, pending);
       } else {
         toast.error('No form data available');
       }
     },
-    [setShouldValidate],
+    [exportData],
+  );
+
+  // Invalid data is only exported once confirmed
+  const onError = useCallback(
+    (errors: RJSFValidationError[]) => {
+      const pending = pendingExport.current;
+      pendingExport.current = undefined;
+      if (!pending) return;
+
+      const confirmed = window.confirm(
+        `The form has ${errors.length} validation error${
+          errors.length === 1 ? '' : 's'
+        }. Export the data anyway?`,
+      );
+      if (confirmed) exportData(useStore.getState().formData, pending);
+    },
+    [exportData],
   );
 
   // Reset handler
@@ -161,12 +229,9 @@ export const DynamicForm: React.FC<DynamicFormProps> = ({
   const enhancedUiSchema = useMemo(
     () => ({
       ...uiSchema,
+      // Replaced by the export menu
       'ui:submitButtonOptions': {
-        submitText: 'Copy to clipboard',
-        props: {
-          id: 'submit-button-id',
-          className: 'text-white bg-blue-800',
-        },
+        norender: true,
       },
       'ui:options': {
         ...uiSchema['ui:options'],
@@ -174,8 +239,7 @@ export const DynamicForm: React.FC<DynamicFormProps> = ({
         validate: true,
         label: false, // Disable labels for better performance
         submitButtonOptions: {
-          norender: false,
-          submitText: 'Copy to clipboard',
+          norender: true,
         },
       },
     }),
@@ -191,8 +255,10 @@ export const DynamicForm: React.FC<DynamicFormProps> = ({
         formData={formData}
         onChange={handleChange}
         templates={templates}
-        validator={validator}
+        fields={fields}
+        validator={formValidator}
         onSubmit={onSubmit}
+        onError={onError}
         liveValidate={shouldValidate}
         noHtml5Validate
         id="dynamic-form"
@@ -201,14 +267,17 @@ export const DynamicForm: React.FC<DynamicFormProps> = ({
         readonly={false}
         omitExtraData={false}
       />
-      <Button
-        variant="destructive"
-        onClick={handleReset}
-        id="reset-button"
-        type="button"
-      >
-        Reset
-      </Button>
+      <div className="flex flex-row items-center space-x-4">
+        <ExportMenu onExport={handleExport} />
+        <Button
+          variant="destructive"
+          onClick={handleReset}
+          id="reset-button"
+          type="button"
+        >
+          Reset
+        </Button>
+      </div>
     </>
   );
 };
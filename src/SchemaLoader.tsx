@@ -1,5 +1,7 @@
 import React, { ChangeEvent } from 'react';
 import Ajv2020, { AnySchema } from 'ajv/dist/2020';
+import { toast } from 'sonner';
+import { detectFormat, formatParseError, parseDocument } from './lib/parse';
 
 interface SchemaLoaderProps {
   onSchemaLoaded: (schema: AnySchema) => void;
@@ -14,7 +16,15 @@ export const SchemaLoader: React.FC<SchemaLoaderProps> = ({
 
     try {
       const content = await file.text();
-      const rawSchema = JSON.parse(content);
+      const format = detectFormat(file.name);
+      const parsed = parseDocument(content, format);
+
+      if (!parsed.success) {
+        toast.error(formatParseError(parsed, format));
+        return;
+      }
+
+      const rawSchema = parsed.data as AnySchema;
 
       // Use Ajv2020 with strict mode disabled
       const ajv = new Ajv2020({
@@ -35,5 +45,7 @@ export const SchemaLoader: React.FC<SchemaLoaderProps> = ({
     }
   };
 
-  return <input type="file" accept=".json" onChange={handleFileChange} />;
+  return (
+    <input type="file" accept=".json,.yaml,.yml" onChange={handleFileChange} />
+  );
 };
@@ -0,0 +1,114 @@
+import { useEffect, useState } from 'react';
+import { ChevronDown, ClipboardCopy, Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useStore } from '@/store';
+import type { ExportOptions } from '@/lib/export';
+import type { DocumentFormat } from '@/lib/parse';
+
+export type ExportAction = 'download' | 'clipboard';
+
+interface ExportMenuProps {
+  onExport: (action: ExportAction, options: ExportOptions) => void;
+}
+
+const FORMATS: { value: DocumentFormat; label: string }[] = [
+  { value: 'json', label: 'JSON' },
+  { value: 'yaml', label: 'YAML' },
+];
+
+const TOGGLES: { key: 'pretty' | 'canonical' | 'pruneEmpty'; label: string }[] =
+  [
+    { key: 'pretty', label: 'Pretty print' },
+    { key: 'canonical', label: 'Canonical key order' },
+    { key: 'pruneEmpty', label: 'Prune empty values' },
+  ];
+
+/**
+ * Export menu of the form: output options, then download or copy
+ * The format defaults to the one the document was loaded from.
+ */
+function ExportMenu({ onExport }: ExportMenuProps) {
+  const documentFormat = useStore((state) => state.documentFormat);
+  const [open, setOpen] = useState(false);
+  const [options, setOptions] = useState<ExportOptions>({
+    format: documentFormat,
+    pretty: true,
+    canonical: true,
+    pruneEmpty: true,
+  });
+
+  useEffect(() => {
+    setOptions((current) => ({ ...current, format: documentFormat }));
+  }, [documentFormat]);
+
+  const handleExport = (action: ExportAction) => {
+    setOpen(false);
+    onExport(action, options);
+  };
+
+  return (
+    <div className="relative inline-block">
+      <Button
+        variant="outline"
+        type="button"
+        className="text-white bg-blue-800"
+        id="export-button"
+        aria-expanded={open}
+        onClick={() => setOpen(!open)}
+      >
+        <Download className="mr-2 h-4 w-4" />
+        Export
+        <ChevronDown className="ml-2 h-4 w-4" />
+      </Button>
+      {open && (
+        <div className="absolute bottom-full z-10 mb-2 w-64 space-y-3 rounded-md border bg-white p-3 text-sm shadow-md">
+          <div className="flex flex-row space-x-4" role="radiogroup">
+            {FORMATS.map(({ value, label }) => (
+              <label key={value} className="flex items-center space-x-2">
+                <input
+                  type="radio"
+                  name="export-format"
+                  checked={options.format === value}
+                  onChange={() => setOptions({ ...options, format: value })}
+                />
+                <span>{label}</span>
+              </label>
+            ))}
+          </div>
+          {TOGGLES.map(({ key, label }) => (
+            <label key={key} className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                checked={options[key]}
+                onChange={(e) =>
+                  setOptions({ ...options, [key]: e.target.checked })
+                }
+              />
+              <span>{label}</span>
+            </label>
+          ))}
+          <div className="flex flex-row space-x-2">
+            <Button
+              variant="outline"
+              type="button"
+              onClick={() => handleExport('download')}
+            >
+              <Download className="mr-2 h-4 w-4" />
+              Download
+            </Button>
+            <Button
+              variant="outline"
+              type="button"
+              onClick={() => handleExport('clipboard')}
+            >
+              <ClipboardCopy className="mr-2 h-4 w-4" />
+              Copy
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export { ExportMenu };
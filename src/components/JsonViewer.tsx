@@ -9,6 +9,15 @@ interface JsonViewerProps {
   onChange?: (value: Record<string, unknown> | unknown[] | null) => void;
 }
 
+// Whether a text is the JSON of a value, whatever its formatting
+const holdsValue = (text: string, value: unknown) => {
+  try {
+    return JSON.stringify(JSON.parse(text)) === JSON.stringify(value);
+  } catch {
+    return false;
+  }
+};
+
 export const JsonViewer: React.FC<JsonViewerProps> = ({
   value,
   readOnly = true,
@@ -23,7 +32,10 @@ export const JsonViewer: React.FC<JsonViewerProps> = ({
     try {
       // Format JSON with 2 spaces indentation for readability
       const formatted = JSON.stringify(value, null, 2);
-      setJsonString(formatted);
+      // Keep the text being typed when the value comes from it
+      setJsonString((current) =>
+        holdsValue(current, value) ? current : formatted,
+      );
       setIsValid(true);
 
       // Calculate auto height based on content (roughly 20px per line plus some padding)
@@ -0,0 +1,97 @@
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { CircleArrowUp } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useStore } from '@/store';
+import { migrateDescriptor } from '@/lib/migrate';
+import { getSpecVersions, resolveSpecVersion } from '@/specVersions';
+
+interface MigrateActionProps {
+  /** Specification version of the loaded schema */
+  specVersion: string;
+  onMigrated: (data: Record<string, unknown>, version: string) => void;
+}
+
+/**
+ * Migrates the form data to another registered specification version
+ * Only rendered when there is another version to migrate to.
+ */
+function MigrateAction({ specVersion, onMigrated }: MigrateActionProps) {
+  const formData = useStore((state) => state.formData);
+  const versions = getSpecVersions()
+    .map(({ version }) => version)
+    .filter((version) => version !== specVersion);
+  const [selected, setSelected] = useState<string>();
+  // Fall back to the latest version when the selection is no longer available
+  const target =
+    selected && versions.includes(selected)
+      ? selected
+      : versions[versions.length - 1];
+
+  if (versions.length === 0) {
+    return null;
+  }
+
+  const handleMigrate = () => {
+    const migration = migrateDescriptor(formData, target);
+
+    if (!migration.success) {
+      toast.error(migration.error);
+      return;
+    }
+
+    if (migration.changes.length === 0) {
+      toast.info(`Nothing to migrate, the data already uses ${migration.to}`);
+      return;
+    }
+
+    toast.success(
+      `Migrated from ${migration.from} to ${migration.to}: ${migration.changes.length} changes`,
+      {
+        description: (
+          <ul>
+            {migration.changes.map((change, index) => (
+              <li key={index}>
+                {change.path.join('.')}: {change.message}
+              </li>
+            ))}
+          </ul>
+        ),
+      },
+    );
+
+    // Validate with the schemas of the target version
+    const { spec } = resolveSpecVersion(migration.data);
+    const result = spec.descriptorSchema.safeParse(migration.data);
+    if (!result.success) {
+      toast.warning(
+        `The migrated data is not valid for specification ${migration.to}: ${result.error.issues.length} issues to fix`,
+      );
+    }
+
+    onMigrated(migration.data, migration.to);
+  };
+
+  return (
+    <div className="flex flex-row items-center space-x-2">
+      <select
+        value={target}
+        onChange={(e) => setSelected(e.target.value)}
+        className="h-9 rounded-md border border-input bg-transparent px-2 text-sm"
+        aria-label="Target specification version"
+      >
+        {versions.map((version) => (
+          <option key={version} value={version}>
+            {version}
+          </option>
+        ))}
+      </select>
+      <Button variant="outline" onClick={handleMigrate}>
+        <CircleArrowUp className="mr-2 h-4 w-4" />
+        Migrate
+      </Button>
+    </div>
+  );
+}
+
+export { MigrateAction };
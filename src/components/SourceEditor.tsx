@@ -0,0 +1,181 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import CodeMirror, { EditorView } from '@uiw/react-codemirror';
+import { json } from '@codemirror/lang-json';
+import { Diagnostic, forceLinting, linter, lintGutter } from '@codemirror/lint';
+import { RJSFSchema } from '@rjsf/utils';
+import { useStore } from '@/store';
+import { formValidator } from '@/validator';
+import { parseDocument } from '@/lib/parse';
+import { createSourceLocator } from '@/lib/locations';
+import { isObject } from '@/lib/descriptor';
+
+interface SourceEditorProps {
+  /** Schema of the form, whose validation errors are shown inline */
+  schema: RJSFSchema;
+  height?: string;
+}
+
+const serialize = (data: unknown) => JSON.stringify(data, null, 2);
+
+/**
+ * Replace the text of the editor, changing only the part that differs so
+ * that the cursor and the selection stay in place
+ */
+function replaceText(view: EditorView, text: string): void {
+  const current = view.state.doc.toString();
+  if (current === text) return;
+
+  let start = 0;
+  while (
+    start < current.length &&
+    start < text.length &&
+    current[start] === text[start]
+  ) {
+    start++;
+  }
+
+  let end = 0;
+  while (
+    end < current.length - start &&
+    end < text.length - start &&
+    current[current.length - 1 - end] === text[text.length - 1 - end]
+  ) {
+    end++;
+  }
+
+  view.dispatch({
+    changes: {
+      from: start,
+      to: current.length - end,
+      insert: text.slice(start, text.length - end),
+    },
+  });
+}
+
+/**
+ * Diagnostic spanning the rest of the line from a 1-based position
+ */
+function diagnosticAt(
+  view: EditorView,
+  line: number,
+  column: number,
+  message: string,
+): Diagnostic {
+  const { doc } = view.state;
+  const docLine = doc.line(Math.min(Math.max(1, line), doc.lines));
+  const from = Math.min(docLine.from + Math.max(0, column - 1), docLine.to);
+  return { from, to: docLine.to, severity: 'error', message };
+}
+
+/**
+ * JSON source of the whole form data, editable
+ *
+ * Edits update the store once the text is valid JSON, and changes made in
+ * the form are merged into the text without moving the cursor. Syntax
+ * errors and the form's validation errors are shown as diagnostics.
+ */
+function SourceEditor({
+  schema,
+  height = 'calc(100vh - 12rem)',
+}: SourceEditorProps) {
+  const formData = useStore((state) => state.formData);
+  const setFormData = useStore((state) => state.setFormData);
+  const viewRef = useRef<EditorView>();
+  // Serialized data last exchanged with the store, to tell edits made here
+  // from edits made in the form
+  const syncedRef = useRef(JSON.stringify(formData));
+  // Later changes are merged by replaceText, not through the value prop
+  const [initialText] = useState(() => serialize(formData));
+  const schemaRef = useRef(schema);
+  schemaRef.current = schema;
+
+  // Changes made in the form
+  useEffect(() => {
+    const synced = JSON.stringify(formData);
+    if (synced === syncedRef.current) return;
+    syncedRef.current = synced;
+    if (viewRef.current) replaceText(viewRef.current, serialize(formData));
+  }, [formData]);
+
+  useEffect(() => {
+    if (viewRef.current) forceLinting(viewRef.current);
+  }, [schema]);
+
+  const handleChange = useCallback(
+    (text: string) => {
+      const parsed = parseDocument(text, 'json');
+      if (!parsed.success || !isObject(parsed.data)) return;
+
+      const synced = JSON.stringify(parsed.data);
+      if (synced === syncedRef.current) return;
+      syncedRef.current = synced;
+      setFormData(parsed.data);
+    },
+    [setFormData],
+  );
+
+  const extensions = useMemo(
+    () => [
+      json(),
+      lintGutter(),
+      linter(
+        (view) => {
+          const text = view.state.doc.toString();
+          const parsed = parseDocument(text, 'json');
+
+          if (!parsed.success) {
+            return [
+              diagnosticAt(
+                view,
+                parsed.line ?? 1,
+                parsed.column ?? 1,
+                `Invalid JSON: ${parsed.error}`,
+              ),
+            ];
+          }
+
+          // Same errors as the form: `.info.contactPoints.0.name` style paths
+          const { errors } = formValidator.validateFormData(
+            parsed.data,
+            schemaRef.current,
+          );
+          const locate = createSourceLocator(text);
+          return errors.map((error) => {
+            const path = (error.property ?? '')
+              .split('.')
+              .filter(Boolean)
+              .map((segment) =>
+                /^\d+$/.test(segment) ? Number(segment) : segment,
+              );
+            const position = locate(path) ?? { line: 1, column: 1 };
+            return diagnosticAt(
+              view,
+              position.line,
+              position.column,
+              error.stack || error.message || 'Invalid value',
+            );
+          });
+        },
+        { delay: 300 },
+      ),
+    ],
+    [],
+  );
+
+  return (
+    <div className="source-editor rounded-md border border-input">
+      <CodeMirror
+        value={initialText}
+        height={height}
+        extensions={extensions}
+        onChange={handleChange}
+        onCreateEditor={(view) => (viewRef.current = view)}
+        basicSetup={{ lineNumbers: true, foldGutter: true }}
+        className="text-sm"
+        theme="light"
+      />
+    </div>
+  );
+}
+
+export { SourceEditor };
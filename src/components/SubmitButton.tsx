@@ -1,10 +1,9 @@
 import { getSubmitButtonOptions, SubmitButtonProps } from '@rjsf/utils';
 import { Button } from '@/components/ui/button';
-import { ClipboardCopy } from 'lucide-react';
 
 function SubmitButton(props: SubmitButtonProps) {
   const { uiSchema } = props;
-  const { norender } = getSubmitButtonOptions(uiSchema);
+  const { norender, submitText } = getSubmitButtonOptions(uiSchema);
 
   if (norender) {
     return null;
@@ -17,8 +16,7 @@ function SubmitButton(props: SubmitButtonProps) {
       className="text-white bg-blue-800"
       id="submit-button"
     >
-      <ClipboardCopy className="mr-2 h-4 w-4" />
-      Copy to clipboard
+      {submitText}
     </Button>
   );
 }
@@ -0,0 +1,51 @@
+import { useCallback } from 'react';
+import { getDefaultRegistry } from '@rjsf/core';
+import { FieldProps } from '@rjsf/utils';
+import { JsonViewer } from '@/components/JsonViewer';
+
+const { ObjectField: DefaultObjectField } = getDefaultRegistry().fields;
+
+/**
+ * Object field rendering inline JSON objects (e.g. the definition of a
+ * standard definition) with the CodeMirror JSON viewer
+ * Changes go through the field's onChange, so that the form writes them at
+ * the field's path; other objects are rendered by the default field.
+ */
+function ObjectField(props: FieldProps) {
+  const { schema, formData, onChange, idSchema } = props;
+
+  const isInlineJsonObject =
+    schema.type === 'object' &&
+    schema.title === 'object' &&
+    schema.description === 'An inline JSON Object';
+
+  const handleJsonChange = useCallback(
+    (newData: Record<string, unknown> | unknown[] | null) => {
+      if (newData !== null) onChange(newData, undefined, idSchema.$id);
+    },
+    [onChange, idSchema],
+  );
+
+  if (!isInlineJsonObject) {
+    return <DefaultObjectField {...props} />;
+  }
+
+  return (
+    <div className="object-field-template">
+      <div className="object-field-title mb-2">
+        {schema.title && <h5>{schema.title}</h5>}
+        {schema.description && (
+          <p className="text-gray-600 text-sm">{schema.description}</p>
+        )}
+      </div>
+      <JsonViewer
+        value={formData ?? {}}
+        readOnly={props.readonly || props.disabled}
+        height="auto"
+        onChange={handleJsonChange}
+      />
+    </div>
+  );
+}
+
+export { ObjectField };
@@ -0,0 +1,117 @@
+import { useRef, useState } from 'react';
+import { getDefaultRegistry } from '@rjsf/core';
+import { FieldProps, RJSFSchema, UiSchema } from '@rjsf/utils';
+import { Button } from '@/components/ui/button';
+import { ReferenceWidget } from '@/components/widgets';
+import {
+  referenceChoiceOf,
+  referenceKindOf,
+  referenceOptionIndex,
+} from '@/schemaUtils';
+
+const { OneOfField: DefaultOneOfField } = getDefaultRegistry().fields;
+
+type Choice = 'inline' | 'reference';
+
+const CHOICES: { value: Choice; label: string }[] = [
+  { value: 'inline', label: 'Inline' },
+  { value: 'reference', label: 'Reference' },
+];
+
+/**
+ * Switch between an inline value and a Reference Object, rendering the
+ * sub-form of the chosen option
+ * The value left behind is restored when switching back; properties both
+ * options define (e.g. `description`) are carried over otherwise.
+ * References are entered with a picker of the document's components.
+ */
+function ReferenceChoiceField(props: FieldProps) {
+  const { schema, options, formData, onChange, registry, idSchema, uiSchema } =
+    props;
+  const { SchemaField } = registry.fields;
+  const referenceIndex = referenceOptionIndex(schema);
+  const optionSchemas: Record<Choice, RJSFSchema> = {
+    inline: options[1 - referenceIndex],
+    reference: options[referenceIndex],
+  };
+
+  const [selected, setSelected] = useState<Choice>(
+    () => referenceChoiceOf(formData) ?? 'inline',
+  );
+  const referenceUiSchema: UiSchema = {
+    ...uiSchema,
+    $ref: {
+      ...uiSchema?.$ref,
+      'ui:widget': ReferenceWidget,
+      'ui:options': { kind: referenceKindOf(schema) },
+    },
+  };
+
+  const leftBehind = useRef<Partial<Record<Choice, unknown>>>({});
+  // The data decides, unless it fits both options
+  const choice = referenceChoiceOf(formData) ?? selected;
+
+  const handleSwitch = (next: Choice) => {
+    if (next === choice) return;
+    leftBehind.current[choice] = formData;
+    setSelected(next);
+
+    const restored = leftBehind.current[next];
+    if (restored !== undefined) {
+      onChange(restored, undefined, idSchema.$id);
+      return;
+    }
+
+    const properties = optionSchemas[next].properties ?? {};
+    const carried =
+      typeof formData === 'object' && formData !== null
+        ? Object.fromEntries(
+            Object.entries(formData).filter(([key]) => key in properties),
+          )
+        : {};
+    onChange(carried, undefined, idSchema.$id);
+  };
+
+  return (
+    <div className="reference-choice">
+      <div
+        className="flex flex-row space-x-2 mb-2"
+        role="radiogroup"
+        id={`${idSchema.$id}__choice`}
+      >
+        {CHOICES.map(({ value, label }) => (
+          <Button
+            key={value}
+            type="button"
+            size="sm"
+            variant={choice === value ? 'secondary' : 'outline'}
+            role="radio"
+            aria-checked={choice === value}
+            disabled={props.disabled || props.readonly}
+            onClick={() => handleSwitch(value)}
+          >
+            {label}
+          </Button>
+        ))}
+      </div>
+      <SchemaField
+        {...props}
+        schema={optionSchemas[choice]}
+        uiSchema={choice === 'reference' ? referenceUiSchema : uiSchema}
+      />
+    </div>
+  );
+}
+
+/**
+ * oneOf field offering a switch between inline values and references, the
+ * default select for other choices
+ */
+function OneOfField(props: FieldProps) {
+  if (referenceOptionIndex(props.schema) === -1) {
+    return <DefaultOneOfField {...props} />;
+  }
+  return <ReferenceChoiceField {...props} />;
+}
+
+export { OneOfField };
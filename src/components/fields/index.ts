@@ -0,0 +1,2 @@
+export * from './ObjectField';
+export * from './OneOfField';
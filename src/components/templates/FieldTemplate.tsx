@@ -1,3 +1,4 @@
+import { useEffect, useRef, useState } from 'react';
 import { FieldTemplateProps } from '@rjsf/utils';
 import {
   Collapsible,
@@ -5,6 +6,23 @@ import {
   CollapsibleTrigger,
 } from '@/components/ui/collapsible';
 import { ChevronsUpDown } from 'lucide-react';
+import { useStore } from '@/store';
+
+/**
+ * Ids of the fields on a path, from the root to the field itself
+ * @example pathIds(['components', 'my_port']) // ['root', 'root_components', 'root_components_my_port']
+ */
+const pathIds = (path: string[]) =>
+  path.reduce(
+    (ids, segment) => [...ids, `${ids[ids.length - 1]}_${segment}`],
+    ['root'],
+  );
+
+/**
+ * Whether a field is the revealed field or one of its ancestors
+ */
+const isOnRevealedPath = (id: string, revealed?: string[]) =>
+  !!revealed && pathIds(revealed).includes(id);
 
 function FieldTemplate(props: FieldTemplateProps) {
   const {
@@ -21,6 +39,30 @@ function FieldTemplate(props: FieldTemplateProps) {
     formData,
   } = props;
 
+  const [open, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const revealed = useStore((state) =>
+    isOnRevealedPath(id, state.revealedPath),
+  );
+  const isTarget = useStore(
+    (state) => !!state.revealedPath && pathIds(state.revealedPath).pop() === id,
+  );
+  const revealField = useStore((state) => state.revealField);
+
+  // Fields open on the way to the revealed one, which scrolls into view
+  useEffect(() => {
+    if (revealed) setOpen(true);
+  }, [revealed]);
+
+  useEffect(() => {
+    if (!isTarget) return;
+    containerRef.current?.scrollIntoView({
+      behavior: 'smooth',
+      block: 'start',
+    });
+    revealField(undefined);
+  }, [isTarget, revealField]);
+
   const hasErrors =
     errors &&
     errors.props &&
@@ -36,6 +78,7 @@ function FieldTemplate(props: FieldTemplateProps) {
   if (isString) {
     return (
       <div
+        ref={containerRef}
         className={`${classNames} my-2 ${
           hasErrors ? 'border-r-red-600 border-r-8' : ''
         }`}
@@ -63,12 +106,13 @@ function FieldTemplate(props: FieldTemplateProps) {
 
   return (
     <div
+      ref={containerRef}
       className={`${classNames} mix-blend-multiply bg-slate-50 my-2 py-2 ${
         isObject || !isArrayWithData ? 'border-2' : 'py-10'
       }  ${hasErrors ? 'border-r-red-600 border-r-8' : ''}`}
       style={style}
     >
-      <Collapsible>
+      <Collapsible open={open} onOpenChange={setOpen}>
         <div className="space-x-4 px-4">
           <CollapsibleTrigger className="flex flex-row items-center space-x-2">
             <ChevronsUpDown className="h-5 w-5" />
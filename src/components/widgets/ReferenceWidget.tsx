@@ -0,0 +1,85 @@
+import { ChangeEvent, FocusEvent } from 'react';
+import { WidgetProps } from '@rjsf/utils';
+import { LocateFixed } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useStore } from '@/store';
+import { componentOf, hasComponent, listComponents } from '@/lib/componentRefs';
+
+/**
+ * `$ref` input suggesting the entries of the document's `components`
+ * section of the expected kind (`ui:options.kind`), with a button going to
+ * the component the reference points to
+ */
+function ReferenceWidget(props: WidgetProps) {
+  const {
+    id,
+    value,
+    options,
+    placeholder,
+    disabled,
+    readonly,
+    autofocus,
+    onChange,
+    onBlur,
+    onFocus,
+  } = props;
+  const kind = typeof options.kind === 'string' ? options.kind : undefined;
+  const formData = useStore((state) => state.formData);
+  const revealField = useStore((state) => state.revealField);
+
+  const ref = typeof value === 'string' ? value : '';
+  const entries = kind ? listComponents(formData, kind) : [];
+  const target = hasComponent(formData, ref) ? componentOf(ref) : undefined;
+  const listId = `${id}__components`;
+
+  return (
+    <div className="flex flex-row items-center space-x-2 w-full">
+      <input
+        id={id}
+        className="p-2 rounded-none outline-none border-solid border-2 w-full focus:border-2 focus:border-blue-700 focus:outline-none focus:ring-0"
+        value={ref}
+        list={entries.length > 0 ? listId : undefined}
+        placeholder={
+          placeholder || (kind ? `#/components/${kind}/...` : undefined)
+        }
+        disabled={disabled}
+        readOnly={readonly}
+        autoFocus={autofocus}
+        onChange={(e: ChangeEvent<HTMLInputElement>) =>
+          onChange(e.target.value === '' ? options.emptyValue : e.target.value)
+        }
+        onBlur={(e: FocusEvent<HTMLInputElement>) => onBlur(id, e.target.value)}
+        onFocus={(e: FocusEvent<HTMLInputElement>) =>
+          onFocus(id, e.target.value)
+        }
+        data-testid={`input-${id}`}
+      />
+      {entries.length > 0 && (
+        <datalist id={listId}>
+          {entries.map((entry) => (
+            <option key={entry.pointer} value={entry.pointer}>
+              {entry.key}
+            </option>
+          ))}
+        </datalist>
+      )}
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        title={
+          target ? `Go to ${target.key}` : 'Not a component of this document'
+        }
+        disabled={!target}
+        onClick={() =>
+          target && revealField(['components', target.kind, target.key])
+        }
+      >
+        <LocateFixed className="mr-2 h-4 w-4" />
+        Go to
+      </Button>
+    </div>
+  );
+}
+
+export { ReferenceWidget };
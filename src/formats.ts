@@ -0,0 +1,105 @@
+/**
+ * Custom string formats used by the DPDS JSON Schema
+ * Shared by the generated zod schemas (CLI) and by ajv (web app), so that a
+ * `format` keyword of schema.json is checked the same way everywhere.
+ *
+ * @see https://dpds.opendatamesh.org/specifications/dpds/1.0.0/
+ */
+
+/**
+ * A string format: the pattern values must match and the message shown,
+ * prefixed by the property name, when they don't
+ */
+export interface StringFormat {
+  pattern: RegExp;
+  message: string;
+}
+
+/**
+ * Formats by the name used in the `format` keyword
+ */
+export const DPDS_FORMATS = {
+  /**
+   * Format: xxxxxxxx-xxxx-xxxx-xxxx-xxxxxxxxxxxx where x is a hexadecimal character
+   */
+  uuid: {
+    pattern: /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+    message: 'must be a valid UUID format',
+  },
+  /**
+   * For Data Products:
+   *   Format: A URN of the form urn:dpds:{mesh-namespace}:dataproducts:{product-name}:{product-major-version}
+   *   Example: "urn:dpds:it.quantyca:dataproducts:tripExecution:1"
+   * For Input Ports:
+   *   Format: A URN of the form urn:dpds:{mesh-namespace}:dataproducts:{product-name}:{product-major-version}:inputports:{port-name}
+   *   Example: "urn:dpds:it.quantyca:dataproducts:tripExecution:1:inputports:tmsTripCDC"
+   * For Output Ports:
+   *   Format: A URN of the form urn:dpds:{mesh-namespace}:dataproducts:{product-name}:{product-major-version}:outputports:{port-name}
+   *   Example: "urn:dpds:it.quantyca:dataproducts:tripExecution:1:outputports:tripDetails"
+   *
+   * Where mesh-namespace is typically a company's domain name in reverse dot notation (e.g., it.quantyca)
+   */
+  fqn: {
+    pattern:
+      /^urn:dpds:[a-zA-Z0-9][\w.-]*:dataproducts:[a-zA-Z0-9][\w-]*:[0-9]+(:(input|output)ports:[a-zA-Z0-9][\w-]*)?$/,
+    message:
+      'must be a URN of the form urn:dpds:{mesh-namespace}:dataproducts:{product-name}:{product-major-version} or urn:dpds:{mesh-namespace}:dataproducts:{product-name}:{product-major-version}:(input|output)ports:{port-name}',
+  },
+  alphanumeric: {
+    pattern: /^[a-zA-Z0-9]+$/,
+    message: 'must contain only alphanumeric characters',
+  },
+  /**
+   * Names are camel case
+   */
+  name: {
+    pattern: /^[a-z][a-zA-Z0-9]*$/,
+    message: 'must be in a valid format (camelCase)',
+  },
+  /**
+   * Semantic versioning format
+   */
+  version: {
+    pattern: /^\d+\.\d+\.\d+(-[a-zA-Z0-9.]+)?(\+[a-zA-Z0-9.]+)?$/,
+    message: 'must follow semantic versioning format',
+  },
+  uri: {
+    pattern: /^(https?|ftp):\/\/[^\s/$.?#].[^\s]*$/i,
+    message: 'must be a valid URI',
+  },
+  /**
+   * Can be a relative path or absolute URI
+   */
+  'uri-reference': {
+    pattern: /^(\.{0,2}\/[^\s]*|[a-z][a-z0-9+\-.]*:[^\s]*|#[^\s]*)$/i,
+    message: 'must be a valid URI reference',
+  },
+} satisfies Record<string, StringFormat>;
+
+export type DpdsFormatName = keyof typeof DPDS_FORMATS;
+
+/**
+ * Patterns by format name, as expected by ajv `addFormat` and the rjsf
+ * validator `customFormats` option
+ */
+export const DPDS_FORMAT_PATTERNS: Record<DpdsFormatName, RegExp> =
+  Object.fromEntries(
+    Object.entries(DPDS_FORMATS).map(([name, { pattern }]) => [name, pattern]),
+  ) as Record<DpdsFormatName, RegExp>;
+
+/**
+ * Arguments of a zod `refine` checking a string format
+ * @param format Format name
+ * @param property Property name, used in the message
+ * @example z.string().refine(...formatRefinement('version', 'version'))
+ */
+export function formatRefinement(
+  format: DpdsFormatName,
+  property: string,
+): [(value: string) => boolean, { message: string }] {
+  const { pattern, message } = DPDS_FORMATS[format];
+  return [
+    (value) => pattern.test(value),
+    { message: `${property} ${message}` },
+  ];
+}
@@ -0,0 +1,65 @@
+/**
+ * Descriptors shared by the tests of the library modules
+ */
+
+import type { DataProductDescriptor } from '../../types';
+
+const PRODUCT_FQN = 'urn:dpds:it.quantyca:dataproducts:tripExecution:1';
+
+/**
+ * A valid descriptor with an input port and an output port
+ * Each call returns a new copy, which tests are free to change.
+ */
+export function validDescriptor(): DataProductDescriptor {
+  return {
+    dataProductDescriptor: '1.0.0',
+    info: {
+      fullyQualifiedName: PRODUCT_FQN,
+      name: 'tripExecution',
+      version: '1.2.0',
+      domain: 'transport',
+      owner: { id: 'john.doe@company.com', name: 'John Doe' },
+    },
+    interfaceComponents: {
+      inputPorts: [
+        {
+          fullyQualifiedName: `${PRODUCT_FQN}:inputports:tmsTripCDC`,
+          name: 'tmsTripCDC',
+          version: '1.0.0',
+        },
+      ],
+      outputPorts: [
+        {
+          fullyQualifiedName: `${PRODUCT_FQN}:outputports:tripDetails`,
+          name: 'tripDetails',
+          version: '1.0.0',
+          description: 'Details of the executed trips',
+        },
+      ],
+    },
+  };
+}
+
+/**
+ * A descriptor of another product whose input port consumes an output port
+ * @param fqn Fully qualified name of the consumed output port
+ */
+export function consumerDescriptor(fqn: string): DataProductDescriptor {
+  const productFqn = 'urn:dpds:it.quantyca:dataproducts:billing:1';
+  return {
+    dataProductDescriptor: '1.0.0',
+    info: {
+      fullyQualifiedName: productFqn,
+      name: 'billing',
+      version: '1.0.0',
+      domain: 'finance',
+      owner: { id: 'jane.doe@company.com' },
+    },
+    interfaceComponents: {
+      inputPorts: [
+        { fullyQualifiedName: fqn, name: 'trips', version: '1.0.0' },
+      ],
+      outputPorts: [],
+    },
+  };
+}
@@ -0,0 +1,114 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { validDescriptor } from './__fixtures__/descriptors';
+import { bundleDescriptor, splitDescriptor, SplitFile } from './bundle';
+import { stringifyDocument } from './parse';
+
+/**
+ * The fixture, with an API definition and an internal component
+ */
+function descriptorWithParts() {
+  const descriptor = validDescriptor();
+  descriptor.interfaceComponents.outputPorts[0] = {
+    ...descriptor.interfaceComponents.outputPorts[0],
+    promises: {
+      api: {
+        name: 'tripDetailsApi',
+        version: '1.0.0',
+        specification: 'asyncapi',
+        definition: { asyncapi: '2.5.0', channels: { trips: {} } },
+      },
+    },
+  };
+  return {
+    ...descriptor,
+    internalComponents: {
+      applicationComponents: [{ name: 'tripLoader', version: '1.0.0' }],
+    },
+  };
+}
+
+let baseDir: string;
+
+beforeEach(() => {
+  baseDir = fs.mkdtempSync(path.join(os.tmpdir(), 'dpds-bundle-'));
+});
+
+afterEach(() => {
+  fs.rmSync(baseDir, { recursive: true, force: true });
+});
+
+const writeFiles = (files: SplitFile[], format: 'json' | 'yaml') =>
+  files.forEach((file) => {
+    const filePath = path.join(baseDir, file.path);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, stringifyDocument(file.data, format));
+  });
+
+describe('splitDescriptor', () => {
+  it('moves ports, components and definitions to their own files', () => {
+    const { data, files } = splitDescriptor(descriptorWithParts(), 'json');
+
+    expect(files.map((file) => file.path)).toEqual([
+      'inputPorts/tmsTripCDC.json',
+      'definitions/tripDetails-api.json',
+      'outputPorts/tripDetails.json',
+      'applicationComponents/tripLoader.json',
+    ]);
+    expect(data).toMatchObject({
+      interfaceComponents: {
+        outputPorts: [{ $ref: './outputPorts/tripDetails.json' }],
+      },
+    });
+    expect(files[2].data).toMatchObject({
+      promises: {
+        api: { definition: { $ref: '../definitions/tripDetails-api.json' } },
+      },
+    });
+  });
+
+  it('leaves references in place', () => {
+    const descriptor = validDescriptor();
+    descriptor.interfaceComponents.outputPorts = [
+      { $ref: '#/components/outputPorts/tripDetails' },
+    ];
+
+    const { files } = splitDescriptor(descriptor, 'json');
+
+    expect(files.map((file) => file.path)).toEqual([
+      'inputPorts/tmsTripCDC.json',
+    ]);
+  });
+});
+
+describe('bundleDescriptor', () => {
+  it.each(['json', 'yaml'] as const)(
+    'gives back the split descriptor (%s)',
+    (format) => {
+      const descriptor = descriptorWithParts();
+      const { data, files } = splitDescriptor(descriptor, format);
+      writeFiles(files, format);
+
+      expect(bundleDescriptor(data, { baseDir })).toEqual({
+        data: descriptor,
+        errors: [],
+      });
+    },
+  );
+
+  it('reports references to missing files and keeps them', () => {
+    const descriptor = validDescriptor();
+    descriptor.interfaceComponents.outputPorts = [
+      { $ref: './outputPorts/missing.json' },
+    ];
+
+    const { data, errors } = bundleDescriptor(descriptor, { baseDir });
+
+    expect(errors).toMatchObject([
+      { path: ['interfaceComponents', 'outputPorts', 0, '$ref'] },
+    ]);
+    expect(data).toEqual(descriptor);
+  });
+});
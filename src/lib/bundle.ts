@@ -0,0 +1,401 @@
+/**
+ * Multi-file Descriptors
+ *
+ * Bundles descriptors spread over several files into a single self-contained
+ * document, and splits a descriptor into files the other way round: ports,
+ * internal components and the definitions of standard definitions are
+ * written to their own files and replaced with references.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { detectFormat, DocumentFormat, parseDocument } from './parse';
+import { getAtPointer, parseJsonPointer } from './references';
+import {
+  COMPONENT_KINDS,
+  isObject,
+  Json,
+  PORT_KINDS,
+  STANDARD_DEFINITIONS,
+} from './descriptor';
+
+// ===============================================================
+// Types
+// ===============================================================
+
+type Path = (string | number)[];
+
+/**
+ * A reference that couldn't be inlined
+ */
+export interface BundleError {
+  /** Path of the reference in the bundled document */
+  path: Path;
+  message: string;
+}
+
+export interface BundleResult {
+  /** The bundled document; references in error are left as they are */
+  data: unknown;
+  errors: BundleError[];
+}
+
+/**
+ * A file extracted from a descriptor
+ */
+export interface SplitFile {
+  /** Path relative to the descriptor, with forward slashes */
+  path: string;
+  data: unknown;
+}
+
+export interface SplitResult {
+  /** The descriptor, referencing the extracted files */
+  data: unknown;
+  files: SplitFile[];
+}
+
+const DEFINITIONS_DIRECTORY = 'definitions';
+
+// ===============================================================
+// Helpers
+// ===============================================================
+
+const isRemote = (target: string) => /^[a-z][a-z0-9+.-]*:/i.test(target);
+
+const isDataFile = (file: string) => /\.(json|ya?ml)$/i.test(file);
+
+/**
+ * Split a reference into its file part and its JSON pointer
+ */
+function splitReference(ref: string): { target: string; pointer: string } {
+  const hashIndex = ref.indexOf('#');
+  return hashIndex === -1
+    ? { target: ref, pointer: '' }
+    : { target: ref.slice(0, hashIndex), pointer: ref.slice(hashIndex + 1) };
+}
+
+// ===============================================================
+// Bundle
+// ===============================================================
+
+/**
+ * Inline the local file references of a descriptor
+ *
+ * `$ref` values pointing to files are replaced with the referenced object,
+ * whose own references are inlined in turn, relative to its file. Pointers
+ * into the descriptor itself (e.g. `#/components/outputPorts/tripDetails`)
+ * and remote references are kept. The definitions of standard definitions
+ * referenced with `$ref` or `$href` are inlined as they are: parsed for
+ * JSON and YAML files, as text otherwise.
+ *
+ * @param descriptor The descriptor data
+ * @param options Directory the descriptor's file references are relative to
+ * @returns The bundled document and the references that couldn't be inlined
+ */
+export function bundleDescriptor(
+  descriptor: unknown,
+  options: { baseDir: string },
+): BundleResult {
+  const documents = new Map<string, unknown>();
+  const errors: BundleError[] = [];
+
+  const load = (file: string, parse: boolean): unknown => {
+    const key = `${parse}:${file}`;
+    if (!documents.has(key)) {
+      const text = fs.readFileSync(file, 'utf-8');
+      if (parse) {
+        const parsed = parseDocument(text, detectFormat(file));
+        if (!parsed.success) throw new Error(parsed.error);
+        documents.set(key, parsed.data);
+      } else {
+        documents.set(key, text);
+      }
+    }
+    return documents.get(key);
+  };
+
+  // Relative references are resolved against the file holding them
+  const fileOf = (target: string, file: string | undefined) =>
+    target
+      ? path.resolve(file ? path.dirname(file) : options.baseDir, target)
+      : file!;
+
+  /**
+   * Value behind a file reference, or undefined (with an error) when it
+   * can't be loaded
+   * @param file File holding the reference, undefined for the descriptor
+   * @param parse Whether the file is parsed as JSON or YAML
+   */
+  const resolve = (
+    ref: string,
+    file: string | undefined,
+    refPath: Path,
+    parse: boolean,
+  ): { file: string; value: unknown } | undefined => {
+    const { target, pointer } = splitReference(ref);
+    const targetFile = fileOf(target, file);
+
+    try {
+      const document = load(targetFile, parse);
+      const value = parse
+        ? getAtPointer(document, parseJsonPointer(pointer))
+        : document;
+      if (value === undefined) {
+        errors.push({
+          path: refPath,
+          message: `Unresolved reference "${ref}"`,
+        });
+        return undefined;
+      }
+      return { file: targetFile, value };
+    } catch (error) {
+      errors.push({
+        path: refPath,
+        message: `Cannot load "${target}": ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      });
+      return undefined;
+    }
+  };
+
+  // Definitions belong to their own specification: only the reference to
+  // the definition itself is inlined, not the references it contains
+  const inlineDefinition = (
+    value: unknown,
+    file: string | undefined,
+    valuePath: Path,
+  ): unknown => {
+    if (!isObject(value)) return value;
+    const key = typeof value.$ref === 'string' ? '$ref' : '$href';
+    const ref = value[key];
+    if (typeof ref !== 'string' || isRemote(ref)) return value;
+    const { target } = splitReference(ref);
+    if (!target && !file) return value;
+
+    const resolved = resolve(
+      ref,
+      file,
+      [...valuePath, key],
+      !target || isDataFile(target),
+    );
+    return resolved ? resolved.value : value;
+  };
+
+  const inline = (
+    value: unknown,
+    file: string | undefined,
+    valuePath: Path,
+    stack: string[],
+  ): unknown => {
+    if (Array.isArray(value)) {
+      return value.map((item, index) =>
+        inline(item, file, [...valuePath, index], stack),
+      );
+    }
+    if (!isObject(value)) return value;
+
+    const ref = value.$ref;
+    if (typeof ref === 'string') {
+      const { target, pointer } = splitReference(ref);
+      // Pointers into the descriptor stay valid in the bundle
+      if (isRemote(ref) || (!target && !file)) return value;
+
+      const refPath = [...valuePath, '$ref'];
+      const key = `${fileOf(target, file)}#${pointer}`;
+      if (stack.includes(key)) {
+        errors.push({
+          path: refPath,
+          message: `Circular reference "${ref}"`,
+        });
+        return value;
+      }
+
+      const resolved = resolve(ref, file, refPath, true);
+      return resolved
+        ? inline(resolved.value, resolved.file, valuePath, [...stack, key])
+        : value;
+    }
+
+    return Object.fromEntries(
+      Object.entries(value).map(([key, child]) => [
+        key,
+        key === 'definition'
+          ? inlineDefinition(child, file, [...valuePath, key])
+          : inline(child, file, [...valuePath, key], stack),
+      ]),
+    );
+  };
+
+  return { data: inline(descriptor, undefined, [], []), errors };
+}
+
+// ===============================================================
+// Split
+// ===============================================================
+
+/**
+ * Check whether a reference points to another local file
+ */
+const isFileReference = (ref: unknown): ref is string =>
+  typeof ref === 'string' &&
+  !isRemote(ref) &&
+  splitReference(ref).target !== '' &&
+  !path.isAbsolute(ref);
+
+/**
+ * Visit the references of a part of the descriptor
+ * The content of definitions isn't visited, only their own reference.
+ * @param visit Called with each object holding a `$ref`, and with the
+ * reference key of definitions (`$ref` or `$href`)
+ */
+function visitReferences(
+  value: unknown,
+  visit: (holder: Json, key: '$ref' | '$href') => void,
+): void {
+  if (Array.isArray(value)) {
+    value.forEach((item) => visitReferences(item, visit));
+  } else if (isObject(value)) {
+    if (typeof value.$ref === 'string') {
+      visit(value, '$ref');
+      return;
+    }
+    Object.entries(value).forEach(([key, child]) => {
+      if (key !== 'definition') {
+        visitReferences(child, visit);
+      } else if (isObject(child)) {
+        if (typeof child.$ref === 'string') visit(child, '$ref');
+        else if (typeof child.$href === 'string') visit(child, '$href');
+      }
+    });
+  }
+}
+
+/**
+ * Whether a part can be moved to another file: pointers into the
+ * descriptor (e.g. `#/components/...`) would point into the new file
+ */
+function isMovable(value: unknown): boolean {
+  let movable = true;
+  visitReferences(value, (holder, key) => {
+    if (key === '$ref' && String(holder.$ref).startsWith('#')) movable = false;
+  });
+  return movable;
+}
+
+/**
+ * Rewrite the relative file references of a part moved one directory down
+ */
+function moveDown(value: unknown): void {
+  visitReferences(value, (holder, key) => {
+    const ref = holder[key];
+    if (isFileReference(ref)) holder[key] = path.posix.join('..', ref);
+  });
+}
+
+/**
+ * Whether a definition refers to other files, which would need its own
+ * specification's rules to be moved
+ */
+function hasFileReferences(value: unknown): boolean {
+  if (Array.isArray(value)) return value.some(hasFileReferences);
+  if (!isObject(value)) return false;
+  return Object.entries(value).some(([key, child]) =>
+    key === '$ref' ? isFileReference(child) : hasFileReferences(child),
+  );
+}
+
+/**
+ * Extract the inline parts of a descriptor into files
+ *
+ * - ports: `{kind}/{name}.{ext}` (e.g. `outputPorts/tripDetails.json`)
+ * - internal components: `{kind}/{name}.{ext}`
+ * - object definitions of the standard definitions of ports:
+ *   `definitions/{port}-{name}.{ext}` (e.g. `definitions/tripDetails-api.json`)
+ *
+ * Parts that are already references are left as they are, as are parts
+ * holding pointers into the descriptor and definitions referring to other
+ * files. Relative references of the moved parts are rewritten, so that
+ * bundling the result gives back the bundled original descriptor.
+ *
+ * @param descriptor The descriptor data
+ * @param format Format of the extracted files
+ * @returns The descriptor referencing the files, and the files to write
+ */
+export function splitDescriptor(
+  descriptor: unknown,
+  format: DocumentFormat,
+): SplitResult {
+  if (!isObject(descriptor)) return { data: descriptor, files: [] };
+
+  const data = structuredClone(descriptor);
+  const files: SplitFile[] = [];
+  const extension = format === 'yaml' ? 'yaml' : 'json';
+
+  // File paths are made unique with a numeric suffix
+  const filePath = (directory: string, name: string) => {
+    const base = /^[\w.-]+$/.test(name) ? name : 'part';
+    let candidate = `${directory}/${base}.${extension}`;
+    for (
+      let index = 2;
+      files.some((file) => file.path === candidate);
+      index++
+    ) {
+      candidate = `${directory}/${base}-${index}.${extension}`;
+    }
+    return candidate;
+  };
+
+  const extractDefinitions = (port: Json, portName: string) =>
+    Object.entries(STANDARD_DEFINITIONS).forEach(([section, names]) => {
+      const content = port[section];
+      if (!isObject(content) || typeof content.$ref === 'string') return;
+
+      names.forEach((name) => {
+        const standard = content[name];
+        if (!isObject(standard) || !isObject(standard.definition)) return;
+        const { definition } = standard;
+        if (typeof definition.$ref === 'string') return;
+        if (typeof definition.$href === 'string') return;
+        if (hasFileReferences(definition)) return;
+
+        const file = filePath(DEFINITIONS_DIRECTORY, `${portName}-${name}`);
+        files.push({ path: file, data: definition });
+        // Relative to the port file, one directory down
+        standard.definition = { $ref: `../${file}` };
+      });
+    });
+
+  const extractList = (
+    parent: unknown,
+    kinds: readonly string[],
+    withDefinitions: boolean,
+  ) => {
+    if (!isObject(parent)) return;
+
+    kinds.forEach((kind) => {
+      const items = parent[kind];
+      if (!Array.isArray(items)) return;
+
+      parent[kind] = items.map((item, index) => {
+        if (!isObject(item) || typeof item.$ref === 'string') return item;
+        if (!isMovable(item)) return item;
+
+        const name =
+          typeof item.name === 'string' ? item.name : `${kind}-${index}`;
+        moveDown(item);
+        if (withDefinitions) extractDefinitions(item, name);
+
+        const file = filePath(kind, name);
+        files.push({ path: file, data: item });
+        return { $ref: `./${file}` };
+      });
+    });
+  };
+
+  extractList(data.interfaceComponents, PORT_KINDS, true);
+  extractList(data.internalComponents, COMPONENT_KINDS, false);
+
+  return { data, files };
+}
@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+import {
+  componentOf,
+  componentPointer,
+  findComponentRename,
+  hasComponent,
+  listComponents,
+  renameComponentReferences,
+} from './componentRefs';
+
+const port = { name: 'tripDetails', version: '1.0.0' };
+
+const data = {
+  interfaceComponents: {
+    outputPorts: [
+      { $ref: '#/components/outputPorts/tripDetails' },
+      { $ref: '#/components/outputPorts/tripDetails/promises' },
+      { $ref: '#/components/outputPorts/tripDetailsV2' },
+    ],
+  },
+  components: {
+    outputPorts: { tripDetails: port, 'trips/v1': port },
+    applicationComponents: { tripLoader: { name: 'tripLoader' } },
+  },
+};
+
+describe('component pointers', () => {
+  it('escapes keys and finds the component a reference points into', () => {
+    expect(componentPointer('outputPorts', 'trips/v1')).toBe(
+      '#/components/outputPorts/trips~1v1',
+    );
+    expect(componentOf('#/components/outputPorts/trips~1v1/promises')).toEqual({
+      kind: 'outputPorts',
+      key: 'trips/v1',
+    });
+    expect(componentOf('#/info')).toBeUndefined();
+  });
+
+  it('lists and finds components', () => {
+    expect(listComponents(data).map(({ pointer }) => pointer)).toEqual([
+      '#/components/outputPorts/tripDetails',
+      '#/components/outputPorts/trips~1v1',
+      '#/components/applicationComponents/tripLoader',
+    ]);
+    expect(listComponents(data, 'inputPorts')).toEqual([]);
+    expect(hasComponent(data, '#/components/outputPorts/trips~1v1')).toBe(true);
+    expect(hasComponent(data, '#/components/outputPorts/tripStats')).toBe(
+      false,
+    );
+  });
+});
+
+describe('findComponentRename', () => {
+  const renamed = (outputPorts: Record<string, unknown>) => ({
+    ...data,
+    components: { ...data.components, outputPorts },
+  });
+
+  it('finds a key replaced by another one holding the same value', () => {
+    expect(
+      findComponentRename(
+        data,
+        renamed({ tripDetailsV1: { ...port }, 'trips/v1': port }),
+      ),
+    ).toEqual({
+      kind: 'outputPorts',
+      from: 'tripDetails',
+      to: 'tripDetailsV1',
+    });
+  });
+
+  it('ignores added, removed and changed components', () => {
+    expect(
+      findComponentRename(data, renamed({ tripDetails: port })),
+    ).toBeUndefined();
+    expect(
+      findComponentRename(
+        data,
+        renamed({ tripStats: { ...port, version: '2.0.0' }, 'trips/v1': port }),
+      ),
+    ).toBeUndefined();
+    expect(findComponentRename(data, { ...data })).toBeUndefined();
+  });
+});
+
+describe('renameComponentReferences', () => {
+  it('updates references to the component and into it', () => {
+    const { data: updated, count } = renameComponentReferences(data, {
+      kind: 'outputPorts',
+      from: 'tripDetails',
+      to: 'tripDetailsV1',
+    });
+
+    expect(count).toBe(2);
+    expect(updated.interfaceComponents.outputPorts).toEqual([
+      { $ref: '#/components/outputPorts/tripDetailsV1' },
+      { $ref: '#/components/outputPorts/tripDetailsV1/promises' },
+      { $ref: '#/components/outputPorts/tripDetailsV2' },
+    ]);
+    expect(data.interfaceComponents.outputPorts[0].$ref).toBe(
+      '#/components/outputPorts/tripDetails',
+    );
+  });
+
+  it('leaves the content of definitions untouched, but not references to them', () => {
+    const definitions = {
+      api: {
+        definition: {
+          components: { $ref: '#/components/outputPorts/tripDetails' },
+        },
+      },
+      slo: { definition: { $ref: '#/components/outputPorts/tripDetails' } },
+    };
+
+    const { data: updated, count } = renameComponentReferences(definitions, {
+      kind: 'outputPorts',
+      from: 'tripDetails',
+      to: 'tripDetailsV1',
+    });
+
+    expect(count).toBe(1);
+    expect(updated.api.definition).toBe(definitions.api.definition);
+    expect(updated.slo.definition.$ref).toBe(
+      '#/components/outputPorts/tripDetailsV1',
+    );
+  });
+
+  it('returns the same data when no reference changed', () => {
+    const { data: updated, count } = renameComponentReferences(data, {
+      kind: 'inputPorts',
+      from: 'tripDetails',
+      to: 'tripDetailsV1',
+    });
+
+    expect(count).toBe(0);
+    expect(updated).toBe(data);
+  });
+});
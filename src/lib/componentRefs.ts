@@ -0,0 +1,184 @@
+/**
+ * Component References
+ *
+ * Lists the reusable objects of a descriptor's `components` section that
+ * references can point to (`#/components/{kind}/{key}`), and keeps those
+ * references in line when a component is renamed.
+ * Used by the web app, so it must not depend on Node APIs.
+ */
+
+import { COMPONENT_SECTIONS, isObject, Json } from './descriptor';
+
+// ===============================================================
+// Types
+// ===============================================================
+
+/**
+ * An entry of the `components` section
+ */
+export interface ComponentEntry {
+  /** Section of the entry, e.g. `outputPorts` */
+  kind: string;
+  key: string;
+  /** Value of a `$ref` pointing to the entry */
+  pointer: string;
+}
+
+/**
+ * A component whose key changed between two versions of a descriptor
+ */
+export interface ComponentRename {
+  kind: string;
+  from: string;
+  to: string;
+}
+
+// ===============================================================
+// Helpers
+// ===============================================================
+
+const escapeSegment = (segment: string) =>
+  segment.replace(/~/g, '~0').replace(/\//g, '~1');
+
+const unescapeSegment = (segment: string) =>
+  segment.replace(/~1/g, '/').replace(/~0/g, '~');
+
+const sectionOf = (data: unknown, kind: string): Json | undefined => {
+  const section = isObject(data) && data.components;
+  return isObject(section) && isObject(section[kind])
+    ? (section[kind] as Json)
+    : undefined;
+};
+
+/**
+ * Value of a `$ref` pointing to a component
+ * @example componentPointer('outputPorts', 'tripDetails') // "#/components/outputPorts/tripDetails"
+ */
+export function componentPointer(kind: string, key: string): string {
+  return `#/components/${escapeSegment(kind)}/${escapeSegment(key)}`;
+}
+
+/**
+ * Component a `$ref` points to, or into
+ * @returns undefined when the reference doesn't point into `components`
+ */
+export function componentOf(
+  ref: string,
+): Omit<ComponentEntry, 'pointer'> | undefined {
+  const match = /^#\/components\/([^/]+)\/([^/]+)(?:\/|$)/.exec(ref);
+  if (!match) return undefined;
+  return { kind: unescapeSegment(match[1]), key: unescapeSegment(match[2]) };
+}
+
+// ===============================================================
+// Components
+// ===============================================================
+
+/**
+ * Entries of the `components` section of a descriptor
+ * @param data The descriptor
+ * @param kind Only list the entries of this section
+ */
+export function listComponents(data: unknown, kind?: string): ComponentEntry[] {
+  return (kind ? [kind] : COMPONENT_SECTIONS).flatMap((section) =>
+    Object.keys(sectionOf(data, section) ?? {}).map((key) => ({
+      kind: section,
+      key,
+      pointer: componentPointer(section, key),
+    })),
+  );
+}
+
+/**
+ * Whether a `$ref` points to an existing component
+ */
+export function hasComponent(data: unknown, ref: string): boolean {
+  const component = componentOf(ref);
+  const section = component && sectionOf(data, component.kind);
+  return (
+    !!section && Object.prototype.hasOwnProperty.call(section, component.key)
+  );
+}
+
+/**
+ * Find a component renamed between two versions of a descriptor: a single
+ * key replaced by another one holding the same value, in a single section
+ * Sections that are the same object in both versions are skipped, and
+ * values are only compared when the keys of a section changed.
+ * @returns undefined when no component was renamed
+ */
+export function findComponentRename(
+  before: unknown,
+  after: unknown,
+): ComponentRename | undefined {
+  for (const kind of COMPONENT_SECTIONS) {
+    const previousSection = sectionOf(before, kind);
+    const nextSection = sectionOf(after, kind);
+    if (previousSection === nextSection) continue;
+
+    const previous = previousSection ?? {};
+    const next = nextSection ?? {};
+    const removed = Object.keys(previous).filter((key) => !(key in next));
+    const added = Object.keys(next).filter((key) => !(key in previous));
+
+    if (removed.length === 0 && added.length === 0) continue;
+    if (
+      removed.length === 1 &&
+      added.length === 1 &&
+      JSON.stringify(previous[removed[0]]) === JSON.stringify(next[added[0]])
+    ) {
+      return { kind, from: removed[0], to: added[0] };
+    }
+    return undefined;
+  }
+  return undefined;
+}
+
+// ===============================================================
+// References
+// ===============================================================
+
+/**
+ * Point the references to a component, or into it, to another component
+ *
+ * The content of standard definitions (`definition`) is left untouched,
+ * since its references belong to the definition's own specification.
+ *
+ * @param data The descriptor, left untouched
+ * @param rename The component's section and its old and new keys
+ * @returns The updated copy, and the number of references changed
+ */
+export function renameComponentReferences<T>(
+  data: T,
+  { kind, from, to }: ComponentRename,
+): { data: T; count: number } {
+  const source = componentPointer(kind, from);
+  const target = componentPointer(kind, to);
+  let count = 0;
+
+  const update = (node: unknown): unknown => {
+    if (Array.isArray(node)) return node.map(update);
+    if (!isObject(node)) return node;
+
+    const { $ref } = node;
+    if (
+      typeof $ref === 'string' &&
+      ($ref === source || $ref.startsWith(`${source}/`))
+    ) {
+      count++;
+      return { ...node, $ref: target + $ref.slice(source.length) };
+    }
+
+    return Object.fromEntries(
+      Object.entries(node).map(([key, value]) => [
+        key,
+        key === 'definition' && !(isObject(value) && '$ref' in value)
+          ? value
+          : update(value),
+      ]),
+    );
+  };
+
+  const updated = update(data) as T;
+  return { data: count > 0 ? updated : data, count };
+}
@@ -0,0 +1,155 @@
+import { z } from 'zod';
+import { describe, expect, it } from 'vitest';
+import type { DataProductDescriptor, StandardDefinition } from '../types';
+import { validDescriptor } from './__fixtures__/descriptors';
+import {
+  checkStandardDefinitions,
+  createZodDefinitionValidator,
+  getDefinitionValidator,
+  registerDefinitionValidator,
+} from './definitions';
+
+/**
+ * The fixture, with an API definition on its output port
+ */
+function descriptorWithApi(
+  specification: string,
+  definition: StandardDefinition['definition'],
+  specificationVersion?: string,
+): DataProductDescriptor {
+  const descriptor = validDescriptor();
+  descriptor.interfaceComponents.outputPorts[0] = {
+    ...descriptor.interfaceComponents.outputPorts[0],
+    promises: {
+      api: {
+        name: 'tripDetailsApi',
+        version: '1.0.0',
+        specification,
+        specificationVersion,
+        definition,
+      },
+    },
+  };
+  return descriptor;
+}
+
+const DEFINITION_PATH = [
+  'interfaceComponents',
+  'outputPorts',
+  0,
+  'promises',
+  'api',
+  'definition',
+];
+
+const asyncApi = {
+  asyncapi: '2.5.0',
+  info: { title: 'Trip details', version: '1.0.0' },
+  channels: { trips: {} },
+};
+
+describe('checkStandardDefinitions', () => {
+  it('accepts definitions matching their specification', () => {
+    expect(
+      checkStandardDefinitions(descriptorWithApi('asyncapi', asyncApi, '2.5')),
+    ).toEqual([]);
+  });
+
+  it('reports invalid definitions under the path of the definition', () => {
+    const issues = checkStandardDefinitions(
+      descriptorWithApi('AsyncAPI', { ...asyncApi, channels: undefined }),
+    );
+
+    expect(issues).toEqual([
+      {
+        severity: 'error',
+        rule: 'definition-content',
+        path: [...DEFINITION_PATH, 'channels'],
+        message: 'AsyncAPI definition: AsyncAPI 2.x documents require channels',
+      },
+    ]);
+  });
+
+  it('warns about definitions of another specification version', () => {
+    const issues = checkStandardDefinitions(
+      descriptorWithApi('asyncapi', asyncApi, '3.0'),
+    );
+
+    expect(issues).toEqual([
+      {
+        severity: 'warning',
+        rule: 'definition-content',
+        path: [...DEFINITION_PATH, 'asyncapi'],
+        message:
+          "asyncapi definition: asyncapi version 2.5.0 doesn't match specificationVersion 3.0",
+      },
+    ]);
+  });
+
+  it('parses inline text and reports text that cannot be parsed', () => {
+    const yaml =
+      'openapi: 3.1.0\ninfo:\n  title: Trips\n  version: 1.0.0\npaths: {}\n';
+
+    expect(
+      checkStandardDefinitions(descriptorWithApi('openapi', yaml)),
+    ).toEqual([]);
+    expect(
+      checkStandardDefinitions(descriptorWithApi('openapi', 'openapi: [3.1')),
+    ).toMatchObject([
+      {
+        rule: 'definition-content',
+        path: DEFINITION_PATH,
+        message: expect.stringContaining('Cannot parse the inline definition'),
+      },
+    ]);
+  });
+
+  it('follows references to definitions and skips unresolved ones', () => {
+    const descriptor = {
+      ...descriptorWithApi('asyncapi', { $ref: '#/x-definitions/trips' }),
+      'x-definitions': { trips: { asyncapi: '2.5.0' } },
+    };
+
+    expect(checkStandardDefinitions(descriptor)).toMatchObject([
+      { path: [...DEFINITION_PATH, 'info'] },
+    ]);
+    expect(
+      checkStandardDefinitions(
+        descriptorWithApi('asyncapi', { $ref: '#/x-definitions/missing' }),
+      ),
+    ).toEqual([]);
+  });
+
+  it('skips specifications without a validator', () => {
+    expect(
+      checkStandardDefinitions(descriptorWithApi('graphql', 'type Trip {')),
+    ).toEqual([]);
+  });
+});
+
+describe('registerDefinitionValidator', () => {
+  it('adds validators, matched case-insensitively', () => {
+    registerDefinitionValidator(
+      'GraphQL',
+      createZodDefinitionValidator(z.object({ schema: z.string() })),
+    );
+
+    expect(getDefinitionValidator('graphql')).toBeDefined();
+    expect(
+      checkStandardDefinitions(descriptorWithApi('graphql', { types: [] })),
+    ).toMatchObject([
+      {
+        path: [...DEFINITION_PATH, 'schema'],
+        message: 'graphql definition: Required',
+      },
+    ]);
+  });
+
+  it('replaces built-in validators', () => {
+    registerDefinitionValidator('openapi', () => []);
+
+    expect(
+      checkStandardDefinitions(descriptorWithApi('openapi', { paths: {} })),
+    ).toEqual([]);
+  });
+});
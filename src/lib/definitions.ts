@@ -0,0 +1,334 @@
+/**
+ * Standard Definition Content
+ *
+ * Validates the `definition` of the standard definitions of ports (API,
+ * SLO, terms and conditions...) against the structure of their
+ * `specification`. Definitions can be inline objects, inline JSON or YAML
+ * text, or references to other files. Validators for OpenAPI, AsyncAPI and
+ * Datastore API are built in; others are added with
+ * `registerDefinitionValidator`.
+ */
+
+import { z } from 'zod';
+import type { DataProductDescriptor, Entity, Port } from '../types';
+import { parseDocument } from './parse';
+import {
+  createReferenceResolver,
+  isReference,
+  ReferenceResolverOptions,
+  resolveEntity,
+} from './references';
+import type { IssueSeverity, VerificationIssue } from './verify';
+import { PORT_KINDS, STANDARD_DEFINITIONS } from './descriptor';
+
+// ===============================================================
+// Types
+// ===============================================================
+
+/**
+ * An issue found in a definition, with a path relative to its root
+ */
+export interface DefinitionIssue {
+  severity?: IssueSeverity;
+  path: (string | number)[];
+  message: string;
+}
+
+/**
+ * Information about the standard definition holding a definition
+ */
+export interface DefinitionContext {
+  specification: string;
+  specificationVersion?: string;
+}
+
+/**
+ * Check the content of a definition
+ * @param definition The parsed definition
+ * @returns Issues found, errors unless stated otherwise
+ */
+export type DefinitionValidator = (
+  definition: unknown,
+  context: DefinitionContext,
+) => DefinitionIssue[];
+
+// ===============================================================
+// Validators
+// ===============================================================
+
+const infoSchema = z
+  .object({ title: z.string(), version: z.string() })
+  .passthrough();
+
+/**
+ * Create a validator checking definitions with a zod schema
+ *
+ * When the standard definition declares a `specificationVersion`, the
+ * version held by the definition is expected to match it, or to be a patch
+ * of it.
+ *
+ * @param schema Structure of the definition
+ * @param versionField Field of the definition holding its version
+ * @example createZodDefinitionValidator(z.object({ rules: z.array(z.string()) }))
+ */
+export function createZodDefinitionValidator(
+  schema: z.ZodTypeAny,
+  versionField?: string,
+): DefinitionValidator {
+  return (definition, { specification, specificationVersion }) => {
+    const result = schema.safeParse(definition);
+    if (!result.success) {
+      return result.error.issues.map((issue) => ({
+        path: issue.path,
+        message: issue.message,
+      }));
+    }
+
+    const version = versionField
+      ? (definition as Record<string, unknown>)[versionField]
+      : undefined;
+    // `3.0` matches `3.0.3`
+    if (
+      specificationVersion &&
+      typeof version === 'string' &&
+      version !== specificationVersion &&
+      !version.startsWith(`${specificationVersion}.`)
+    ) {
+      return [
+        {
+          severity: 'warning',
+          path: [versionField!],
+          message: `${specification} version ${version} doesn't match specificationVersion ${specificationVersion}`,
+        },
+      ];
+    }
+    return [];
+  };
+}
+
+/**
+ * OpenAPI 3.x documents
+ * @see https://spec.openapis.org/oas/v3.1.0#openapi-object
+ */
+const openApiSchema = z
+  .object({
+    openapi: z
+      .string()
+      .regex(/^3\.\d+\.\d+/, 'must be an OpenAPI 3.x version (e.g. 3.0.3)'),
+    info: infoSchema,
+    paths: z.record(z.record(z.unknown())).optional(),
+    components: z.record(z.unknown()).optional(),
+    webhooks: z.record(z.unknown()).optional(),
+  })
+  .passthrough()
+  .superRefine((document, ctx) => {
+    // 3.0 requires paths, 3.1 any of paths, components and webhooks
+    const is30 = document.openapi.startsWith('3.0.');
+    if (is30 && !document.paths) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['paths'],
+        message: 'OpenAPI 3.0 documents require paths',
+      });
+    } else if (!document.paths && !document.components && !document.webhooks) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [],
+        message: 'OpenAPI documents require paths, components or webhooks',
+      });
+    }
+  });
+
+/**
+ * AsyncAPI 2.x and 3.x documents
+ * @see https://www.asyncapi.com/docs/reference/specification/v3.0.0
+ */
+const asyncApiSchema = z
+  .object({
+    asyncapi: z
+      .string()
+      .regex(/^[23]\.\d+\.\d+/, 'must be an AsyncAPI 2.x or 3.x version'),
+    info: infoSchema,
+    channels: z.record(z.record(z.unknown())).optional(),
+    operations: z.record(z.unknown()).optional(),
+  })
+  .passthrough()
+  .superRefine((document, ctx) => {
+    if (document.asyncapi.startsWith('2.') && !document.channels) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['channels'],
+        message: 'AsyncAPI 2.x documents require channels',
+      });
+    }
+  });
+
+/**
+ * Datastore API documents, describing the tables of a data store
+ * @see https://dpds.opendatamesh.org/resources/specifications/datastore-api/
+ */
+const datastoreApiSchema = z
+  .object({
+    datastoreapi: z.string(),
+    info: infoSchema,
+    services: z.record(z.record(z.unknown())).optional(),
+    schema: z
+      .object({
+        databaseName: z.string().optional(),
+        databaseSchemaName: z.string().optional(),
+        tables: z.array(
+          z
+            .object({
+              name: z.string(),
+              specification: z.string().optional(),
+              definition: z.unknown().optional(),
+            })
+            .passthrough(),
+        ),
+      })
+      .passthrough(),
+  })
+  .passthrough();
+
+const validators = new Map<string, DefinitionValidator>([
+  ['openapi', createZodDefinitionValidator(openApiSchema, 'openapi')],
+  ['asyncapi', createZodDefinitionValidator(asyncApiSchema, 'asyncapi')],
+  [
+    'datastoreapi',
+    createZodDefinitionValidator(datastoreApiSchema, 'datastoreapi'),
+  ],
+]);
+
+/**
+ * Register the validator of a specification
+ * Specifications are matched case-insensitively; registering a
+ * specification again replaces its validator, built-in ones included.
+ * @param specification Value of the `specification` field (e.g. `openapi`)
+ */
+export function registerDefinitionValidator(
+  specification: string,
+  validator: DefinitionValidator,
+): void {
+  validators.set(specification.toLowerCase(), validator);
+}
+
+/**
+ * Get the validator of a specification, if any
+ */
+export function getDefinitionValidator(
+  specification: string,
+): DefinitionValidator | undefined {
+  return validators.get(specification.toLowerCase());
+}
+
+// ===============================================================
+// Checks
+// ===============================================================
+
+/**
+ * Check the definitions of every standard definition of the ports whose
+ * specification has a validator
+ *
+ * Issues are reported under the port's path, followed by the path within
+ * the definition. Inline text that can't be parsed is an error; unresolved
+ * references are left to checkReferences.
+ *
+ * @param descriptor The descriptor data
+ * @param options Resolver options, the base directory locating files
+ * @returns Issues found in the definitions
+ */
+export function checkStandardDefinitions(
+  descriptor: DataProductDescriptor,
+  options: ReferenceResolverOptions = {},
+): VerificationIssue[] {
+  const resolve = createReferenceResolver(descriptor, options);
+  const issues: VerificationIssue[] = [];
+
+  PORT_KINDS.forEach((kind) =>
+    descriptor.interfaceComponents[kind]?.forEach((value, index) => {
+      const port = resolveEntity<Entity & Port>(value, resolve);
+      if (!port) return;
+
+      Object.entries(STANDARD_DEFINITIONS).forEach(([section, names]) => {
+        const sectionValue = port[section as keyof Port];
+        if (!sectionValue) return;
+        const content = resolveEntity(
+          sectionValue as Record<string, unknown>,
+          resolve,
+        );
+
+        names.forEach((name) => {
+          const standard = content?.[name] as
+            Record<string, unknown> | undefined;
+          if (typeof standard?.specification !== 'string') return;
+
+          const validator = getDefinitionValidator(standard.specification);
+          if (!validator) return;
+
+          const definitionPath = [
+            'interfaceComponents',
+            kind,
+            index,
+            section,
+            name,
+            'definition',
+          ];
+          const loaded = loadDefinition(standard.definition, resolve);
+          if (!loaded) return;
+
+          if ('error' in loaded) {
+            issues.push({
+              severity: 'error',
+              rule: 'definition-content',
+              path: definitionPath,
+              message: loaded.error,
+            });
+            return;
+          }
+
+          validator(loaded.definition, {
+            specification: standard.specification,
+            specificationVersion:
+              typeof standard.specificationVersion === 'string'
+                ? standard.specificationVersion
+                : undefined,
+          }).forEach((issue) =>
+            issues.push({
+              severity: issue.severity ?? 'error',
+              rule: 'definition-content',
+              path: [...definitionPath, ...issue.path],
+              message: `${standard.specification} definition: ${issue.message}`,
+            }),
+          );
+        });
+      });
+    }),
+  );
+
+  return issues;
+}
+
+/**
+ * Get the content of a definition: inline object, inline JSON or YAML text
+ * or reference
+ * @returns The definition, why it can't be parsed, or undefined for
+ * references that can't be resolved, which checkReferences reports
+ */
+function loadDefinition(
+  value: unknown,
+  resolve: ReturnType<typeof createReferenceResolver>,
+): { definition: unknown } | { error: string } | undefined {
+  if (typeof value === 'string') {
+    const parsed = parseDocument(value, 'yaml');
+    return parsed.success
+      ? { definition: parsed.data }
+      : { error: `Cannot parse the inline definition: ${parsed.error}` };
+  }
+
+  if (isReference(value)) {
+    const resolved = resolve(value.$ref);
+    return resolved.success ? { definition: resolved.value } : undefined;
+  }
+
+  return { definition: value };
+}
@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest';
+import type {
+  ApplicationComponentOrReference,
+  DataProductDescriptor,
+  InfrastructuralComponentOrReference,
+} from '../types';
+import { validDescriptor } from './__fixtures__/descriptors';
+import { checkComponentDependencies } from './dependencies';
+
+/**
+ * The fixture, with the given internal components
+ */
+function descriptorWith(
+  applicationComponents: ApplicationComponentOrReference[],
+  infrastructuralComponents: InfrastructuralComponentOrReference[] = [],
+): DataProductDescriptor {
+  return {
+    ...validDescriptor(),
+    internalComponents: { applicationComponents, infrastructuralComponents },
+  };
+}
+
+describe('checkComponentDependencies', () => {
+  it('accepts names of ports and components of the descriptor', () => {
+    const descriptor = descriptorWith(
+      [
+        {
+          name: 'tripLoader',
+          version: '1.0.0',
+          consumesFrom: ['tmsTripCDC'],
+          providesTo: [
+            'urn:dpds:it.quantyca:dataproducts:tripExecution:1:outputports:tripDetails',
+          ],
+          dependsOn: ['tripStore'],
+        },
+      ],
+      [{ name: 'tripStore', version: '1.0.0' }],
+    );
+
+    expect(checkComponentDependencies(descriptor)).toEqual([]);
+  });
+
+  it('reports unknown names', () => {
+    const descriptor = descriptorWith([
+      {
+        name: 'tripLoader',
+        version: '1.0.0',
+        consumesFrom: ['tmsTrips'],
+        dependsOn: ['tmsTripCDC'],
+      },
+    ]);
+
+    expect(checkComponentDependencies(descriptor)).toEqual([
+      {
+        severity: 'error',
+        rule: 'unknown-component-reference',
+        path: [
+          'internalComponents',
+          'applicationComponents',
+          0,
+          'consumesFrom',
+          0,
+        ],
+        message: '"tmsTrips" is not a port or component of this data product',
+      },
+      {
+        severity: 'error',
+        rule: 'unknown-component-reference',
+        path: [
+          'internalComponents',
+          'applicationComponents',
+          0,
+          'dependsOn',
+          0,
+        ],
+        message: '"tmsTripCDC" is not a component of this data product',
+      },
+    ]);
+  });
+
+  it('reports each dependency cycle once', () => {
+    const descriptor = descriptorWith(
+      [{ name: 'tripLoader', version: '1.0.0', dependsOn: ['tripStore'] }],
+      [
+        { name: 'tripStore', version: '1.0.0', dependsOn: ['tripQueue'] },
+        { name: 'tripQueue', version: '1.0.0', dependsOn: ['tripStore'] },
+      ],
+    );
+
+    expect(checkComponentDependencies(descriptor)).toEqual([
+      {
+        severity: 'error',
+        rule: 'dependency-cycle',
+        path: [
+          'internalComponents',
+          'infrastructuralComponents',
+          0,
+          'dependsOn',
+        ],
+        message: 'Dependency cycle: tripStore → tripQueue → tripStore',
+      },
+    ]);
+  });
+
+  it('warns about infrastructure no application needs', () => {
+    const descriptor = descriptorWith(
+      [{ name: 'tripLoader', version: '1.0.0', dependsOn: ['tripStore'] }],
+      [
+        { name: 'tripStore', version: '1.0.0', dependsOn: ['tripNetwork'] },
+        { name: 'tripNetwork', version: '1.0.0' },
+        { name: 'legacyStore', version: '1.0.0' },
+      ],
+    );
+
+    expect(checkComponentDependencies(descriptor)).toEqual([
+      {
+        severity: 'warning',
+        rule: 'unreachable-infrastructure',
+        path: ['internalComponents', 'infrastructuralComponents', 2],
+        message:
+          'Infrastructural component legacyStore is not a dependency of any application component',
+      },
+    ]);
+  });
+
+  it('does not check reachability without applications', () => {
+    const descriptor = descriptorWith(
+      [],
+      [{ name: 'tripStore', version: '1.0.0' }],
+    );
+
+    expect(checkComponentDependencies(descriptor)).toEqual([]);
+  });
+
+  it('follows references to components', () => {
+    const descriptor = {
+      ...descriptorWith(
+        [{ name: 'tripLoader', version: '1.0.0', dependsOn: ['tripStore'] }],
+        [{ $ref: '#/components/infrastructuralComponents/tripStore' }],
+      ),
+      components: {
+        infrastructuralComponents: {
+          tripStore: { name: 'tripStore', version: '1.0.0' },
+        },
+      },
+    };
+
+    expect(checkComponentDependencies(descriptor)).toEqual([]);
+  });
+});
@@ -0,0 +1,216 @@
+/**
+ * Internal Component Dependencies
+ *
+ * Checks the names listed in `consumesFrom`, `providesTo` and `dependsOn` of
+ * application and infrastructural components: every name must match a port
+ * or component of the same descriptor, dependencies must not form cycles and
+ * every infrastructural component should be needed by an application.
+ */
+
+import type {
+  ApplicationComponent,
+  DataProductDescriptor,
+  Entity,
+  InfrastructuralComponent,
+  Port,
+} from '../types';
+import {
+  createReferenceResolver,
+  ReferenceResolverOptions,
+  resolveEntity,
+} from './references';
+import type { VerificationIssue } from './verify';
+import { ComponentKind, COMPONENT_KINDS, PORT_KINDS } from './descriptor';
+
+// ===============================================================
+// Types
+// ===============================================================
+
+/**
+ * An internal component with its position in the descriptor
+ */
+interface ComponentNode {
+  kind: ComponentKind;
+  index: number;
+  component: ApplicationComponent | InfrastructuralComponent;
+}
+
+// ===============================================================
+// Helpers
+// ===============================================================
+
+/**
+ * Identifiers an entity can be referred to by
+ */
+function identifiersOf(entity: { name?: string; fullyQualifiedName?: string }) {
+  return [entity.name, entity.fullyQualifiedName].filter(
+    (id): id is string => typeof id === 'string' && id !== '',
+  );
+}
+
+/**
+ * Find dependency cycles with a depth-first search
+ * @returns Cycles as lists of component names, the first name repeated last
+ */
+function findCycles(
+  nodes: Map<string, ComponentNode>,
+  edges: Map<string, string[]>,
+): string[][] {
+  const cycles: string[][] = [];
+  const seen = new Set<string>();
+  const state = new Map<string, 'visiting' | 'done'>();
+  const stack: string[] = [];
+
+  const visit = (name: string) => {
+    state.set(name, 'visiting');
+    stack.push(name);
+
+    for (const next of edges.get(name) ?? []) {
+      if (state.get(next) === 'visiting') {
+        const cycle = stack.slice(stack.indexOf(next));
+
+        // Report each cycle once, whatever component it is entered from
+        const key = [...cycle].sort().join('\u0000');
+        if (!seen.has(key)) {
+          seen.add(key);
+          cycles.push([...cycle, next]);
+        }
+      } else if (!state.has(next)) {
+        visit(next);
+      }
+    }
+
+    stack.pop();
+    state.set(name, 'done');
+  };
+
+  nodes.forEach((_, name) => {
+    if (!state.has(name)) visit(name);
+  });
+
+  return cycles;
+}
+
+// ===============================================================
+// Checks
+// ===============================================================
+
+/**
+ * Check the dependencies between the internal components of a descriptor
+ *
+ * @param descriptor A structurally valid descriptor
+ * @param options Options used to resolve referenced ports and components
+ * @returns Issues for unknown names, dependency cycles and unreachable
+ * infrastructural components
+ */
+export function checkComponentDependencies(
+  descriptor: DataProductDescriptor,
+  options: ReferenceResolverOptions = {},
+): VerificationIssue[] {
+  const internalComponents = descriptor.internalComponents;
+  if (!internalComponents) return [];
+
+  const resolve = createReferenceResolver(descriptor, options);
+  const issues: VerificationIssue[] = [];
+
+  // Known ports and components, by name and fully qualified name
+  const portIds = new Set<string>();
+  PORT_KINDS.forEach((kind) =>
+    descriptor.interfaceComponents[kind]?.forEach((value) => {
+      const port = resolveEntity<Entity & Port>(value, resolve);
+      if (port) identifiersOf(port).forEach((id) => portIds.add(id));
+    }),
+  );
+
+  const nodes = new Map<string, ComponentNode>();
+  const nodeIds = new Map<string, string>();
+  COMPONENT_KINDS.forEach((kind) =>
+    internalComponents[kind]?.forEach((value, index) => {
+      const component = resolveEntity<
+        ApplicationComponent | InfrastructuralComponent
+      >(value, resolve);
+      if (!component?.name) return;
+
+      nodes.set(component.name, { kind, index, component });
+      identifiersOf(component).forEach((id) => nodeIds.set(id, component.name));
+    }),
+  );
+
+  // Unknown names
+  const edges = new Map<string, string[]>();
+  nodes.forEach(({ kind, index, component }, name) => {
+    const fields = {
+      consumesFrom: (component as ApplicationComponent).consumesFrom,
+      providesTo: (component as ApplicationComponent).providesTo,
+      dependsOn: component.dependsOn,
+    };
+
+    Object.entries(fields).forEach(([field, ids]) => {
+      ids?.forEach((id, position) => {
+        const isComponent = nodeIds.has(id);
+        const isKnown =
+          field === 'dependsOn' ? isComponent : isComponent || portIds.has(id);
+
+        if (!isKnown) {
+          issues.push({
+            severity: 'error',
+            rule: 'unknown-component-reference',
+            path: ['internalComponents', kind, index, field, position],
+            message:
+              field === 'dependsOn'
+                ? `"${id}" is not a component of this data product`
+                : `"${id}" is not a port or component of this data product`,
+          });
+        }
+      });
+    });
+
+    edges.set(
+      name,
+      (component.dependsOn ?? [])
+        .map((id) => nodeIds.get(id))
+        .filter((id): id is string => id !== undefined),
+    );
+  });
+
+  // Dependency cycles
+  findCycles(nodes, edges).forEach((cycle) => {
+    const { kind, index } = nodes.get(cycle[0])!;
+    issues.push({
+      severity: 'error',
+      rule: 'dependency-cycle',
+      path: ['internalComponents', kind, index, 'dependsOn'],
+      message: `Dependency cycle: ${cycle.join(' → ')}`,
+    });
+  });
+
+  // Infrastructure no application depends on, directly or not
+  const applications = Array.from(nodes.values()).filter(
+    ({ kind }) => kind === 'applicationComponents',
+  );
+
+  if (applications.length > 0) {
+    const reachable = new Set<string>();
+    const pending = applications.map(({ component }) => component.name);
+
+    while (pending.length > 0) {
+      const name = pending.pop()!;
+      if (reachable.has(name)) continue;
+      reachable.add(name);
+      pending.push(...(edges.get(name) ?? []));
+    }
+
+    nodes.forEach(({ kind, index }, name) => {
+      if (kind === 'infrastructuralComponents' && !reachable.has(name)) {
+        issues.push({
+          severity: 'warning',
+          rule: 'unreachable-infrastructure',
+          path: ['internalComponents', kind, index],
+          message: `Infrastructural component ${name} is not a dependency of any application component`,
+        });
+      }
+    });
+  }
+
+  return issues;
+}
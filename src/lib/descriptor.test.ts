@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { majorVersion, parseUrn } from './descriptor';
+
+describe('parseUrn', () => {
+  it('splits product and port URNs', () => {
+    expect(
+      parseUrn('urn:dpds:it.quantyca:dataproducts:tripExecution:1'),
+    ).toEqual({
+      namespace: 'it.quantyca',
+      name: 'tripExecution',
+      major: '1',
+      product: 'urn:dpds:it.quantyca:dataproducts:tripExecution',
+    });
+    expect(
+      parseUrn(
+        'urn:dpds:it.quantyca:dataproducts:tripExecution:1:outputports:tripDetails',
+      ),
+    ).toMatchObject({ portKind: 'outputports', port: 'tripDetails' });
+  });
+
+  it('rejects values that are not valid URNs', () => {
+    expect(parseUrn('urn:dpds:it.quantyca:dataproducts:trip execution:1')).toBe(
+      undefined,
+    );
+    expect(parseUrn('urn:dpds:it.quantyca:dataproducts:tripExecution:v1')).toBe(
+      undefined,
+    );
+    expect(
+      parseUrn('urn:dpds:it.quantyca:dataproducts:tripExecution:1:ports:x'),
+    ).toBe(undefined);
+    expect(parseUrn(42)).toBe(undefined);
+  });
+});
+
+describe('majorVersion', () => {
+  it('gives the major version of semantic versions only', () => {
+    expect(majorVersion('2.1.0-rc.1')).toBe('2');
+    expect(majorVersion('2.1')).toBeUndefined();
+    expect(majorVersion(undefined)).toBeUndefined();
+  });
+});
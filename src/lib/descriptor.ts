@@ -0,0 +1,107 @@
+/**
+ * Descriptor Structure
+ *
+ * Sections of data product descriptors that several modules walk through,
+ * and the helpers they share to do so, such as parsing fully qualified names.
+ * Shared by the CLI and the web app, so it must not depend on Node APIs.
+ */
+
+export type Json = Record<string, unknown>;
+
+/**
+ * Port sections of `interfaceComponents`
+ */
+export const PORT_KINDS = [
+  'inputPorts',
+  'outputPorts',
+  'discoveryPorts',
+  'observabilityPorts',
+  'controlPorts',
+] as const;
+
+export type PortKind = (typeof PORT_KINDS)[number];
+
+/**
+ * Component sections of `internalComponents`
+ */
+export const COMPONENT_KINDS = [
+  'applicationComponents',
+  'infrastructuralComponents',
+] as const;
+
+export type ComponentKind = (typeof COMPONENT_KINDS)[number];
+
+/**
+ * Sections of `components`, holding reusable ports and internal components
+ */
+export const COMPONENT_SECTIONS: readonly string[] = [
+  ...PORT_KINDS,
+  ...COMPONENT_KINDS,
+];
+
+/**
+ * Standard definitions that can appear in each port section
+ */
+export const STANDARD_DEFINITIONS: Record<string, string[]> = {
+  promises: ['api', 'deprecationPolicy', 'slo'],
+  expectations: ['audience', 'usage'],
+  obligations: ['termsAndConditions', 'billingPolicy', 'sla'],
+};
+
+/**
+ * Whether a value is a plain object, neither null nor an array
+ */
+export const isObject = (value: unknown): value is Json =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// ===============================================================
+// Fully Qualified Names
+// ===============================================================
+
+/**
+ * Parts of a data product or port URN
+ * Format: urn:dpds:{mesh-namespace}:dataproducts:{product-name}:{product-major-version}
+ * followed for ports by :{inputports|outputports}:{port-name}
+ */
+export interface DpdsUrn {
+  namespace: string;
+  name: string;
+  major: string;
+  /** URN of the product without its major version */
+  product: string;
+  /** Section of port URNs */
+  portKind?: 'inputports' | 'outputports';
+  port?: string;
+}
+
+const urnRegex =
+  /^urn:dpds:([a-zA-Z0-9][\w.-]*):dataproducts:([a-zA-Z0-9][\w-]*):([0-9]+)(?::(input|output)ports:([a-zA-Z0-9][\w-]*))?$/;
+
+/**
+ * Split a data product or port URN into its parts
+ * @returns undefined when the value isn't a valid URN
+ */
+export function parseUrn(fqn: unknown): DpdsUrn | undefined {
+  const match = typeof fqn === 'string' ? urnRegex.exec(fqn) : null;
+  if (!match) return undefined;
+
+  const [, namespace, name, major, portKind, port] = match;
+  return {
+    namespace,
+    name,
+    major,
+    product: `urn:dpds:${namespace}:dataproducts:${name}`,
+    ...(port
+      ? { portKind: `${portKind}ports` as DpdsUrn['portKind'], port }
+      : {}),
+  };
+}
+
+/**
+ * Major version of a semantic version, if the version is valid
+ */
+export function majorVersion(version: unknown): string | undefined {
+  return typeof version === 'string' && /^\d+\.\d+\.\d+/.test(version)
+    ? version.split('.')[0]
+    : undefined;
+}
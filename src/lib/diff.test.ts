@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import type { DataProductDescriptor, OutputPort } from '../types';
+import { validDescriptor } from './__fixtures__/descriptors';
+import { diffDataProducts, getVersionBump } from './diff';
+
+/**
+ * The fixture, with its first output port and info.version changed
+ */
+function nextVersion(
+  version: string,
+  changePort: (port: OutputPort) => void = () => {},
+): DataProductDescriptor {
+  const descriptor = validDescriptor();
+  descriptor.info.version = version;
+  changePort(descriptor.interfaceComponents.outputPorts[0] as OutputPort);
+  return descriptor;
+}
+
+describe('getVersionBump', () => {
+  it('finds the bump between two versions', () => {
+    expect(getVersionBump('1.2.0', '2.0.0')).toBe('major');
+    expect(getVersionBump('1.2.0', '1.3.0')).toBe('minor');
+    expect(getVersionBump('1.2.0', '1.2.1')).toBe('patch');
+    expect(getVersionBump('1.2.0', '1.2.0')).toBe('none');
+  });
+
+  it('finds no bump when the version decreases or is invalid', () => {
+    expect(getVersionBump('1.2.0', '1.1.9')).toBeUndefined();
+    expect(getVersionBump('1.2.0', 'next')).toBeUndefined();
+  });
+});
+
+describe('diffDataProducts', () => {
+  it('finds no change between identical descriptors', () => {
+    const diff = diffDataProducts(validDescriptor(), validDescriptor());
+
+    expect(diff.changes).toEqual([]);
+    expect(diff.requiredBump).toBe('none');
+    expect(diff.isBumpSufficient).toBe(true);
+  });
+
+  it('matches ports by name rather than position', () => {
+    const after = validDescriptor();
+    after.interfaceComponents.outputPorts.unshift({
+      name: 'tripStats',
+      version: '1.0.0',
+    });
+    after.info.version = '1.3.0';
+
+    const diff = diffDataProducts(validDescriptor(), after);
+
+    expect(diff.changes).toMatchObject([
+      {
+        type: 'added',
+        path: ['interfaceComponents', 'outputPorts', 'tripStats'],
+        impact: 'additive',
+      },
+    ]);
+    expect(diff.requiredBump).toBe('minor');
+    expect(diff.isBumpSufficient).toBe(true);
+  });
+
+  it('requires a major bump to remove an output port', () => {
+    const after = nextVersion('1.3.0');
+    after.interfaceComponents.outputPorts = [];
+
+    const diff = diffDataProducts(validDescriptor(), after);
+
+    expect(diff.changes).toMatchObject([
+      { impact: 'breaking', message: 'output port tripDetails removed' },
+    ]);
+    expect(diff.requiredBump).toBe('major');
+    expect(diff.declaredBump).toBe('minor');
+    expect(diff.isBumpSufficient).toBe(false);
+  });
+
+  it('classifies descriptive changes as cosmetic', () => {
+    const diff = diffDataProducts(
+      validDescriptor(),
+      nextVersion('1.2.1', (port) => (port.description = 'Executed trips')),
+    );
+
+    expect(diff.changes).toMatchObject([
+      {
+        type: 'changed',
+        impact: 'cosmetic',
+        message: 'description of output port tripDetails changed',
+      },
+    ]);
+    expect(diff.isBumpSufficient).toBe(true);
+  });
+
+  it('classifies changed promises as breaking and added ones as additive', () => {
+    const withPromises = nextVersion('1.3.0', (port) => {
+      port.promises = { platform: 'kafka' };
+    });
+    const changed = nextVersion('2.0.0', (port) => {
+      port.promises = { platform: 'pulsar' };
+    });
+
+    expect(diffDataProducts(validDescriptor(), withPromises).requiredBump).toBe(
+      'minor',
+    );
+    expect(diffDataProducts(withPromises, changed).changes).toMatchObject([
+      {
+        impact: 'breaking',
+        message: 'promises.platform of output port tripDetails changed',
+      },
+    ]);
+  });
+
+  it('only requires a minor bump for breaking changes before 1.0.0', () => {
+    const before = nextVersion('0.3.0');
+    const after = nextVersion('0.4.0');
+    after.interfaceComponents.outputPorts = [];
+
+    const diff = diffDataProducts(before, after);
+
+    expect(diff.requiredBump).toBe('major');
+    expect(diff.isBumpSufficient).toBe(true);
+  });
+});
@@ -0,0 +1,404 @@
+/**
+ * Descriptor Diff
+ *
+ * Compares two versions of a data product descriptor structurally, matching
+ * ports by name rather than by array index, classifies each change by its
+ * impact on consumers and checks the declared version bump against it.
+ */
+
+import type { DataProductDescriptor } from '../types';
+import {
+  createReferenceResolver,
+  ReferenceResolverOptions,
+  resolveEntity,
+} from './references';
+import { isObject, Json, PORT_KINDS } from './descriptor';
+
+// ===============================================================
+// Types
+// ===============================================================
+
+/**
+ * Impact of a change on consumers of the data product
+ * - breaking: requires a major version bump
+ * - additive: requires a minor version bump
+ * - cosmetic: requires a patch version bump
+ */
+export type ChangeImpact = 'breaking' | 'additive' | 'cosmetic';
+
+export type VersionBump = 'major' | 'minor' | 'patch' | 'none';
+
+/**
+ * A single difference between two descriptors
+ */
+export interface DescriptorChange {
+  type: 'added' | 'removed' | 'changed';
+  /** Path of the changed value; ports are identified by name */
+  path: string[];
+  impact: ChangeImpact;
+  message: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+/**
+ * Result of comparing two descriptors
+ */
+export interface DescriptorDiff {
+  changes: DescriptorChange[];
+  oldVersion: string;
+  newVersion: string;
+  /** Smallest bump allowed by the changes */
+  requiredBump: VersionBump;
+  /** Bump between the two info.version values, undefined when not an increase */
+  declaredBump?: VersionBump;
+  isBumpSufficient: boolean;
+}
+
+/**
+ * Options for comparing descriptors
+ */
+export interface DiffOptions {
+  /** Resolver options for references of the old descriptor */
+  oldReferences?: ReferenceResolverOptions;
+  /** Resolver options for references of the new descriptor */
+  newReferences?: ReferenceResolverOptions;
+}
+
+const PORT_LABELS: Record<string, string> = {
+  inputPorts: 'input port',
+  outputPorts: 'output port',
+  discoveryPorts: 'discovery port',
+  observabilityPorts: 'observability port',
+  controlPorts: 'control port',
+};
+
+/**
+ * Fields that only describe an entity
+ */
+const DESCRIPTIVE_FIELDS = [
+  'description',
+  'displayName',
+  'tags',
+  'externalDocs',
+  'componentGroup',
+  'contactPoints',
+  'owner',
+];
+
+/**
+ * Fields identifying an entity
+ */
+const IDENTITY_FIELDS = ['id', 'name', 'fullyQualifiedName', 'entityType'];
+
+/**
+ * Port sections describing what is offered to consumers
+ */
+const CONTRACT_SECTIONS = ['promises', 'obligations'];
+
+const BUMP_RANK: Record<VersionBump, number> = {
+  none: 0,
+  patch: 1,
+  minor: 2,
+  major: 3,
+};
+
+const IMPACT_BUMP: Record<ChangeImpact, VersionBump> = {
+  breaking: 'major',
+  additive: 'minor',
+  cosmetic: 'patch',
+};
+
+// ===============================================================
+// Helpers
+// ===============================================================
+
+/**
+ * Compare two values regardless of object key order
+ */
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => isEqual(item, b[i]));
+  }
+  if (isObject(a) && isObject(b)) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((key) => key in b && isEqual(a[key], b[key]))
+    );
+  }
+  return false;
+}
+
+/**
+ * Parse a semantic version into its numeric parts
+ */
+function parseVersion(version: unknown): [number, number, number] | undefined {
+  const match =
+    typeof version === 'string' && /^(\d+)\.(\d+)\.(\d+)/.exec(version);
+  return match
+    ? [Number(match[1]), Number(match[2]), Number(match[3])]
+    : undefined;
+}
+
+/**
+ * Bump between two versions
+ * @returns The bump, or undefined when the new version isn't greater
+ */
+export function getVersionBump(
+  oldVersion: unknown,
+  newVersion: unknown,
+): VersionBump | undefined {
+  const before = parseVersion(oldVersion);
+  const after = parseVersion(newVersion);
+  if (!before || !after) return undefined;
+
+  if (after[0] !== before[0]) return after[0] > before[0] ? 'major' : undefined;
+  if (after[1] !== before[1]) return after[1] > before[1] ? 'minor' : undefined;
+  if (after[2] !== before[2]) return after[2] > before[2] ? 'patch' : undefined;
+  return 'none';
+}
+
+/**
+ * Record the differences between two values, recursing into objects
+ * Arrays and standard definition contents are compared as a whole
+ */
+function diffValues(
+  before: unknown,
+  after: unknown,
+  path: string[],
+  record: (change: Omit<DescriptorChange, 'impact' | 'message'>) => void,
+) {
+  if (isEqual(before, after)) return;
+
+  if (before === undefined) {
+    record({ type: 'added', path, after });
+  } else if (after === undefined) {
+    record({ type: 'removed', path, before });
+  } else if (
+    isObject(before) &&
+    isObject(after) &&
+    path[path.length - 1] !== 'definition'
+  ) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    keys.forEach((key) =>
+      diffValues(before[key], after[key], [...path, key], record),
+    );
+  } else {
+    record({ type: 'changed', path, before, after });
+  }
+}
+
+/**
+ * Index the ports of a kind by name, resolving references
+ */
+function portsByName(
+  descriptor: DataProductDescriptor,
+  kind: (typeof PORT_KINDS)[number],
+  options: ReferenceResolverOptions = {},
+): Map<string, Json> {
+  const resolve = createReferenceResolver(descriptor, options);
+  const ports = new Map<string, Json>();
+
+  descriptor.interfaceComponents[kind]?.forEach((value, index) => {
+    const port = resolveEntity<object>(value, resolve) as Json | undefined;
+    if (!port) return;
+
+    // Ports without a name can only be matched by position
+    const name = typeof port.name === 'string' ? port.name : `#${index}`;
+    ports.set(name, port);
+  });
+
+  return ports;
+}
+
+// ===============================================================
+// Classification
+// ===============================================================
+
+/**
+ * Classify a change of a port
+ * @param kind Port kind (e.g. `outputPorts`)
+ * @param field Changed field of the port, undefined for the port itself
+ */
+function classifyPortChange(
+  change: Omit<DescriptorChange, 'impact' | 'message'>,
+  kind: string,
+  field: string | undefined,
+): { impact: ChangeImpact; message: string } {
+  const label = PORT_LABELS[kind] ?? kind;
+  const portName = change.path[2];
+  // Input ports are what this product consumes: consumers aren't affected
+  const isConsumed = kind === 'inputPorts';
+
+  if (field === undefined) {
+    return change.type === 'added'
+      ? { impact: 'additive', message: `${label} ${portName} added` }
+      : {
+          impact: isConsumed ? 'additive' : 'breaking',
+          message: `${label} ${portName} removed`,
+        };
+  }
+
+  const where = `${field} of ${label} ${portName}`;
+
+  if (DESCRIPTIVE_FIELDS.includes(field)) {
+    return { impact: 'cosmetic', message: `${where} ${change.type}` };
+  }
+
+  if (field === 'version') {
+    const bump = getVersionBump(change.before, change.after);
+    const impact: ChangeImpact =
+      bump === 'major' || bump === undefined
+        ? 'breaking'
+        : bump === 'minor'
+          ? 'additive'
+          : 'cosmetic';
+    return {
+      impact: isConsumed ? 'additive' : impact,
+      message: `version of ${label} ${portName} changed from ${change.before} to ${change.after}`,
+    };
+  }
+
+  if (isConsumed) {
+    return { impact: 'additive', message: `${where} ${change.type}` };
+  }
+
+  if (IDENTITY_FIELDS.includes(field)) {
+    return { impact: 'breaking', message: `${where} ${change.type}` };
+  }
+
+  const detail = change.path.slice(3).join('.');
+
+  if (CONTRACT_SECTIONS.includes(field)) {
+    return {
+      impact: change.type === 'added' ? 'additive' : 'breaking',
+      message: `${detail} of ${label} ${portName} ${change.type}`,
+    };
+  }
+
+  if (field === 'expectations') {
+    return {
+      impact: change.type === 'removed' ? 'additive' : 'breaking',
+      message: `${detail} of ${label} ${portName} ${change.type}`,
+    };
+  }
+
+  return {
+    impact: 'additive',
+    message: `${detail} of ${label} ${portName} ${change.type}`,
+  };
+}
+
+/**
+ * Classify a change outside of the ports
+ */
+function classifyChange(change: Omit<DescriptorChange, 'impact' | 'message'>): {
+  impact: ChangeImpact;
+  message: string;
+} {
+  const [section, field] = change.path;
+  const where = change.path.join('.');
+
+  if (section === 'interfaceComponents') {
+    return classifyPortChange(change, field, change.path[3]);
+  }
+
+  if (section === 'info') {
+    if (['name', 'fullyQualifiedName', 'domain', 'id'].includes(field)) {
+      return { impact: 'breaking', message: `${where} ${change.type}` };
+    }
+    return { impact: 'cosmetic', message: `${where} ${change.type}` };
+  }
+
+  if (section === 'dataProductDescriptor') {
+    return {
+      impact: 'additive',
+      message: `specification version changed from ${change.before} to ${change.after}`,
+    };
+  }
+
+  // Internal components, reusable components, tags and external docs don't
+  // change the contract with consumers
+  return { impact: 'cosmetic', message: `${where} ${change.type}` };
+}
+
+// ===============================================================
+// Diff
+// ===============================================================
+
+/**
+ * Compare two versions of a data product descriptor
+ *
+ * @param oldDescriptor The previous version
+ * @param newDescriptor The new version
+ * @param options Diff options
+ * @returns The classified changes and whether the version bump is sufficient
+ */
+export function diffDataProducts(
+  oldDescriptor: DataProductDescriptor,
+  newDescriptor: DataProductDescriptor,
+  options: DiffOptions = {},
+): DescriptorDiff {
+  const raw: Omit<DescriptorChange, 'impact' | 'message'>[] = [];
+  const record = (change: Omit<DescriptorChange, 'impact' | 'message'>) =>
+    raw.push(change);
+
+  const { interfaceComponents: oldInterface, ...oldRest } = oldDescriptor;
+  const { interfaceComponents: newInterface, ...newRest } = newDescriptor;
+
+  // info.version is the declared bump, not a change in itself
+  const withoutVersion = (rest: Json) => ({
+    ...rest,
+    info: { ...(rest.info as Json), version: undefined },
+  });
+  diffValues(withoutVersion(oldRest), withoutVersion(newRest), [], record);
+
+  PORT_KINDS.forEach((kind) => {
+    if (!oldInterface[kind] && !newInterface[kind]) return;
+
+    const before = portsByName(oldDescriptor, kind, options.oldReferences);
+    const after = portsByName(newDescriptor, kind, options.newReferences);
+    const names = new Set([...before.keys(), ...after.keys()]);
+
+    names.forEach((name) =>
+      diffValues(
+        before.get(name),
+        after.get(name),
+        ['interfaceComponents', kind, name],
+        record,
+      ),
+    );
+  });
+
+  const changes = raw.map((change) => ({
+    ...change,
+    ...classifyChange(change),
+  }));
+
+  const requiredBump = changes.reduce<VersionBump>((bump, change) => {
+    const needed = IMPACT_BUMP[change.impact];
+    return BUMP_RANK[needed] > BUMP_RANK[bump] ? needed : bump;
+  }, 'none');
+
+  const oldVersion = oldDescriptor.info.version;
+  const newVersion = newDescriptor.info.version;
+  const declaredBump = getVersionBump(oldVersion, newVersion);
+
+  // Before 1.0.0 breaking changes only require a minor bump
+  const isInitialDevelopment = parseVersion(oldVersion)?.[0] === 0;
+  const effectiveRequired =
+    isInitialDevelopment && requiredBump === 'major' ? 'minor' : requiredBump;
+
+  return {
+    changes,
+    oldVersion,
+    newVersion,
+    requiredBump,
+    declaredBump,
+    isBumpSufficient:
+      declaredBump !== undefined &&
+      BUMP_RANK[declaredBump] >= BUMP_RANK[effectiveRequired],
+  };
+}
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import type { DataProductDescriptor } from '../types';
+import {
+  consumerDescriptor,
+  validDescriptor,
+} from './__fixtures__/descriptors';
+import { docsFileName, renderDescriptorDocs, renderMeshIndex } from './docs';
+
+/**
+ * The fixture, with an API on its output port and text to escape
+ */
+function documentedDescriptor(): DataProductDescriptor {
+  const descriptor = validDescriptor();
+  descriptor.info.description = 'Trips <executed> | planned';
+  descriptor.interfaceComponents.outputPorts[0] = {
+    ...descriptor.interfaceComponents.outputPorts[0],
+    promises: {
+      platform: 'kafka',
+      api: {
+        name: 'tripDetailsApi',
+        version: '1.0.0',
+        specification: 'asyncapi',
+        definition: { asyncapi: '2.5.0' },
+      },
+    },
+  };
+  return descriptor;
+}
+
+const render = (format: 'markdown' | 'html') =>
+  renderDescriptorDocs(
+    { filePath: 'trips.json', descriptor: documentedDescriptor() },
+    format,
+  );
+
+describe('docsFileName', () => {
+  it('names pages after the namespace, name and version of the product', () => {
+    expect(docsFileName(validDescriptor(), 'markdown')).toBe(
+      'it.quantyca.tripExecution-1.2.0.md',
+    );
+    expect(docsFileName(validDescriptor(), 'html')).toBe(
+      'it.quantyca.tripExecution-1.2.0.html',
+    );
+  });
+
+  it('gives products of other namespaces their own page', () => {
+    const other = validDescriptor();
+    other.info.fullyQualifiedName =
+      'urn:dpds:com.example:dataproducts:tripExecution:1';
+
+    expect(docsFileName(other, 'markdown')).not.toBe(
+      docsFileName(validDescriptor(), 'markdown'),
+    );
+  });
+});
+
+describe('renderDescriptorDocs', () => {
+  it('renders Markdown sections, tables and definitions', () => {
+    const { fileName, content } = render('markdown');
+
+    expect(fileName).toBe('it.quantyca.tripExecution-1.2.0.md');
+    expect(content).toMatch(/^# tripExecution 1\.2\.0\n/);
+    expect(content).toContain('Trips <executed> | planned');
+    expect(content).toContain(
+      '| Fully qualified name | urn:dpds:it.quantyca:dataproducts:tripExecution:1 |',
+    );
+    expect(content).toContain('## Owner');
+    expect(content).toContain('## Input ports\n\n### tmsTripCDC 1.0.0');
+    expect(content).toContain('#### Promises');
+    expect(content).toContain('| platform | kafka |');
+    expect(content).toContain('```json\n{\n  "asyncapi": "2.5.0"\n}\n```');
+  });
+
+  it('renders a self-contained HTML page with escaped text', () => {
+    const { fileName, content } = render('html');
+
+    expect(fileName).toBe('it.quantyca.tripExecution-1.2.0.html');
+    expect(content).toMatch(/^<!DOCTYPE html>/);
+    expect(content).toContain('<title>tripExecution</title>');
+    expect(content).toContain('<h1>tripExecution 1.2.0</h1>');
+    expect(content).toContain('Trips &lt;executed&gt; | planned');
+    expect(content).not.toContain('<executed>');
+    expect(content).toContain('<tr><td>platform</td><td>kafka</td></tr>');
+  });
+});
+
+describe('renderMeshIndex', () => {
+  it('links the page of each product, sorted by domain and name', () => {
+    const billing = consumerDescriptor(
+      'urn:dpds:it.quantyca:dataproducts:tripExecution:1:outputports:tripDetails',
+    );
+    billing.info.description = 'Invoices | payments';
+
+    const { fileName, content } = renderMeshIndex(
+      [validDescriptor(), billing],
+      'markdown',
+    );
+
+    expect(fileName).toBe('index.md');
+    expect(content.split('\n').slice(4, 6)).toEqual([
+      '| [billing](it.quantyca.billing-1.0.0.md) | 1.0.0 | finance | jane.doe@company.com | 0 | Invoices \\| payments |',
+      '| [tripExecution](it.quantyca.tripExecution-1.2.0.md) | 1.2.0 | transport | John Doe | 1 |  |',
+    ]);
+  });
+});
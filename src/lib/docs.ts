@@ -0,0 +1,595 @@
+/**
+ * Documentation Generator
+ *
+ * Renders a data product descriptor as a Markdown or self-contained HTML
+ * page: info, owner, contact points, every port type with its promises,
+ * expectations and obligations, internal components and lifecycle stages.
+ * A set of descriptors also gets an index page for the whole mesh.
+ */
+
+import * as path from 'path';
+import type {
+  ApplicationComponent,
+  DataProductDescriptor,
+  Entity,
+  ExternalResource,
+  InfrastructuralComponent,
+  LifecycleTaskInfo,
+  Port,
+} from '../types';
+import type { MeshProduct } from './mesh';
+import {
+  createReferenceResolver,
+  isReference,
+  ResolvedReference,
+  resolveEntity,
+} from './references';
+import { isObject, Json, parseUrn } from './descriptor';
+
+// ===============================================================
+// Types
+// ===============================================================
+
+/**
+ * Supported documentation formats
+ */
+export const DOCS_FORMATS = ['markdown', 'html'] as const;
+
+export type DocsFormat = (typeof DOCS_FORMATS)[number];
+
+/**
+ * Format independent content of a page
+ */
+type Block =
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'table'; headers: string[]; rows: Cell[][] }
+  | { type: 'code'; language: string; text: string };
+
+/**
+ * Table cell: plain text, or a link
+ */
+type Cell = string | { text: string; href: string };
+
+/**
+ * A rendered page
+ */
+export interface DocsPage {
+  /** File name of the page, relative to the output directory */
+  fileName: string;
+  content: string;
+}
+
+const PORT_SECTIONS = [
+  ['inputPorts', 'Input ports'],
+  ['outputPorts', 'Output ports'],
+  ['discoveryPorts', 'Discovery ports'],
+  ['observabilityPorts', 'Observability ports'],
+  ['controlPorts', 'Control ports'],
+] as const;
+
+const PORT_DETAILS = [
+  ['promises', 'Promises'],
+  ['expectations', 'Expectations'],
+  ['obligations', 'Obligations'],
+] as const;
+
+const FILE_EXTENSIONS: Record<DocsFormat, string> = {
+  markdown: 'md',
+  html: 'html',
+};
+
+// ===============================================================
+// Helpers
+// ===============================================================
+
+/**
+ * Short text for a value shown in a table cell
+ * Objects are shown as JSON; standard definitions get their own blocks
+ */
+function summarize(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  if (Array.isArray(value) && value.every((item) => !isObject(item))) {
+    return value.join(', ');
+  }
+  if (isReference(value)) return value.$ref;
+  if (isObject(value)) return JSON.stringify(value);
+  return String(value);
+}
+
+function externalLink(resource: ExternalResource | undefined): Cell {
+  if (!resource?.$href) return '';
+  return { text: resource.description || resource.$href, href: resource.$href };
+}
+
+/**
+ * Key/value table of the scalar properties of an entity
+ */
+function propertyTable(rows: [string, Cell | undefined][]): Block[] {
+  const filled = rows.filter(
+    (row): row is [string, Cell] => row[1] !== undefined && row[1] !== '',
+  );
+  return filled.length > 0
+    ? [{ type: 'table', headers: ['Property', 'Value'], rows: filled }]
+    : [];
+}
+
+/**
+ * Name of the page documenting a descriptor
+ * Prefixed with the mesh namespace of the product, so that products of
+ * different namespaces sharing a name get their own page
+ * @example docsFileName(descriptor, 'markdown') // "it.quantyca.tripExecution-1.2.0.md"
+ */
+export function docsFileName(
+  descriptor: DataProductDescriptor,
+  format: DocsFormat,
+): string {
+  const { name, version, fullyQualifiedName } = descriptor.info;
+  const namespace = parseUrn(fullyQualifiedName)?.namespace;
+  const baseName = namespace ? `${namespace}.${name}` : name;
+  return `${baseName}-${version}.${FILE_EXTENSIONS[format]}`;
+}
+
+// ===============================================================
+// Sections
+// ===============================================================
+
+/**
+ * Blocks documenting a standard definition (API, SLO, policies...)
+ */
+function standardDefinitionBlocks(
+  title: string,
+  value: unknown,
+  level: number,
+): Block[] {
+  const blocks: Block[] = [{ type: 'heading', level, text: title }];
+
+  if (!isObject(value) || isReference(value)) {
+    return [...blocks, ...propertyTable([['Value', summarize(value)]])];
+  }
+
+  const { definition, ...properties } = value;
+  blocks.push(
+    ...propertyTable(
+      Object.entries(properties).map(([key, item]) => [
+        key,
+        key === 'externalDocs'
+          ? externalLink(item as ExternalResource)
+          : summarize(item),
+      ]),
+    ),
+  );
+
+  if (definition !== undefined) {
+    blocks.push(
+      isReference(definition)
+        ? { type: 'paragraph', text: `Definition: ${definition.$ref}` }
+        : {
+            type: 'code',
+            language: typeof definition === 'string' ? '' : 'json',
+            text:
+              typeof definition === 'string'
+                ? definition
+                : JSON.stringify(definition, null, 2),
+          },
+    );
+  }
+
+  return blocks;
+}
+
+/**
+ * Blocks documenting promises, expectations or obligations of a port
+ */
+function portDetailBlocks(
+  title: string,
+  value: unknown,
+  resolve: (ref: string) => ResolvedReference,
+): Block[] {
+  const details = isObject(value) ? resolveEntity<Json>(value, resolve) : value;
+  if (!isObject(details)) return [];
+
+  const scalars = Object.entries(details).filter(([, item]) => !isObject(item));
+  const definitions = Object.entries(details).filter(([, item]) =>
+    isObject(item),
+  );
+
+  return [
+    { type: 'heading', level: 4, text: title },
+    ...propertyTable(scalars.map(([key, item]) => [key, summarize(item)])),
+    ...definitions.flatMap(([key, item]) =>
+      standardDefinitionBlocks(
+        key,
+        isReference(item) ? (resolveEntity(item, resolve) ?? item) : item,
+        5,
+      ),
+    ),
+  ];
+}
+
+function infoBlocks(descriptor: DataProductDescriptor): Block[] {
+  const { info } = descriptor;
+  const blocks: Block[] = [
+    {
+      type: 'heading',
+      level: 1,
+      text: `${info.displayName || info.name} ${info.version}`,
+    },
+  ];
+
+  if (info.description) {
+    blocks.push({ type: 'paragraph', text: info.description });
+  }
+
+  blocks.push(
+    ...propertyTable([
+      ['Fully qualified name', info.fullyQualifiedName],
+      ['Name', info.name],
+      ['Version', info.version],
+      ['Domain', info.domain],
+      ['Entity type', info.entityType],
+      ['Specification version', descriptor.dataProductDescriptor],
+      ['Tags', summarize(descriptor.tags)],
+      ['External docs', externalLink(descriptor.externalDocs)],
+    ]),
+  );
+
+  const { id, name, ...ownerProperties } = info.owner;
+  blocks.push(
+    { type: 'heading', level: 2, text: 'Owner' },
+    ...propertyTable([
+      ['Id', id],
+      ['Name', name],
+      ...Object.entries(ownerProperties).map(
+        ([key, value]): [string, string] => [key, summarize(value)],
+      ),
+    ]),
+  );
+
+  if (info.contactPoints?.length) {
+    blocks.push(
+      { type: 'heading', level: 2, text: 'Contact points' },
+      {
+        type: 'table',
+        headers: ['Name', 'Channel', 'Address', 'Description'],
+        rows: info.contactPoints.map((contact) => [
+          contact.name ?? '',
+          contact.channel ?? '',
+          contact.address ?? '',
+          contact.description ?? '',
+        ]),
+      },
+    );
+  }
+
+  return blocks;
+}
+
+function portBlocks(
+  descriptor: DataProductDescriptor,
+  resolve: (ref: string) => ResolvedReference,
+): Block[] {
+  return PORT_SECTIONS.flatMap(([section, title]) => {
+    const ports = (descriptor.interfaceComponents[section] ?? [])
+      .map((value) => resolveEntity<Entity & Port>(value, resolve))
+      .filter((port) => port !== undefined);
+    if (ports.length === 0) return [];
+
+    return [
+      { type: 'heading', level: 2, text: title } as Block,
+      ...ports.flatMap((port): Block[] => [
+        {
+          type: 'heading',
+          level: 3,
+          text: `${port.displayName || port.name} ${port.version}`,
+        },
+        ...(port.description
+          ? [{ type: 'paragraph', text: port.description } as Block]
+          : []),
+        ...propertyTable([
+          ['Fully qualified name', port.fullyQualifiedName],
+          ['Name', port.name],
+          ['Version', port.version],
+          ['Entity type', port.entityType],
+          ['Component group', port.componentGroup],
+          ['Tags', summarize(port.tags)],
+          ['External docs', externalLink(port.externalDocs)],
+        ]),
+        ...PORT_DETAILS.flatMap(([detail, detailTitle]) =>
+          portDetailBlocks(detailTitle, port[detail], resolve),
+        ),
+      ]),
+    ];
+  });
+}
+
+function internalComponentBlocks(
+  descriptor: DataProductDescriptor,
+  resolve: (ref: string) => ResolvedReference,
+): Block[] {
+  const internal = descriptor.internalComponents;
+  if (!internal) return [];
+
+  const applications = (internal.applicationComponents ?? [])
+    .map((value) => resolveEntity<ApplicationComponent>(value, resolve))
+    .filter((component) => component !== undefined);
+  const infrastructure = (internal.infrastructuralComponents ?? [])
+    .map((value) => resolveEntity<InfrastructuralComponent>(value, resolve))
+    .filter((component) => component !== undefined);
+  const lifecycle = Object.entries(internal.lifecycleInfo ?? {});
+
+  const blocks: Block[] = [];
+
+  if (applications.length > 0 || infrastructure.length > 0) {
+    blocks.push({ type: 'heading', level: 2, text: 'Internal components' });
+  }
+
+  if (applications.length > 0) {
+    blocks.push(
+      { type: 'heading', level: 3, text: 'Application components' },
+      {
+        type: 'table',
+        headers: [
+          'Name',
+          'Version',
+          'Platform',
+          'Type',
+          'Consumes from',
+          'Provides to',
+          'Depends on',
+          'Description',
+        ],
+        rows: applications.map((component) => [
+          component.name,
+          component.version,
+          component.platform ?? '',
+          component.applicationType ?? '',
+          summarize(component.consumesFrom),
+          summarize(component.providesTo),
+          summarize(component.dependsOn),
+          component.description ?? '',
+        ]),
+      },
+    );
+  }
+
+  if (infrastructure.length > 0) {
+    blocks.push(
+      { type: 'heading', level: 3, text: 'Infrastructural components' },
+      {
+        type: 'table',
+        headers: [
+          'Name',
+          'Version',
+          'Platform',
+          'Type',
+          'Depends on',
+          'Description',
+        ],
+        rows: infrastructure.map((component) => [
+          component.name,
+          component.version,
+          component.platform ?? '',
+          component.infrastructureType ?? '',
+          summarize(component.dependsOn),
+          component.description ?? '',
+        ]),
+      },
+    );
+  }
+
+  if (lifecycle.length > 0) {
+    blocks.push({ type: 'heading', level: 2, text: 'Lifecycle' });
+    lifecycle.forEach(([stage, tasks]) => {
+      const list: LifecycleTaskInfo[] = Array.isArray(tasks) ? tasks : [tasks];
+      blocks.push(
+        { type: 'heading', level: 3, text: stage },
+        {
+          type: 'table',
+          headers: ['Order', 'Name', 'Service', 'Template', 'Configurations'],
+          rows: [...list]
+            .sort((a, b) => (a.order ?? 0) - (b.order ?? 0))
+            .map((task) => [
+              summarize(task.order),
+              task.name ?? '',
+              externalLink(task.service),
+              isObject(task.template) && !isReference(task.template)
+                ? summarize(task.template.specification)
+                : summarize(task.template),
+              summarize(task.configurations),
+            ]),
+        },
+      );
+    });
+  }
+
+  return blocks;
+}
+
+// ===============================================================
+// Renderers
+// ===============================================================
+
+function renderMarkdown(blocks: Block[]): string {
+  // Pipes and line breaks would end the table cell
+  const cell = (value: Cell) => {
+    const text = typeof value === 'string' ? value : value.text;
+    const escaped = text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+    return typeof value === 'string' ? escaped : `[${escaped}](${value.href})`;
+  };
+
+  return (
+    blocks
+      .map((block) => {
+        switch (block.type) {
+          case 'heading':
+            return `${'#'.repeat(block.level)} ${block.text}`;
+          case 'paragraph':
+            return block.text;
+          case 'table':
+            return [
+              `| ${block.headers.join(' | ')} |`,
+              `| ${block.headers.map(() => '---').join(' | ')} |`,
+              ...block.rows.map((row) => `| ${row.map(cell).join(' | ')} |`),
+            ].join('\n');
+          case 'code':
+            return `\`\`\`${block.language}\n${block.text}\n\`\`\``;
+        }
+      })
+      .join('\n\n') + '\n'
+  );
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+const HTML_STYLE = `
+    body { font-family: system-ui, sans-serif; max-width: 960px; margin: 2rem auto; padding: 0 1rem; color: #222; }
+    table { border-collapse: collapse; margin: 0.5rem 0 1rem; width: 100%; }
+    th, td { border: 1px solid #ddd; padding: 0.35rem 0.6rem; text-align: left; vertical-align: top; }
+    th { background: #f5f5f5; }
+    pre { background: #f5f5f5; padding: 0.75rem; overflow-x: auto; }
+    h2 { border-bottom: 1px solid #ddd; padding-bottom: 0.25rem; }`;
+
+function renderHtml(blocks: Block[], title: string): string {
+  const cell = (value: Cell) =>
+    typeof value === 'string'
+      ? escapeHtml(value)
+      : `<a href="${escapeHtml(value.href)}">${escapeHtml(value.text)}</a>`;
+
+  const body = blocks.map((block) => {
+    switch (block.type) {
+      case 'heading':
+        return `<h${block.level}>${escapeHtml(block.text)}</h${block.level}>`;
+      case 'paragraph':
+        return `<p>${escapeHtml(block.text)}</p>`;
+      case 'table':
+        return [
+          '<table>',
+          `<tr>${block.headers.map((header) => `<th>${escapeHtml(header)}</th>`).join('')}</tr>`,
+          ...block.rows.map(
+            (row) =>
+              `<tr>${row.map((value) => `<td>${cell(value)}</td>`).join('')}</tr>`,
+          ),
+          '</table>',
+        ].join('\n');
+      case 'code':
+        return `<pre><code>${escapeHtml(block.text)}</code></pre>`;
+    }
+  });
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '  <meta charset="utf-8">',
+    `  <title>${escapeHtml(title)}</title>`,
+    `  <style>${HTML_STYLE}\n  </style>`,
+    '</head>',
+    '<body>',
+    ...body,
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+}
+
+function render(blocks: Block[], title: string, format: DocsFormat): string {
+  return format === 'html' ? renderHtml(blocks, title) : renderMarkdown(blocks);
+}
+
+// ===============================================================
+// Pages
+// ===============================================================
+
+/**
+ * Render the documentation page of a descriptor
+ *
+ * @param product A structurally valid descriptor and its file path, used to
+ * resolve referenced ports and components
+ * @param format Output format
+ * @returns The page
+ */
+export function renderDescriptorDocs(
+  { filePath, descriptor }: MeshProduct,
+  format: DocsFormat,
+): DocsPage {
+  const resolve = createReferenceResolver(descriptor, {
+    baseDir: path.dirname(filePath),
+  });
+  const blocks = [
+    ...infoBlocks(descriptor),
+    ...portBlocks(descriptor, resolve),
+    ...internalComponentBlocks(descriptor, resolve),
+  ];
+
+  return {
+    fileName: docsFileName(descriptor, format),
+    content: render(blocks, descriptor.info.name, format),
+  };
+}
+
+/**
+ * Render the index page of a mesh, linking the page of each descriptor
+ *
+ * @param descriptors Structurally valid descriptors
+ * @param format Output format
+ * @returns The index page
+ */
+export function renderMeshIndex(
+  descriptors: DataProductDescriptor[],
+  format: DocsFormat,
+): DocsPage {
+  const sorted = [...descriptors].sort(
+    (a, b) =>
+      a.info.domain.localeCompare(b.info.domain) ||
+      a.info.name.localeCompare(b.info.name) ||
+      a.info.version.localeCompare(b.info.version),
+  );
+
+  const blocks: Block[] = [
+    { type: 'heading', level: 1, text: 'Data products' },
+    {
+      type: 'table',
+      headers: [
+        'Data product',
+        'Version',
+        'Domain',
+        'Owner',
+        'Output ports',
+        'Description',
+      ],
+      rows: sorted.map((descriptor) => {
+        const { info } = descriptor;
+        return [
+          {
+            text: info.displayName || info.name,
+            href: docsFileName(descriptor, format),
+          },
+          info.version,
+          info.domain,
+          info.owner.name || info.owner.id,
+          String(descriptor.interfaceComponents.outputPorts?.length ?? 0),
+          info.description ?? '',
+        ];
+      }),
+    },
+  ];
+
+  return {
+    fileName: `index.${FILE_EXTENSIONS[format]}`,
+    content: render(blocks, 'Data products', format),
+  };
+}
+
+/**
+ * Check whether a string is a supported documentation format
+ */
+export function isDocsFormat(value: string): value is DocsFormat {
+  return (DOCS_FORMATS as readonly string[]).includes(value);
+}
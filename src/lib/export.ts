@@ -0,0 +1,67 @@
+/**
+ * Descriptor Export
+ *
+ * Serializes the descriptor edited in the web app for the clipboard or a
+ * downloaded file, with the output options of the export menu.
+ */
+
+import YAML from 'yaml';
+import { DocumentFormat, stringifyDocument } from './parse';
+import { normalizeDescriptor } from './normalize';
+
+/**
+ * Output options of an export
+ */
+export interface ExportOptions {
+  format: DocumentFormat;
+  /** Indented output, or a single line when false */
+  pretty: boolean;
+  /** Order keys as the object definitions of the specification */
+  canonical: boolean;
+  /** Drop empty strings, arrays and objects from optional properties */
+  pruneEmpty: boolean;
+}
+
+/**
+ * Serialize a descriptor for export
+ * Minified YAML uses the flow style, on a single line.
+ */
+export function serializeDescriptor(
+  data: unknown,
+  options: ExportOptions,
+): string {
+  const { format, pretty, canonical, pruneEmpty } = options;
+  const output =
+    canonical || pruneEmpty
+      ? normalizeDescriptor(data, { order: canonical, prune: pruneEmpty })
+      : data;
+
+  if (pretty) return stringifyDocument(output, format);
+  return format === 'yaml'
+    ? YAML.stringify(output, {
+        collectionStyle: 'flow',
+        lineWidth: 0,
+        flowCollectionPadding: false,
+      })
+    : JSON.stringify(output);
+}
+
+/**
+ * Name of the file a descriptor is downloaded as, from its name and version
+ * @example exportFileName(descriptor, 'yaml') // "tripExecution-1.2.0.yaml"
+ */
+export function exportFileName(data: unknown, format: DocumentFormat): string {
+  const info = (data as { info?: Record<string, unknown> } | null)?.info;
+  const part = (value: unknown) =>
+    typeof value === 'string'
+      ? value
+          .trim()
+          .replace(/[^\w.-]+/g, '-')
+          .replace(/^-+|-+$/g, '')
+      : '';
+
+  const base =
+    [part(info?.name), part(info?.version)].filter(Boolean).join('-') ||
+    'data-product';
+  return `${base}.${format === 'yaml' ? 'yaml' : 'json'}`;
+}
@@ -0,0 +1,83 @@
+/**
+ * Descriptor File Discovery
+ *
+ * Expands the paths given on the command line (files, directories and glob
+ * patterns) into the list of descriptor files to process.
+ */
+
+import * as fs from 'fs';
+import fg from 'fast-glob';
+import { detectFormat, parseDocument } from './parse';
+import { isObject } from './descriptor';
+
+/**
+ * File extensions recognized as data product descriptors
+ */
+export const DESCRIPTOR_EXTENSIONS = ['json', 'yaml', 'yml'];
+
+/**
+ * Directories never searched for descriptors
+ */
+const IGNORED_DIRECTORIES = ['**/node_modules/**', '**/.git/**'];
+
+/**
+ * Whether a file found in a directory or by a glob pattern is a descriptor:
+ * a document declaring `dataProductDescriptor`, unlike the ports and
+ * definitions it references from other files
+ * Files that can't be parsed are kept, so that the verifier reports them.
+ */
+async function isDescriptorFile(filePath: string): Promise<boolean> {
+  const content = await fs.promises.readFile(filePath, 'utf-8');
+  const parsed = parseDocument(content, detectFormat(filePath));
+  return (
+    !parsed.success ||
+    (isObject(parsed.data) && 'dataProductDescriptor' in parsed.data)
+  );
+}
+
+/**
+ * Expand files, directories and glob patterns into descriptor file paths
+ *
+ * Plain file paths are kept as they are (even when they don't exist, so that
+ * the verifier can report them), directories are searched recursively for
+ * descriptor files and glob patterns are expanded. Files found in
+ * directories or by patterns are only kept when they hold a descriptor, not
+ * a part of one written to its own file.
+ *
+ * @param inputs Paths or glob patterns
+ * @returns Unique, sorted list of file paths
+ */
+export async function resolveDescriptorPaths(
+  inputs: string[],
+): Promise<string[]> {
+  const files = new Set<string>();
+
+  for (const input of inputs) {
+    let patterns: string[];
+
+    if (fg.isDynamicPattern(input)) {
+      patterns = [input];
+    } else if (
+      fs.existsSync(input) &&
+      (await fs.promises.stat(input)).isDirectory()
+    ) {
+      const directory = fg.convertPathToPattern(input);
+      patterns = DESCRIPTOR_EXTENSIONS.map(
+        (extension) => `${directory}/**/*.${extension}`,
+      );
+    } else {
+      files.add(input);
+      continue;
+    }
+
+    const matches = await fg(patterns, {
+      ignore: IGNORED_DIRECTORIES,
+      onlyFiles: true,
+    });
+    for (const match of matches) {
+      if (await isDescriptorFile(match)) files.add(match);
+    }
+  }
+
+  return Array.from(files).sort();
+}
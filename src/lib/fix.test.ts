@@ -0,0 +1,144 @@
+import { describe, expect, it } from 'vitest';
+import { validDescriptor } from './__fixtures__/descriptors';
+import {
+  applyFixesToSource,
+  fixDataProduct,
+  normalizeVersion,
+  toCamelCase,
+} from './fix';
+import { verifyDataProduct } from './verify';
+
+const PRODUCT_FQN = 'urn:dpds:it.quantyca:dataproducts:tripExecution:1';
+
+describe('normalizeVersion', () => {
+  it('completes partial versions', () => {
+    expect(normalizeVersion('v1.2')).toBe('1.2.0');
+    expect(normalizeVersion('2')).toBe('2.0.0');
+    expect(normalizeVersion('1.0-beta')).toBe('1.0.0-beta');
+    expect(normalizeVersion('latest')).toBeUndefined();
+  });
+});
+
+describe('toCamelCase', () => {
+  it('converts words, kebab-case and PascalCase', () => {
+    expect(toCamelCase('Trip Execution')).toBe('tripExecution');
+    expect(toCamelCase('trip-execution')).toBe('tripExecution');
+    expect(toCamelCase('TripAPIDetails')).toBe('tripApiDetails');
+    expect(toCamelCase('123')).toBeUndefined();
+  });
+});
+
+describe('fixDataProduct', () => {
+  it('leaves valid descriptors untouched', () => {
+    const descriptor = validDescriptor();
+    expect(fixDataProduct(descriptor)).toEqual({ data: descriptor, fixes: [] });
+  });
+
+  it('completes versions without changing its input', () => {
+    const descriptor = validDescriptor();
+    descriptor.info.version = 'v1.2';
+
+    const { data, fixes } = fixDataProduct(descriptor);
+
+    expect(fixes).toEqual([
+      { rule: 'semver', path: ['info', 'version'], from: 'v1.2', to: '1.2.0' },
+    ]);
+    expect(data).toEqual(validDescriptor());
+    expect(descriptor.info.version).toBe('v1.2');
+  });
+
+  it('derives missing URNs from the namespace', () => {
+    const descriptor = validDescriptor();
+    descriptor.info.fullyQualifiedName = 'tripExecution';
+
+    const { data } = fixDataProduct(descriptor, {
+      namespace: 'it.quantyca',
+    });
+
+    expect(data).toEqual(validDescriptor());
+  });
+
+  it('keeps URNs in line with camelCased names', () => {
+    const descriptor = validDescriptor();
+    descriptor.info.name = 'trip-execution';
+    descriptor.info.fullyQualifiedName =
+      'urn:dpds:it.quantyca:dataproducts:trip-execution:1';
+    const [inputPort] = descriptor.interfaceComponents.inputPorts!;
+    const [outputPort] = descriptor.interfaceComponents.outputPorts;
+    if ('$ref' in inputPort || '$ref' in outputPort) {
+      throw new Error('Expected inline ports');
+    }
+    inputPort.fullyQualifiedName =
+      'urn:dpds:it.quantyca:dataproducts:trip-execution:1:inputports:tmsTripCDC';
+    outputPort.name = 'trip-details';
+    outputPort.fullyQualifiedName =
+      'urn:dpds:it.quantyca:dataproducts:trip-execution:1:outputports:trip-details';
+
+    const { data, fixes } = fixDataProduct(descriptor);
+
+    expect(data).toEqual(validDescriptor());
+    expect(fixes.map(({ rule }) => rule)).toEqual([
+      'camel-case-name',
+      'fully-qualified-name',
+      'fully-qualified-name',
+      'camel-case-name',
+      'fully-qualified-name',
+    ]);
+    expect(verifyDataProduct(data).isValid).toBe(true);
+  });
+
+  it('leaves URNs that did not contain the previous name', () => {
+    const descriptor = validDescriptor();
+    descriptor.info.name = 'Trip Execution';
+
+    const { data, fixes } = fixDataProduct(descriptor);
+
+    expect(fixes).toHaveLength(1);
+    expect(data).toMatchObject({
+      info: { name: 'tripExecution', fullyQualifiedName: PRODUCT_FQN },
+    });
+  });
+
+  it('updates the names internal components refer to', () => {
+    const descriptor = {
+      ...validDescriptor(),
+      internalComponents: {
+        applicationComponents: [
+          { name: 'Trip Loader', version: '1.0.0' },
+          { name: 'reporter', version: '1.0.0', dependsOn: ['Trip Loader'] },
+        ],
+      },
+    };
+
+    const { data } = fixDataProduct(descriptor);
+
+    expect(data).toMatchObject({
+      internalComponents: {
+        applicationComponents: [
+          { name: 'tripLoader' },
+          { dependsOn: ['tripLoader'] },
+        ],
+      },
+    });
+  });
+});
+
+describe('applyFixesToSource', () => {
+  it('changes only the fixed values of YAML documents', () => {
+    const source = [
+      '# Trip execution',
+      'dataProductDescriptor: 1.0.0',
+      'info:',
+      '  version: v1.2 # released in May',
+      '',
+    ].join('\n');
+    const { data, fixes } = fixDataProduct({
+      dataProductDescriptor: '1.0.0',
+      info: { version: 'v1.2' },
+    });
+
+    expect(applyFixesToSource(source, 'yaml', data, fixes)).toBe(
+      source.replace('v1.2', '1.2.0'),
+    );
+  });
+});
@@ -0,0 +1,399 @@
+/**
+ * Descriptor Autofix
+ *
+ * Rewrites mechanical mistakes in data product descriptors: versions that
+ * aren't full semver, names that aren't camelCase and missing or malformed
+ * fully qualified names. Fixes are only applied when the result is
+ * unambiguous; anything else is left for the verifier to report.
+ */
+
+import { DocumentFormat, updateDocumentSource } from './parse';
+import {
+  COMPONENT_KINDS,
+  isObject,
+  Json,
+  parseUrn,
+  PORT_KINDS,
+  STANDARD_DEFINITIONS,
+} from './descriptor';
+
+// ===============================================================
+// Types
+// ===============================================================
+
+/**
+ * A single change applied to a descriptor
+ */
+export interface DescriptorFix {
+  /** Name of the fix (e.g. `semver`) */
+  rule: string;
+  /** Path of the changed value */
+  path: (string | number)[];
+  from: unknown;
+  to: unknown;
+}
+
+/**
+ * Options for fixing a descriptor
+ */
+export interface FixOptions {
+  /**
+   * Mesh namespace used to derive fully qualified names when the descriptor
+   * doesn't already contain a valid one
+   */
+  namespace?: string;
+}
+
+/**
+ * Fields of application and infrastructural components holding names
+ */
+const NAME_REFERENCE_FIELDS = ['consumesFrom', 'providesTo', 'dependsOn'];
+
+const camelCaseRegex = /^[a-z][a-zA-Z0-9]*$/;
+const versionRegex = /^\d+\.\d+\.\d+(-[a-zA-Z0-9.]+)?(\+[a-zA-Z0-9.]+)?$/;
+
+// ===============================================================
+// Value Normalizers
+// ===============================================================
+
+/**
+ * Complete a partial semantic version
+ * @example normalizeVersion('v1.2') // '1.2.0'
+ * @returns The full version, or undefined when it can't be derived
+ */
+export function normalizeVersion(version: string): string | undefined {
+  const match =
+    /^v?(\d+)(?:\.(\d+))?(?:\.(\d+))?(-[a-zA-Z0-9.]+)?(\+[a-zA-Z0-9.]+)?$/i.exec(
+      version.trim(),
+    );
+  if (!match) return undefined;
+
+  const [, major, minor = '0', patch = '0', pre = '', build = ''] = match;
+  return `${Number(major)}.${Number(minor)}.${Number(patch)}${pre}${build}`;
+}
+
+/**
+ * Convert a name to camelCase
+ * @example toCamelCase('Trip Execution') // 'tripExecution'
+ * @returns The camelCase name, or undefined when it can't be derived
+ */
+export function toCamelCase(name: string): string | undefined {
+  const words = name
+    .trim()
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean);
+
+  const camelCase = words
+    .map((word, index) => {
+      const lower = word.toLowerCase();
+      return index === 0 ? lower : lower[0].toUpperCase() + lower.slice(1);
+    })
+    .join('');
+
+  return camelCaseRegex.test(camelCase) ? camelCase : undefined;
+}
+
+// ===============================================================
+// Fixer
+// ===============================================================
+
+/**
+ * State shared by the fix helpers while they mutate a copy of the descriptor
+ */
+interface FixContext {
+  fixes: DescriptorFix[];
+  /** Renamed ports and components, used to update name references */
+  renames: Map<string, string>;
+  options: FixOptions;
+}
+
+function applyFix(
+  context: FixContext,
+  target: Json,
+  key: string,
+  to: unknown,
+  rule: string,
+  path: (string | number)[],
+) {
+  context.fixes.push({ rule, path: [...path, key], from: target[key], to });
+  target[key] = to;
+}
+
+function fixVersion(
+  context: FixContext,
+  target: Json,
+  key: string,
+  path: (string | number)[],
+) {
+  const version = target[key];
+  if (typeof version !== 'string' || versionRegex.test(version)) return;
+
+  const normalized = normalizeVersion(version);
+  if (normalized) applyFix(context, target, key, normalized, 'semver', path);
+}
+
+function fixName(context: FixContext, entity: Json, path: (string | number)[]) {
+  const name = entity.name;
+  if (typeof name !== 'string' || camelCaseRegex.test(name)) return;
+
+  const camelCase = toCamelCase(name);
+  if (!camelCase) return;
+
+  applyFix(context, entity, 'name', camelCase, 'camel-case-name', path);
+  context.renames.set(name, camelCase);
+}
+
+function fixEntity(
+  context: FixContext,
+  entity: unknown,
+  path: (string | number)[],
+) {
+  if (!isObject(entity) || '$ref' in entity) return;
+
+  fixName(context, entity, path);
+  fixVersion(context, entity, 'version', path);
+}
+
+function fixPort(
+  context: FixContext,
+  port: unknown,
+  path: (string | number)[],
+) {
+  if (!isObject(port) || '$ref' in port) return;
+
+  fixEntity(context, port, path);
+
+  for (const [section, definitions] of Object.entries(STANDARD_DEFINITIONS)) {
+    const value = port[section];
+    if (!isObject(value)) continue;
+
+    definitions.forEach((definition) =>
+      fixEntity(context, value[definition], [...path, section, definition]),
+    );
+  }
+}
+
+/**
+ * Fix the fully qualified name of a port
+ * A valid name is only replaced when it was consistent with the product URN
+ * and port name before they were fixed.
+ * @param previous The product URN and port name before they were fixed
+ */
+function fixPortFqn(
+  context: FixContext,
+  port: unknown,
+  kind: 'inputPorts' | 'outputPorts',
+  productFqn: string,
+  previous: { productFqn: unknown; name: unknown },
+  path: (string | number)[],
+) {
+  if (!isObject(port) || '$ref' in port) return;
+
+  const fqn = port.fullyQualifiedName;
+  if (fqn === undefined || typeof port.name !== 'string') return;
+
+  const expected = `${productFqn}:${kind.toLowerCase()}:${port.name}`;
+  if (parseUrn(fqn)?.port) {
+    const previousFqn = `${previous.productFqn}:${kind.toLowerCase()}:${previous.name}`;
+    if (fqn !== previousFqn || fqn === expected) return;
+  }
+
+  applyFix(
+    context,
+    port,
+    'fullyQualifiedName',
+    expected,
+    'fully-qualified-name',
+    path,
+  );
+}
+
+/**
+ * Fix the info object
+ * @returns The product URN, when valid or derived
+ */
+function fixInfo(context: FixContext, descriptor: Json): string | undefined {
+  const info = descriptor.info;
+  if (!isObject(info)) return undefined;
+
+  const previousName = info.name;
+  fixName(context, info, ['info']);
+  fixVersion(context, info, 'version', ['info']);
+
+  const fqn = info.fullyQualifiedName;
+  const urn = parseUrn(fqn);
+  if (typeof fqn === 'string' && urn && !urn.port) {
+    // Follow the camelCased name when the URN contained the previous one
+    if (info.name === previousName || urn.name !== previousName) return fqn;
+
+    const renamed = `urn:dpds:${urn.namespace}:dataproducts:${info.name}:${urn.major}`;
+    applyFix(
+      context,
+      info,
+      'fullyQualifiedName',
+      renamed,
+      'fully-qualified-name',
+      ['info'],
+    );
+    return renamed;
+  }
+
+  // Derive the URN from the namespace, name and major version
+  const namespace =
+    (typeof fqn === 'string' && /^urn:dpds:([^:]+):/.exec(fqn)?.[1]) ||
+    context.options.namespace;
+  const name = info.name;
+  const major =
+    typeof info.version === 'string' && versionRegex.test(info.version)
+      ? info.version.split('.')[0]
+      : undefined;
+
+  if (!namespace || typeof name !== 'string' || !major) return undefined;
+
+  const expected = `urn:dpds:${namespace}:dataproducts:${name}:${major}`;
+  if (!parseUrn(expected)) return undefined;
+
+  applyFix(
+    context,
+    info,
+    'fullyQualifiedName',
+    expected,
+    'fully-qualified-name',
+    ['info'],
+  );
+  return expected;
+}
+
+/**
+ * Replace renamed names in consumesFrom/providesTo/dependsOn
+ */
+function fixNameReferences(
+  context: FixContext,
+  component: unknown,
+  path: (string | number)[],
+) {
+  if (!isObject(component)) return;
+
+  NAME_REFERENCE_FIELDS.forEach((field) => {
+    const names = component[field];
+    if (!Array.isArray(names)) return;
+
+    names.forEach((name, index) => {
+      const renamed = typeof name === 'string' && context.renames.get(name);
+      if (!renamed) return;
+
+      context.fixes.push({
+        rule: 'camel-case-name',
+        path: [...path, field, index],
+        from: name,
+        to: renamed,
+      });
+      names[index] = renamed;
+    });
+  });
+}
+
+/**
+ * Fix common mistakes in a descriptor
+ * @param data The descriptor data (it is not modified)
+ * @param options Fix options
+ * @returns The fixed descriptor and the list of applied fixes
+ */
+export function fixDataProduct(
+  data: unknown,
+  options: FixOptions = {},
+): { data: unknown; fixes: DescriptorFix[] } {
+  if (!isObject(data)) return { data, fixes: [] };
+
+  const descriptor = structuredClone(data);
+  const context: FixContext = { fixes: [], renames: new Map(), options };
+
+  fixVersion(context, descriptor, 'dataProductDescriptor', []);
+  const previousProductFqn = isObject(descriptor.info)
+    ? descriptor.info.fullyQualifiedName
+    : undefined;
+  const productFqn = fixInfo(context, descriptor);
+
+  const interfaceComponents = descriptor.interfaceComponents;
+  if (isObject(interfaceComponents)) {
+    PORT_KINDS.forEach((kind) => {
+      const ports = interfaceComponents[kind];
+      if (!Array.isArray(ports)) return;
+
+      ports.forEach((port, index) => {
+        const path = ['interfaceComponents', kind, index];
+        const previous = {
+          productFqn: previousProductFqn,
+          name: isObject(port) ? port.name : undefined,
+        };
+        fixPort(context, port, path);
+        if (productFqn && (kind === 'inputPorts' || kind === 'outputPorts')) {
+          fixPortFqn(context, port, kind, productFqn, previous, path);
+        }
+      });
+    });
+  }
+
+  const internalComponents = descriptor.internalComponents;
+  const internalComponentLists = isObject(internalComponents)
+    ? COMPONENT_KINDS.map((kind) => ({ kind, list: internalComponents[kind] }))
+    : [];
+
+  internalComponentLists.forEach(({ kind, list }) => {
+    if (!Array.isArray(list)) return;
+    list.forEach((component, index) =>
+      fixEntity(context, component, ['internalComponents', kind, index]),
+    );
+  });
+
+  const components = descriptor.components;
+  if (isObject(components)) {
+    [...PORT_KINDS, ...COMPONENT_KINDS].forEach((kind) => {
+      const entries = components[kind];
+      if (!isObject(entries)) return;
+
+      Object.entries(entries).forEach(([key, entity]) =>
+        fixPort(context, entity, ['components', kind, key]),
+      );
+    });
+  }
+
+  // Update references to renamed ports and components
+  internalComponentLists.forEach(({ kind, list }) => {
+    if (!Array.isArray(list)) return;
+    list.forEach((component, index) =>
+      fixNameReferences(context, component, [
+        'internalComponents',
+        kind,
+        index,
+      ]),
+    );
+  });
+
+  return { data: descriptor, fixes: context.fixes };
+}
+
+/**
+ * Apply fixes to the text of a descriptor
+ * @see parse.ts updateDocumentSource
+ *
+ * @param source Original text
+ * @param format Format of the text
+ * @param data The fixed descriptor data
+ * @param fixes Fixes applied to the data
+ * @returns The updated text
+ */
+export function applyFixesToSource(
+  source: string,
+  format: DocumentFormat,
+  data: unknown,
+  fixes: DescriptorFix[],
+): string {
+  if (fixes.length === 0) return source;
+
+  return updateDocumentSource(source, format, data, (document) =>
+    fixes.forEach((fix) => document.setIn(fix.path, fix.to)),
+  );
+}
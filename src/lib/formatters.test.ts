@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { FileReport, formatReports, toJsonPath } from './formatters';
+import { createVerificationResult } from './verify';
+
+const reports: FileReport[] = [
+  { filePath: 'valid.json', result: createVerificationResult([]) },
+  {
+    filePath: 'invalid.json',
+    result: createVerificationResult([
+      {
+        severity: 'error',
+        rule: 'schema',
+        path: ['info', 'name'],
+        message: 'Required',
+        line: 3,
+        column: 5,
+      },
+      {
+        severity: 'warning',
+        rule: 'contact-points',
+        path: ['info'],
+        message: 'No contact points defined for the data product',
+      },
+    ]),
+  },
+];
+
+describe('toJsonPath', () => {
+  it('uses brackets for indexes and keys that are not identifiers', () => {
+    expect(toJsonPath(['interfaceComponents', 'outputPorts', 0, 'name'])).toBe(
+      '$.interfaceComponents.outputPorts[0].name',
+    );
+    expect(toJsonPath(['components', "trip's-port"])).toBe(
+      "$.components['trip\\'s-port']",
+    );
+  });
+});
+
+describe('formatReports', () => {
+  it('summarizes the files in JSON', () => {
+    const output = JSON.parse(formatReports(reports, 'json'));
+
+    expect(output.summary).toEqual({
+      files: 2,
+      valid: 1,
+      invalid: 1,
+      errors: 1,
+      warnings: 1,
+    });
+    expect(output.files[1].errors).toEqual([
+      {
+        rule: 'schema',
+        path: '$.info.name',
+        message: 'Required',
+        line: 3,
+        column: 5,
+      },
+    ]);
+  });
+
+  it('reports each issue with its rule and region in SARIF', () => {
+    const [run] = JSON.parse(formatReports(reports, 'sarif')).runs;
+
+    expect(run.tool.driver.rules).toEqual([
+      { id: 'contact-points' },
+      { id: 'schema' },
+    ]);
+    expect(run.results[0]).toMatchObject({
+      ruleId: 'schema',
+      ruleIndex: 1,
+      level: 'error',
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri: 'invalid.json' },
+            region: { startLine: 3, startColumn: 5 },
+          },
+        },
+      ],
+    });
+  });
+
+  it('fails the JUnit test cases of invalid files', () => {
+    const output = formatReports(reports, 'junit');
+
+    expect(output).toContain('tests="2" failures="1"');
+    expect(output).toContain(
+      '<failure message="1 error(s)" type="schema">[schema] invalid.json:3:5 info.name: Required</failure>',
+    );
+    expect(output).toContain(
+      '<system-out>[contact-points] info: No contact points defined for the data product</system-out>',
+    );
+  });
+
+  it('adds a summary table to the text output of several files', () => {
+    const output = formatReports(reports, 'text');
+
+    expect(output).toContain('- invalid.json:3:5 info.name: Required');
+    expect(output).toContain(
+      '2 files: 1 valid, 1 invalid, 1 errors, 1 warnings',
+    );
+  });
+});
@@ -0,0 +1,363 @@
+/**
+ * Verification Output Formatters
+ *
+ * Serializes verification results either as human readable text or in
+ * machine-readable formats (JSON, SARIF, JUnit) that CI systems can consume.
+ */
+
+import { version } from '../../package.json';
+import { formatCodeFrame } from './locations';
+import type { DataProductDescriptor } from '../types';
+import type { VerificationIssue, VerificationResult } from './verify';
+
+// ===============================================================
+// Types
+// ===============================================================
+
+/**
+ * Supported output formats
+ */
+export const OUTPUT_FORMATS = ['text', 'json', 'sarif', 'junit'] as const;
+
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+/**
+ * Verification result of a single file
+ */
+export interface FileReport {
+  filePath: string;
+  result: VerificationResult;
+  /** Content of the file, used to render code frames */
+  source?: string;
+  /** Descriptor data, when valid */
+  data?: DataProductDescriptor | null;
+}
+
+/**
+ * Options for formatting reports
+ */
+export interface FormatOptions {
+  /** Whether best practices were checked (affects text output only) */
+  strict?: boolean;
+}
+
+const TOOL_NAME = 'dpds-verify';
+const TOOL_URI = 'https://dpds.opendatamesh.org/specifications/dpds/1.0.0/';
+
+// ===============================================================
+// Helpers
+// ===============================================================
+
+/**
+ * Check whether a string is a supported output format
+ */
+export function isOutputFormat(value: string): value is OutputFormat {
+  return (OUTPUT_FORMATS as readonly string[]).includes(value);
+}
+
+/**
+ * Format an issue path the same way it is shown in error messages
+ * @param path Path segments
+ * @returns Dotted path (e.g. `interfaceComponents.outputPorts.0.name`)
+ */
+export function formatIssuePath(path: (string | number)[]): string {
+  return path.join('.');
+}
+
+/**
+ * Convert an issue path into a JSONPath expression
+ * @param path Path segments
+ * @returns JSONPath (e.g. `$.interfaceComponents.outputPorts[0].name`)
+ */
+export function toJsonPath(path: (string | number)[]): string {
+  return path.reduce<string>((jsonPath, segment) => {
+    if (typeof segment === 'number') return `${jsonPath}[${segment}]`;
+    if (/^[A-Za-z_$][\w$]*$/.test(segment)) return `${jsonPath}.${segment}`;
+    return `${jsonPath}['${segment.replace(/'/g, "\\'")}']`;
+  }, '$');
+}
+
+/**
+ * Escape a string for use in XML text and attribute values
+ */
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Render an issue as a single message line, prefixed with its path
+ */
+export function formatIssueMessage(issue: VerificationIssue): string {
+  const path = formatIssuePath(issue.path);
+  return path ? `${path}: ${issue.message}` : issue.message;
+}
+
+function issuesBySeverity(
+  result: VerificationResult,
+  severity: VerificationIssue['severity'],
+): VerificationIssue[] {
+  return result.issues.filter((issue) => issue.severity === severity);
+}
+
+// ===============================================================
+// Formatters
+// ===============================================================
+
+/**
+ * Human readable output, as printed by the CLI
+ */
+function formatText(reports: FileReport[], options: FormatOptions): string {
+  const lines: string[] = [];
+
+  reports.forEach(({ filePath, result, source }) => {
+    lines.push(`Verifying: ${filePath}`);
+    lines.push('----------------------------------------');
+
+    // Prefix each issue with its file:line:col location, when known
+    const issueLines = (issue: VerificationIssue, withFrame: boolean) => {
+      const location =
+        issue.line !== undefined
+          ? `${filePath}:${issue.line}:${issue.column} `
+          : '';
+      const entry = [`- ${location}${formatIssueMessage(issue)}`];
+
+      if (withFrame && source !== undefined && issue.line !== undefined) {
+        const frame = formatCodeFrame(source, {
+          line: issue.line,
+          column: issue.column ?? 1,
+        });
+        entry.push(frame.replace(/^/gm, '    '));
+      }
+
+      return entry;
+    };
+
+    const warnings = issuesBySeverity(result, 'warning');
+
+    if (result.isValid) {
+      lines.push('✅ Verification successful!');
+
+      if (options.strict && warnings.length === 0) {
+        lines.push('✓ Best practices check passed');
+      }
+    } else {
+      lines.push('❌ Verification failed!');
+      lines.push('\nErrors:');
+      issuesBySeverity(result, 'error').forEach((error) =>
+        lines.push(...issueLines(error, true)),
+      );
+    }
+
+    if (warnings.length > 0) {
+      lines.push('\n⚠️ Warnings:');
+      warnings.forEach((warning) => lines.push(...issueLines(warning, false)));
+    }
+
+    lines.push('');
+  });
+
+  if (reports.length > 1) {
+    lines.push(formatSummaryTable(reports));
+  }
+
+  return lines.join('\n').trimEnd();
+}
+
+/**
+ * Per-file summary table followed by the aggregate counts
+ */
+function formatSummaryTable(reports: FileReport[]): string {
+  const rows = reports.map(({ filePath, result }) => [
+    filePath,
+    result.isValid ? 'valid' : 'invalid',
+    String(issuesBySeverity(result, 'error').length),
+    String(issuesBySeverity(result, 'warning').length),
+  ]);
+  const header = ['File', 'Status', 'Errors', 'Warnings'];
+  const widths = header.map((title, column) =>
+    Math.max(title.length, ...rows.map((row) => row[column].length)),
+  );
+  const formatRow = (row: string[]) =>
+    row
+      .map((cell, column) => cell.padEnd(widths[column]))
+      .join('  ')
+      .trimEnd();
+
+  const invalid = rows.filter((row) => row[1] === 'invalid').length;
+  const errors = rows.reduce((sum, row) => sum + Number(row[2]), 0);
+  const warnings = rows.reduce((sum, row) => sum + Number(row[3]), 0);
+
+  return [
+    'Summary',
+    '----------------------------------------',
+    formatRow(header),
+    formatRow(widths.map((width) => '-'.repeat(width))),
+    ...rows.map(formatRow),
+    '',
+    `${reports.length} files: ${reports.length - invalid} valid, ${invalid} invalid, ${errors} errors, ${warnings} warnings`,
+  ].join('\n');
+}
+
+/**
+ * JSON output with one entry per file and aggregate counts
+ */
+function formatJson(reports: FileReport[]): string {
+  const toJsonIssue = (issue: VerificationIssue) => ({
+    rule: issue.rule,
+    path: toJsonPath(issue.path),
+    message: issue.message,
+    line: issue.line,
+    column: issue.column,
+  });
+
+  const files = reports.map(({ filePath, result }) => ({
+    file: filePath,
+    valid: result.isValid,
+    errors: issuesBySeverity(result, 'error').map(toJsonIssue),
+    warnings: issuesBySeverity(result, 'warning').map(toJsonIssue),
+  }));
+
+  const summary = {
+    files: files.length,
+    valid: files.filter((file) => file.valid).length,
+    invalid: files.filter((file) => !file.valid).length,
+    errors: files.reduce((sum, file) => sum + file.errors.length, 0),
+    warnings: files.reduce((sum, file) => sum + file.warnings.length, 0),
+  };
+
+  return JSON.stringify({ files, summary }, null, 2);
+}
+
+/**
+ * SARIF 2.1.0 output, understood by code scanning tools
+ * @see https://docs.oasis-open.org/sarif/sarif/v2.1.0/sarif-v2.1.0.html
+ */
+function formatSarif(reports: FileReport[]): string {
+  const ruleIds = Array.from(
+    new Set(reports.flatMap(({ result }) => result.issues.map((i) => i.rule))),
+  ).sort();
+
+  const results = reports.flatMap(({ filePath, result }) =>
+    result.issues.map((issue) => ({
+      ruleId: issue.rule,
+      ruleIndex: ruleIds.indexOf(issue.rule),
+      level: issue.severity,
+      message: { text: formatIssueMessage(issue) },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri: filePath.replace(/\\/g, '/') },
+            ...(issue.line !== undefined && {
+              region: { startLine: issue.line, startColumn: issue.column },
+            }),
+          },
+          ...(issue.path.length > 0 && {
+            logicalLocations: [
+              { fullyQualifiedName: toJsonPath(issue.path), kind: 'member' },
+            ],
+          }),
+        },
+      ],
+    })),
+  );
+
+  const sarif = {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: TOOL_NAME,
+            version,
+            informationUri: TOOL_URI,
+            rules: ruleIds.map((id) => ({ id })),
+          },
+        },
+        results,
+      },
+    ],
+  };
+
+  return JSON.stringify(sarif, null, 2);
+}
+
+/**
+ * JUnit XML output, with one test case per file
+ */
+function formatJunit(reports: FileReport[]): string {
+  const failures = reports.filter(({ result }) => !result.isValid).length;
+
+  const testCases = reports.map(({ filePath, result }) => {
+    const errors = issuesBySeverity(result, 'error');
+    const warnings = issuesBySeverity(result, 'warning');
+    const lines = [
+      `    <testcase classname="${TOOL_NAME}" name="${escapeXml(filePath)}">`,
+    ];
+    const describe = (issue: VerificationIssue) => {
+      const location =
+        issue.line !== undefined
+          ? `${filePath}:${issue.line}:${issue.column} `
+          : '';
+      return `[${issue.rule}] ${location}${formatIssueMessage(issue)}`;
+    };
+
+    if (errors.length > 0) {
+      const rules = Array.from(new Set(errors.map((e) => e.rule))).join(',');
+      const body = errors.map(describe);
+      lines.push(
+        `      <failure message="${errors.length} error(s)" type="${escapeXml(
+          rules,
+        )}">${escapeXml(body.join('\n'))}</failure>`,
+      );
+    }
+
+    if (warnings.length > 0) {
+      const body = warnings.map(describe);
+      lines.push(
+        `      <system-out>${escapeXml(body.join('\n'))}</system-out>`,
+      );
+    }
+
+    lines.push('    </testcase>');
+    return lines.join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="${TOOL_NAME}" tests="${reports.length}" failures="${failures}">`,
+    `  <testsuite name="${TOOL_NAME}" tests="${reports.length}" failures="${failures}" errors="0" skipped="0">`,
+    ...testCases,
+    '  </testsuite>',
+    '</testsuites>',
+  ].join('\n');
+}
+
+/**
+ * Serialize verification reports into the requested output format
+ * @param reports Verification results, one per file
+ * @param format Output format
+ * @param options Formatting options
+ * @returns The serialized output
+ */
+export function formatReports(
+  reports: FileReport[],
+  format: OutputFormat,
+  options: FormatOptions = {},
+): string {
+  switch (format) {
+    case 'json':
+      return formatJson(reports);
+    case 'sarif':
+      return formatSarif(reports);
+    case 'junit':
+      return formatJunit(reports);
+    case 'text':
+      return formatText(reports, options);
+  }
+}
@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest';
+import type { DataProductDescriptor } from '../types';
+import {
+  consumerDescriptor,
+  validDescriptor,
+} from './__fixtures__/descriptors';
+import { buildLineageGraph, formatGraph } from './graph';
+
+const PRODUCT = 'urn:dpds:it.quantyca:dataproducts:tripExecution:1';
+const TRIP_DETAILS = `${PRODUCT}:outputports:tripDetails`;
+const BILLING = 'urn:dpds:it.quantyca:dataproducts:billing:1';
+
+/**
+ * The fixture, with an application component between its ports
+ */
+function descriptorWithComponents(): DataProductDescriptor {
+  return {
+    ...validDescriptor(),
+    internalComponents: {
+      applicationComponents: [
+        {
+          name: 'tripLoader',
+          version: '1.0.0',
+          consumesFrom: ['tmsTripCDC'],
+          providesTo: [TRIP_DETAILS],
+          dependsOn: ['tripStore'],
+        },
+      ],
+      infrastructuralComponents: [{ name: 'tripStore', version: '1.0.0' }],
+    },
+  };
+}
+
+/**
+ * A graph of a single product consuming an output port outside of it
+ */
+const consumerGraph = () =>
+  buildLineageGraph([
+    { filePath: 'billing.json', descriptor: consumerDescriptor(TRIP_DETAILS) },
+  ]);
+
+describe('buildLineageGraph', () => {
+  it('connects ports and components within a product', () => {
+    const graph = buildLineageGraph([
+      { filePath: 'trips.json', descriptor: descriptorWithComponents() },
+    ]);
+
+    expect(graph.nodes.map(({ id }) => id)).toEqual([
+      PRODUCT,
+      `${PRODUCT}:inputports:tmsTripCDC`,
+      TRIP_DETAILS,
+      `${PRODUCT}:applicationcomponents:tripLoader`,
+      `${PRODUCT}:infrastructuralcomponents:tripStore`,
+    ]);
+    expect(graph.edges).toEqual([
+      { from: `${PRODUCT}:inputports:tmsTripCDC`, to: PRODUCT, kind: 'port' },
+      { from: PRODUCT, to: TRIP_DETAILS, kind: 'port' },
+      {
+        from: `${PRODUCT}:inputports:tmsTripCDC`,
+        to: `${PRODUCT}:applicationcomponents:tripLoader`,
+        kind: 'consumesFrom',
+      },
+      {
+        from: `${PRODUCT}:applicationcomponents:tripLoader`,
+        to: TRIP_DETAILS,
+        kind: 'providesTo',
+      },
+      {
+        from: `${PRODUCT}:applicationcomponents:tripLoader`,
+        to: `${PRODUCT}:infrastructuralcomponents:tripStore`,
+        kind: 'dependsOn',
+      },
+    ]);
+  });
+
+  it('connects input ports to the output ports of other products', () => {
+    const graph = buildLineageGraph([
+      {
+        filePath: 'billing.json',
+        descriptor: consumerDescriptor(TRIP_DETAILS),
+      },
+      { filePath: 'trips.json', descriptor: validDescriptor() },
+    ]);
+
+    expect(graph.nodes.some(({ external }) => external)).toBe(false);
+    expect(graph.edges).toContainEqual({
+      from: TRIP_DETAILS,
+      to: `${BILLING}:inputports:trips`,
+      kind: 'consumes',
+    });
+  });
+
+  it('adds output ports outside of the graph as external nodes', () => {
+    expect(consumerGraph().nodes[2]).toEqual({
+      id: TRIP_DETAILS,
+      kind: 'port',
+      label: TRIP_DETAILS,
+      section: 'outputPorts',
+      external: true,
+    });
+  });
+});
+
+describe('formatGraph', () => {
+  it('renders Graphviz DOT with a cluster per product', () => {
+    expect(formatGraph(consumerGraph(), 'dot')).toBe(
+      [
+        'digraph lineage {',
+        '  rankdir=LR;',
+        '  subgraph cluster_0 {',
+        '    label="billing 1.0.0";',
+        `    "${BILLING}" [label="billing 1.0.0", shape=box, style=bold];`,
+        `    "${BILLING}:inputports:trips" [label="trips", shape=ellipse];`,
+        '  }',
+        `  "${TRIP_DETAILS}" [label="${TRIP_DETAILS}", shape=ellipse, style=dashed];`,
+        `  "${BILLING}:inputports:trips" -> "${BILLING}";`,
+        `  "${TRIP_DETAILS}" -> "${BILLING}:inputports:trips" [label="consumes"];`,
+        '}',
+      ].join('\n'),
+    );
+  });
+
+  it('renders a Mermaid flowchart with a subgraph per product', () => {
+    expect(formatGraph(consumerGraph(), 'mermaid')).toBe(
+      [
+        'flowchart LR',
+        '  subgraph p0["billing 1.0.0"]',
+        '    n0[["billing 1.0.0"]]',
+        '    n1(["trips"])',
+        '  end',
+        `  n2(["${TRIP_DETAILS}"])`,
+        '  n1 --> n0',
+        '  n2 -->|consumes| n1',
+      ].join('\n'),
+    );
+  });
+
+  it('renders JSON nodes with their outgoing edges', () => {
+    const json = JSON.parse(formatGraph(consumerGraph(), 'json'));
+
+    expect(json.nodes).toHaveLength(3);
+    expect(json.adjacency).toEqual({
+      [BILLING]: [],
+      [`${BILLING}:inputports:trips`]: [{ to: BILLING, kind: 'port' }],
+      [TRIP_DETAILS]: [{ to: `${BILLING}:inputports:trips`, kind: 'consumes' }],
+    });
+  });
+});
@@ -0,0 +1,356 @@
+/**
+ * Lineage Graph
+ *
+ * Turns a set of descriptors into a graph of data products, ports and
+ * internal components, connected by input port FQNs, `consumesFrom`,
+ * `providesTo` and `dependsOn`, and exports it as Graphviz DOT, Mermaid or
+ * a JSON adjacency list.
+ */
+
+import * as path from 'path';
+import type {
+  ApplicationComponent,
+  Entity,
+  InfrastructuralComponent,
+  Port,
+} from '../types';
+import type { MeshProduct } from './mesh';
+import { createReferenceResolver, resolveEntity } from './references';
+import { COMPONENT_KINDS, parseUrn, PORT_KINDS } from './descriptor';
+
+// ===============================================================
+// Types
+// ===============================================================
+
+/**
+ * Supported graph formats
+ */
+export const GRAPH_FORMATS = ['dot', 'mermaid', 'json'] as const;
+
+export type GraphFormat = (typeof GRAPH_FORMATS)[number];
+
+export type GraphNodeKind = 'product' | 'port' | 'component';
+
+/**
+ * A node of the lineage graph
+ */
+export interface GraphNode {
+  /**
+   * Product fully qualified name, followed for ports and components by
+   * `:{section}:{name}` (e.g. `...:tripExecution:1:outputports:tripDetails`)
+   */
+  id: string;
+  kind: GraphNodeKind;
+  label: string;
+  /** Id of the product the node belongs to, undefined for products */
+  product?: string;
+  /** Descriptor section of ports and components (e.g. `outputPorts`) */
+  section?: string;
+  /** Output port referenced by an input port but not part of the graph */
+  external?: boolean;
+}
+
+/**
+ * How two nodes are connected
+ * - port: a product and one of its ports, in the direction data flows
+ * - consumes: an output port read by an input port of another product
+ * - consumesFrom, providesTo, dependsOn: internal component relations
+ */
+export type GraphEdgeKind =
+  'port' | 'consumes' | 'consumesFrom' | 'providesTo' | 'dependsOn';
+
+/**
+ * A directed edge of the lineage graph
+ */
+export interface GraphEdge {
+  from: string;
+  to: string;
+  kind: GraphEdgeKind;
+}
+
+export interface LineageGraph {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+}
+
+// ===============================================================
+// Graph
+// ===============================================================
+
+/**
+ * Build the lineage graph of a set of descriptors
+ *
+ * @param products Structurally valid descriptors
+ * @returns The graph, with nodes in descriptor order
+ */
+export function buildLineageGraph(products: MeshProduct[]): LineageGraph {
+  const nodes = new Map<string, GraphNode>();
+  const edges: GraphEdge[] = [];
+  const edgeKeys = new Set<string>();
+
+  const addNode = (node: GraphNode) => {
+    if (!nodes.has(node.id)) nodes.set(node.id, node);
+  };
+  const addEdge = (edge: GraphEdge) => {
+    const key = `${edge.from}\u0000${edge.to}\u0000${edge.kind}`;
+    if (edgeKeys.has(key)) return;
+    edgeKeys.add(key);
+    edges.push(edge);
+  };
+
+  // Input ports pointing to output ports, connected once every product is known
+  const consumers: { port: string; target: string }[] = [];
+
+  products.forEach(({ filePath, descriptor }) => {
+    const { info } = descriptor;
+    const productId = info.fullyQualifiedName || info.name;
+    const resolve = createReferenceResolver(descriptor, {
+      baseDir: path.dirname(filePath),
+    });
+
+    addNode({
+      id: productId,
+      kind: 'product',
+      label: `${info.name} ${info.version}`,
+    });
+
+    // Ports and components by name and fully qualified name
+    const localIds = new Map<string, string>();
+
+    PORT_KINDS.forEach((section) =>
+      descriptor.interfaceComponents[section]?.forEach((value) => {
+        const port = resolveEntity<Entity & Port>(value, resolve);
+        if (!port?.name) return;
+
+        const urnKind = section.toLowerCase();
+        const id = `${productId}:${urnKind}:${port.name}`;
+        addNode({
+          id,
+          kind: 'port',
+          label: port.name,
+          product: productId,
+          section,
+        });
+        [port.name, port.fullyQualifiedName].forEach(
+          (key) => key && localIds.set(key, id),
+        );
+
+        if (section === 'inputPorts') {
+          addEdge({ from: id, to: productId, kind: 'port' });
+          if (parseUrn(port.fullyQualifiedName)?.portKind === 'outputports') {
+            consumers.push({ port: id, target: port.fullyQualifiedName! });
+          }
+        } else {
+          addEdge({ from: productId, to: id, kind: 'port' });
+        }
+      }),
+    );
+
+    const components: (ApplicationComponent | InfrastructuralComponent)[] = [];
+    COMPONENT_KINDS.forEach((section) =>
+      descriptor.internalComponents?.[section]?.forEach((value) => {
+        const component = resolveEntity<
+          ApplicationComponent | InfrastructuralComponent
+        >(value, resolve);
+        if (!component?.name) return;
+
+        const id = `${productId}:${section.toLowerCase()}:${component.name}`;
+        addNode({
+          id,
+          kind: 'component',
+          label: component.name,
+          product: productId,
+          section,
+        });
+        [component.name, component.fullyQualifiedName].forEach(
+          (key) => key && localIds.set(key, id),
+        );
+        components.push(component);
+      }),
+    );
+
+    // Component relations, once every local name is known
+    components.forEach((component) => {
+      const id = localIds.get(component.name)!;
+      const connect = (
+        names: string[] | undefined,
+        kind: GraphEdgeKind,
+        outgoing: boolean,
+      ) =>
+        names?.forEach((name) => {
+          const other = localIds.get(name);
+          if (!other) return;
+          addEdge(
+            outgoing
+              ? { from: id, to: other, kind }
+              : { from: other, to: id, kind },
+          );
+        });
+
+      connect(
+        (component as ApplicationComponent).consumesFrom,
+        'consumesFrom',
+        false,
+      );
+      connect(
+        (component as ApplicationComponent).providesTo,
+        'providesTo',
+        true,
+      );
+      connect(component.dependsOn, 'dependsOn', true);
+    });
+  });
+
+  consumers.forEach(({ port, target }) => {
+    if (!nodes.has(target)) {
+      addNode({
+        id: target,
+        kind: 'port',
+        label: target,
+        section: 'outputPorts',
+        external: true,
+      });
+    }
+    addEdge({ from: target, to: port, kind: 'consumes' });
+  });
+
+  return { nodes: Array.from(nodes.values()), edges };
+}
+
+// ===============================================================
+// Formats
+// ===============================================================
+
+/**
+ * Nodes grouped by the product they belong to
+ * @returns Products in graph order with their nodes, and nodes outside
+ * any product
+ */
+function groupByProduct(graph: LineageGraph) {
+  const products = graph.nodes.filter(({ kind }) => kind === 'product');
+  const groups = products.map((product) => ({
+    product,
+    members: graph.nodes.filter((node) => node.product === product.id),
+  }));
+  const external = graph.nodes.filter(
+    (node) => node.kind !== 'product' && !node.product,
+  );
+  return { groups, external };
+}
+
+/**
+ * Render the graph in Graphviz DOT, one cluster per product
+ */
+function formatDot(graph: LineageGraph): string {
+  const quote = (value: string) =>
+    `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+  const shapes: Record<GraphNodeKind, string> = {
+    product: 'box, style=bold',
+    port: 'ellipse',
+    component: 'box, style=rounded',
+  };
+  const node = ({ id, kind, label, external }: GraphNode) =>
+    `${quote(id)} [label=${quote(label)}, shape=${shapes[kind]}${
+      external ? ', style=dashed' : ''
+    }];`;
+
+  const { groups, external } = groupByProduct(graph);
+  const lines = ['digraph lineage {', '  rankdir=LR;'];
+
+  groups.forEach(({ product, members }, index) => {
+    lines.push(`  subgraph cluster_${index} {`);
+    lines.push(`    label=${quote(product.label)};`);
+    lines.push(`    ${node(product)}`);
+    members.forEach((member) => lines.push(`    ${node(member)}`));
+    lines.push('  }');
+  });
+  external.forEach((member) => lines.push(`  ${node(member)}`));
+
+  graph.edges.forEach(({ from, to, kind }) =>
+    lines.push(
+      kind === 'port'
+        ? `  ${quote(from)} -> ${quote(to)};`
+        : `  ${quote(from)} -> ${quote(to)} [label=${quote(kind)}];`,
+    ),
+  );
+
+  lines.push('}');
+  return lines.join('\n');
+}
+
+/**
+ * Render the graph as a Mermaid flowchart, one subgraph per product
+ */
+function formatMermaid(graph: LineageGraph): string {
+  // Mermaid ids can't hold URN characters
+  const ids = new Map(graph.nodes.map(({ id }, index) => [id, `n${index}`]));
+  const text = (value: string) => `"${value.replace(/"/g, '#quot;')}"`;
+  const node = ({ id, kind, label }: GraphNode) => {
+    const shape =
+      kind === 'product'
+        ? `[[${text(label)}]]`
+        : kind === 'port'
+          ? `([${text(label)}])`
+          : `(${text(label)})`;
+    return `${ids.get(id)}${shape}`;
+  };
+
+  const { groups, external } = groupByProduct(graph);
+  const lines = ['flowchart LR'];
+
+  groups.forEach(({ product, members }, index) => {
+    lines.push(`  subgraph p${index}[${text(product.label)}]`);
+    lines.push(`    ${node(product)}`);
+    members.forEach((member) => lines.push(`    ${node(member)}`));
+    lines.push('  end');
+  });
+  external.forEach((member) => lines.push(`  ${node(member)}`));
+
+  graph.edges.forEach(({ from, to, kind }) =>
+    lines.push(
+      kind === 'port'
+        ? `  ${ids.get(from)} --> ${ids.get(to)}`
+        : `  ${ids.get(from)} -->|${kind}| ${ids.get(to)}`,
+    ),
+  );
+
+  return lines.join('\n');
+}
+
+/**
+ * Render the graph as JSON: nodes and, for each node id, its outgoing edges
+ */
+function formatJson(graph: LineageGraph): string {
+  const adjacency: Record<string, { to: string; kind: GraphEdgeKind }[]> =
+    Object.fromEntries(graph.nodes.map(({ id }) => [id, []]));
+
+  graph.edges.forEach(({ from, to, kind }) =>
+    adjacency[from].push({ to, kind }),
+  );
+
+  return JSON.stringify({ nodes: graph.nodes, adjacency }, null, 2);
+}
+
+/**
+ * Check whether a string is a supported graph format
+ */
+export function isGraphFormat(value: string): value is GraphFormat {
+  return (GRAPH_FORMATS as readonly string[]).includes(value);
+}
+
+/**
+ * Serialize a lineage graph
+ * @param graph The graph to serialize
+ * @param format Output format
+ * @returns The serialized graph
+ */
+export function formatGraph(graph: LineageGraph, format: GraphFormat): string {
+  switch (format) {
+    case 'dot':
+      return formatDot(graph);
+    case 'mermaid':
+      return formatMermaid(graph);
+    case 'json':
+      return formatJson(graph);
+  }
+}
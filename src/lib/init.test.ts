@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { createDescriptor, nameBasedUuid, normalizeInitInput } from './init';
+import { verifyDataProduct } from './verify';
+
+const answers = {
+  namespace: 'it.quantyca',
+  domain: 'Transport',
+  name: 'trip execution',
+  ownerId: 'john.doe@company.com',
+  outputPorts: ['trip-details, trip stats'],
+};
+
+describe('normalizeInitInput', () => {
+  it('converts names to camelCase and fills in defaults', () => {
+    expect(normalizeInitInput(answers)).toEqual({
+      options: {
+        namespace: 'it.quantyca',
+        domain: 'transport',
+        name: 'tripExecution',
+        description: undefined,
+        ownerId: 'john.doe@company.com',
+        ownerName: undefined,
+        outputPorts: ['tripDetails', 'tripStats'],
+        api: 'openapi',
+      },
+      errors: {},
+    });
+  });
+
+  it('reports each invalid or missing answer', () => {
+    const { options, errors } = normalizeInitInput({
+      namespace: 'it quantyca',
+      name: '  ',
+      outputPorts: ['trips', 'Trips'],
+      api: 'graphql',
+    });
+
+    expect(options).toBeUndefined();
+    expect(Object.keys(errors)).toEqual([
+      'namespace',
+      'domain',
+      'name',
+      'ownerId',
+      'outputPorts',
+      'api',
+    ]);
+    expect(errors.outputPorts).toBe('Output port names must be unique');
+  });
+});
+
+describe('nameBasedUuid', () => {
+  it('derives the same version 3 UUID as Java', () => {
+    // UUID.nameUUIDFromBytes("test".getBytes(UTF_8))
+    expect(nameBasedUuid('test')).toBe('098f6bcd-4621-3373-8ade-4e832627b4f6');
+  });
+});
+
+describe('createDescriptor', () => {
+  it.each(['openapi', 'asyncapi', 'datastoreapi'])(
+    'creates a descriptor passing strict verification (%s)',
+    (api) => {
+      const { options } = normalizeInitInput({ ...answers, api });
+      const descriptor = createDescriptor(options!);
+
+      const result = verifyDataProduct(descriptor, { strict: true });
+
+      expect(result.issues).toEqual([]);
+      expect(result.isValid).toBe(true);
+    },
+  );
+
+  it('derives fully qualified names and ids', () => {
+    const { options } = normalizeInitInput(answers);
+    const descriptor = createDescriptor(options!);
+    const [port] = descriptor.interfaceComponents.outputPorts;
+
+    expect(descriptor.info).toMatchObject({
+      fullyQualifiedName: 'urn:dpds:it.quantyca:dataproducts:tripExecution:1',
+      id: nameBasedUuid('urn:dpds:it.quantyca:dataproducts:tripExecution:1'),
+      contactPoints: [{ channel: 'email', address: 'john.doe@company.com' }],
+    });
+    expect(port).toMatchObject({
+      fullyQualifiedName:
+        'urn:dpds:it.quantyca:dataproducts:tripExecution:1:outputports:tripDetails',
+      promises: { api: { specification: 'openapi' } },
+    });
+  });
+});
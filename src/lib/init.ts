@@ -0,0 +1,245 @@
+/**
+ * Descriptor Scaffolding
+ *
+ * Creates new data product descriptors from a handful of answers: mesh
+ * namespace, domain, product name, owner and output ports. Fully qualified
+ * names and ids are derived so that the result passes strict verification.
+ */
+
+import { createHash } from 'crypto';
+import type { DataProductDescriptor, OutputPort } from '../types';
+import { DEFAULT_SPEC_VERSION } from '../specVersions';
+import { toCamelCase } from './fix';
+
+// ===============================================================
+// Types
+// ===============================================================
+
+/**
+ * API specifications output ports can be scaffolded with
+ */
+export const API_SPECIFICATIONS = ['openapi', 'asyncapi', 'datastoreapi'];
+
+/**
+ * Answers describing a new data product, as typed by the user
+ */
+export interface InitInput {
+  /** Mesh namespace, typically a reversed domain name (e.g. `it.quantyca`) */
+  namespace?: string;
+  domain?: string;
+  name?: string;
+  description?: string;
+  ownerId?: string;
+  ownerName?: string;
+  outputPorts?: string[];
+  /** API specification of the output ports (default: openapi) */
+  api?: string;
+}
+
+export type InitField = keyof InitInput;
+
+/**
+ * Validated answers, names in camelCase
+ */
+export interface InitOptions {
+  namespace: string;
+  domain: string;
+  name: string;
+  description?: string;
+  ownerId: string;
+  ownerName?: string;
+  outputPorts: string[];
+  api: string;
+}
+
+const namespaceRegex = /^[a-zA-Z0-9][\w.-]*$/;
+
+/**
+ * Version of the API documents scaffolded for each specification
+ */
+const API_VERSIONS: Record<string, string> = {
+  openapi: '3.0.3',
+  asyncapi: '2.6.0',
+  datastoreapi: '1.0.0',
+};
+
+// ===============================================================
+// Validation
+// ===============================================================
+
+/**
+ * Validate and normalize answers
+ * Names are converted to camelCase; missing optional answers get defaults.
+ *
+ * @param input The answers
+ * @returns The options when every answer is valid, and an error message
+ * for each invalid or missing answer
+ */
+export function normalizeInitInput(input: InitInput): {
+  options?: InitOptions;
+  errors: Partial<Record<InitField, string>>;
+} {
+  const errors: Partial<Record<InitField, string>> = {};
+  const trimmed = (value: string | undefined) => value?.trim() || undefined;
+
+  const namespace = trimmed(input.namespace);
+  if (!namespace) {
+    errors.namespace = 'The mesh namespace is required';
+  } else if (!namespaceRegex.test(namespace)) {
+    errors.namespace =
+      'The mesh namespace must contain only letters, digits, dots, dashes and underscores (e.g. it.quantyca)';
+  }
+
+  const camelCase = (field: 'domain' | 'name', label: string) => {
+    const value = trimmed(input[field]);
+    if (!value) {
+      errors[field] = `The ${label} is required`;
+      return undefined;
+    }
+    const converted = toCamelCase(value);
+    if (!converted) errors[field] = `The ${label} must contain letters`;
+    return converted;
+  };
+  const domain = camelCase('domain', 'domain');
+  const name = camelCase('name', 'product name');
+
+  const ownerId = trimmed(input.ownerId);
+  if (!ownerId) errors.ownerId = 'The owner id is required';
+
+  const outputPorts = (input.outputPorts ?? [])
+    .flatMap((port) => port.split(','))
+    .map((port) => port.trim())
+    .filter(Boolean);
+  const portNames = outputPorts.map(toCamelCase);
+  if (outputPorts.length === 0) {
+    errors.outputPorts = 'At least one output port is required';
+  } else if (portNames.some((port) => !port)) {
+    errors.outputPorts = 'Output port names must contain letters';
+  } else if (new Set(portNames).size !== portNames.length) {
+    errors.outputPorts = 'Output port names must be unique';
+  }
+
+  const api = trimmed(input.api)?.toLowerCase() ?? 'openapi';
+  if (!API_SPECIFICATIONS.includes(api)) {
+    errors.api = `The API specification must be one of: ${API_SPECIFICATIONS.join(', ')}`;
+  }
+
+  if (Object.keys(errors).length > 0) return { errors };
+
+  return {
+    options: {
+      namespace: namespace!,
+      domain: domain!,
+      name: name!,
+      description: trimmed(input.description),
+      ownerId: ownerId!,
+      ownerName: trimmed(input.ownerName),
+      outputPorts: portNames as string[],
+      api,
+    },
+    errors,
+  };
+}
+
+// ===============================================================
+// Scaffolding
+// ===============================================================
+
+/**
+ * Name-based UUID (version 3) of a name, as Java's `UUID.nameUUIDFromBytes`
+ * Ids derived from fully qualified names stay the same across runs.
+ */
+export function nameBasedUuid(name: string): string {
+  const bytes = createHash('md5').update(name, 'utf-8').digest();
+  bytes[6] = (bytes[6] & 0x0f) | 0x30;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+
+  const hex = bytes.toString('hex');
+  return [
+    hex.slice(0, 8),
+    hex.slice(8, 12),
+    hex.slice(12, 16),
+    hex.slice(16, 20),
+    hex.slice(20, 32),
+  ].join('-');
+}
+
+/**
+ * Minimal API document of a specification, valid for the verifier
+ */
+function apiDefinition(
+  specification: string,
+  title: string,
+): Record<string, unknown> {
+  const info = { title, version: '1.0.0' };
+  const version = API_VERSIONS[specification];
+
+  switch (specification) {
+    case 'asyncapi':
+      return { asyncapi: version, info, channels: {} };
+    case 'datastoreapi':
+      return { datastoreapi: version, info, schema: { tables: [] } };
+    default:
+      return { openapi: version, info, paths: {} };
+  }
+}
+
+/**
+ * Create a new data product descriptor
+ *
+ * The product and its ports start at version 1.0.0. Each output port
+ * promises an empty API document of the chosen specification, to be
+ * completed by hand.
+ *
+ * @param options Validated answers, see normalizeInitInput
+ * @returns A descriptor passing strict verification
+ */
+export function createDescriptor(options: InitOptions): DataProductDescriptor {
+  const { namespace, domain, name, ownerId, ownerName, api } = options;
+  const fullyQualifiedName = `urn:dpds:${namespace}:dataproducts:${name}:1`;
+
+  const outputPorts: OutputPort[] = options.outputPorts.map((port) => {
+    const portFqn = `${fullyQualifiedName}:outputports:${port}`;
+    return {
+      id: nameBasedUuid(portFqn),
+      fullyQualifiedName: portFqn,
+      entityType: 'outputport',
+      name: port,
+      version: '1.0.0',
+      description: `Output port ${port} of the ${name} data product`,
+      promises: {
+        api: {
+          name: `${port}Api`,
+          version: '1.0.0',
+          specification: api,
+          specificationVersion: API_VERSIONS[api],
+          definition: apiDefinition(api, port),
+        },
+      },
+    };
+  });
+
+  return {
+    dataProductDescriptor: DEFAULT_SPEC_VERSION,
+    info: {
+      id: nameBasedUuid(fullyQualifiedName),
+      fullyQualifiedName,
+      entityType: 'dataproduct',
+      name,
+      version: '1.0.0',
+      description:
+        options.description ?? `Data product ${name} of the ${domain} domain`,
+      domain,
+      owner: ownerName ? { id: ownerId, name: ownerName } : { id: ownerId },
+      contactPoints: [
+        {
+          name: 'owner',
+          description: 'Data product owner',
+          ...(ownerId.includes('@') ? { channel: 'email' } : {}),
+          address: ownerId,
+        },
+      ],
+    },
+    interfaceComponents: { outputPorts },
+  };
+}
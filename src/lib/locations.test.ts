@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createSourceLocator,
+  formatCodeFrame,
+  locateIssues,
+} from './locations';
+
+const json = `{
+  "info": {
+    "name": "trips",
+    "owner": {}
+  },
+  "tags": ["a", "b"]
+}`;
+
+const yaml = `info:
+  name: trips
+  owner:
+tags:
+  - a
+  - b
+`;
+
+describe('createSourceLocator', () => {
+  it('locates values of JSON documents', () => {
+    const locate = createSourceLocator(json);
+
+    expect(locate(['info', 'name'])).toEqual({ line: 3, column: 13 });
+    expect(locate(['tags', 1])).toEqual({ line: 6, column: 17 });
+  });
+
+  it('locates values of YAML documents', () => {
+    const locate = createSourceLocator(yaml);
+
+    expect(locate(['info', 'name'])).toEqual({ line: 2, column: 9 });
+    expect(locate(['tags', 1])).toEqual({ line: 6, column: 5 });
+  });
+
+  it('locates empty values on the line of their key', () => {
+    expect(createSourceLocator(yaml)(['info', 'owner'])).toEqual({
+      line: 3,
+      column: 9,
+    });
+  });
+
+  it('falls back to the deepest existing ancestor', () => {
+    expect(createSourceLocator(json)(['info', 'owner', 'id'])).toEqual({
+      line: 4,
+      column: 14,
+    });
+  });
+
+  it('locates nothing in documents that do not parse', () => {
+    expect(createSourceLocator('{ "info": ')(['info'])).toBeUndefined();
+  });
+});
+
+describe('locateIssues', () => {
+  it('keeps the positions issues already have', () => {
+    const [located, kept] = locateIssues(
+      [
+        { severity: 'error', rule: 'schema', path: ['info'], message: '' },
+        {
+          severity: 'error',
+          rule: 'parse-error',
+          path: [],
+          message: '',
+          line: 7,
+          column: 2,
+        },
+      ],
+      json,
+    );
+
+    expect(located).toMatchObject({ line: 2, column: 11 });
+    expect(kept).toMatchObject({ line: 7, column: 2 });
+  });
+});
+
+describe('formatCodeFrame', () => {
+  it('shows the surrounding lines with a caret under the column', () => {
+    expect(formatCodeFrame(yaml, { line: 2, column: 9 })).toBe(
+      [
+        '  1 | info:',
+        '> 2 |   name: trips',
+        '    |         ^',
+        '  3 |   owner:',
+      ].join('\n'),
+    );
+  });
+});
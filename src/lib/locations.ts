@@ -0,0 +1,122 @@
+/**
+ * Source Locations
+ *
+ * Maps issue paths back to lines and columns of the original JSON or YAML
+ * text, and renders code frames around them.
+ */
+
+import YAML, { isMap, isPair, isScalar, isSeq, LineCounter } from 'yaml';
+import type { VerificationIssue } from './verify';
+
+/**
+ * A 1-based position in a source text
+ */
+export interface SourcePosition {
+  line: number;
+  column: number;
+}
+
+/**
+ * Create a function that locates paths inside a source text
+ *
+ * JSON being a subset of YAML, both formats are handled by the YAML parser.
+ * When a path doesn't fully exist (e.g. a missing required property) the
+ * position of its deepest existing ancestor is returned.
+ *
+ * @param source Text of the document
+ * @returns Locator returning the position of the value at a path
+ */
+export function createSourceLocator(
+  source: string,
+): (path: (string | number)[]) => SourcePosition | undefined {
+  const lineCounter = new LineCounter();
+  const document = YAML.parseDocument(source, { lineCounter });
+
+  if (document.errors.length > 0) return () => undefined;
+
+  return (path) => {
+    let node: unknown = document.contents;
+    let offset: number | undefined = (node as YAML.Node | null)?.range?.[0];
+
+    for (const segment of path) {
+      let next: unknown;
+
+      if (isMap(node)) {
+        const pair = node.items.find(
+          (item) =>
+            isPair(item) &&
+            isScalar(item.key) &&
+            String(item.key.value) === String(segment),
+        );
+        // Point at the key when the value is empty
+        next = pair?.value ?? pair?.key;
+      } else if (isSeq(node) && typeof segment === 'number') {
+        next = node.items[segment];
+      }
+
+      const range = (next as YAML.Node | undefined)?.range;
+      if (!range) break;
+
+      node = next;
+      offset = range[0];
+    }
+
+    if (offset === undefined) return undefined;
+
+    const { line, col } = lineCounter.linePos(offset);
+    return { line, column: col };
+  };
+}
+
+/**
+ * Attach source positions to issues that don't have one yet
+ * @param issues Issues to locate
+ * @param source Text of the document the issues refer to
+ * @returns The issues, with `line` and `column` set when found
+ */
+export function locateIssues(
+  issues: VerificationIssue[],
+  source: string,
+): VerificationIssue[] {
+  const locate = createSourceLocator(source);
+
+  return issues.map((issue) => {
+    if (issue.line !== undefined) return issue;
+
+    const position = locate(issue.path);
+    return position ? { ...issue, ...position } : issue;
+  });
+}
+
+/**
+ * Render the lines around a position, with a caret under the column
+ * @param source Text of the document
+ * @param position Position to highlight
+ * @param contextLines Number of lines shown before and after
+ * @returns The code frame
+ */
+export function formatCodeFrame(
+  source: string,
+  position: SourcePosition,
+  contextLines: number = 1,
+): string {
+  const lines = source.split(/\r?\n/);
+  const first = Math.max(1, position.line - contextLines);
+  const last = Math.min(lines.length, position.line + contextLines);
+  const gutterWidth = String(last).length;
+  const frame: string[] = [];
+
+  for (let line = first; line <= last; line++) {
+    const marker = line === position.line ? '>' : ' ';
+    const gutter = String(line).padStart(gutterWidth);
+    frame.push(`${marker} ${gutter} | ${lines[line - 1]}`.trimEnd());
+
+    if (line === position.line) {
+      const padding = ' '.repeat(gutterWidth);
+      const caret = ' '.repeat(Math.max(0, position.column - 1));
+      frame.push(`  ${padding} | ${caret}^`);
+    }
+  }
+
+  return frame.join('\n');
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import {
+  consumerDescriptor,
+  validDescriptor,
+} from './__fixtures__/descriptors';
+import { checkMesh } from './mesh';
+
+const TRIP_DETAILS =
+  'urn:dpds:it.quantyca:dataproducts:tripExecution:1:outputports:tripDetails';
+
+const rulesOf = (issues: Map<string, { rule: string }[]>, filePath: string) =>
+  (issues.get(filePath) ?? []).map(({ rule }) => rule);
+
+describe('checkMesh', () => {
+  it('accepts input ports consuming an output port of the mesh', () => {
+    const issues = checkMesh([
+      { filePath: 'trips.json', descriptor: validDescriptor() },
+      {
+        filePath: 'billing.json',
+        descriptor: consumerDescriptor(TRIP_DETAILS),
+      },
+    ]);
+
+    expect(issues.size).toBe(0);
+  });
+
+  it('reports input ports pointing outside of the mesh', () => {
+    const issues = checkMesh([
+      {
+        filePath: 'billing.json',
+        descriptor: consumerDescriptor(
+          'urn:dpds:it.quantyca:dataproducts:ghost:1:outputports:trips',
+        ),
+      },
+    ]);
+
+    expect(issues.get('billing.json')).toMatchObject([
+      {
+        rule: 'dangling-input-port',
+        path: ['interfaceComponents', 'inputPorts', 0, 'fullyQualifiedName'],
+        message:
+          'No data product urn:dpds:it.quantyca:dataproducts:ghost in the mesh',
+      },
+    ]);
+  });
+
+  it('reports input ports expecting another major version', () => {
+    const issues = checkMesh([
+      { filePath: 'trips.json', descriptor: validDescriptor() },
+      {
+        filePath: 'billing.json',
+        descriptor: consumerDescriptor(TRIP_DETAILS.replace(':1:', ':2:')),
+      },
+    ]);
+
+    expect(rulesOf(issues, 'billing.json')).toEqual([
+      'incompatible-input-port',
+    ]);
+  });
+
+  it('reports products described twice', () => {
+    const issues = checkMesh([
+      { filePath: 'trips.json', descriptor: validDescriptor() },
+      { filePath: 'copy.json', descriptor: validDescriptor() },
+    ]);
+
+    expect(rulesOf(issues, 'copy.json')).toEqual(['duplicate-data-product']);
+  });
+
+  it('reports output ports no product consumes', () => {
+    const issues = checkMesh([
+      { filePath: 'trips.json', descriptor: validDescriptor() },
+    ]);
+
+    expect(issues.get('trips.json')).toMatchObject([
+      {
+        severity: 'warning',
+        rule: 'orphaned-output-port',
+        path: ['interfaceComponents', 'outputPorts', 0],
+      },
+    ]);
+  });
+
+  it('does not report orphaned output ports of incomplete meshes', () => {
+    const issues = checkMesh(
+      [{ filePath: 'trips.json', descriptor: validDescriptor() }],
+      { incomplete: true },
+    );
+
+    expect(issues.size).toBe(0);
+  });
+});
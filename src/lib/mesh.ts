@@ -0,0 +1,189 @@
+/**
+ * Mesh Validation
+ *
+ * Checks a set of descriptors as a whole: every input port whose fully
+ * qualified name points to an output port of another data product must match
+ * a product of the mesh, at the same major version, exposing that port.
+ * Output ports no input port of the mesh consumes are reported as orphaned,
+ * as long as every descriptor of the mesh could be checked.
+ */
+
+import * as path from 'path';
+import type { DataProductDescriptor, InputPort, OutputPort } from '../types';
+import { createReferenceResolver, resolveEntity } from './references';
+import { majorVersion, parseUrn } from './descriptor';
+import type { VerificationIssue } from './verify';
+
+// ===============================================================
+// Types
+// ===============================================================
+
+/**
+ * A descriptor of the mesh
+ */
+export interface MeshProduct {
+  filePath: string;
+  descriptor: DataProductDescriptor;
+}
+
+/**
+ * An output port exposed by a product of the mesh
+ */
+interface Producer {
+  filePath: string;
+  index: number;
+  port: OutputPort;
+  consumed: boolean;
+}
+
+// ===============================================================
+// Checks
+// ===============================================================
+
+/**
+ * Check the connections between the data products of a mesh
+ *
+ * @param products Structurally valid descriptors of the mesh
+ * @param options Whether descriptors of the mesh were left out because they
+ * are invalid: their input ports may consume any output port, so none is
+ * reported as orphaned
+ * @returns Issues for duplicate products, dangling or incompatible input
+ * ports and orphaned output ports, by file path
+ */
+export function checkMesh(
+  products: MeshProduct[],
+  options: { incomplete?: boolean } = {},
+): Map<string, VerificationIssue[]> {
+  const issues = new Map<string, VerificationIssue[]>();
+  const addIssue = (filePath: string, issue: VerificationIssue) =>
+    issues.set(filePath, [...(issues.get(filePath) ?? []), issue]);
+
+  // Products by URN without version, then by major version
+  const versions = new Map<string, Map<string, MeshProduct>>();
+  const producers = new Map<string, Producer>();
+
+  products.forEach((product) => {
+    const { filePath, descriptor } = product;
+    const fqn = descriptor.info.fullyQualifiedName;
+    const urn = parseUrn(fqn);
+    if (!urn || urn.port) return;
+
+    const { product: productUrn, major } = urn;
+    const byMajor = versions.get(productUrn) ?? new Map<string, MeshProduct>();
+    versions.set(productUrn, byMajor);
+
+    const existing = byMajor.get(major);
+    if (existing) {
+      addIssue(filePath, {
+        severity: 'error',
+        rule: 'duplicate-data-product',
+        path: ['info', 'fullyQualifiedName'],
+        message: `${fqn} is also described by ${existing.filePath}`,
+      });
+      return;
+    }
+    byMajor.set(major, product);
+
+    const resolve = createReferenceResolver(descriptor, {
+      baseDir: path.dirname(filePath),
+    });
+    descriptor.interfaceComponents.outputPorts?.forEach((value, index) => {
+      const port = resolveEntity<OutputPort>(value, resolve);
+      if (!port?.name) return;
+
+      producers.set(`${fqn}:outputports:${port.name}`, {
+        filePath,
+        index,
+        port,
+        consumed: false,
+      });
+    });
+  });
+
+  // Consumers
+  products.forEach(({ filePath, descriptor }) => {
+    const resolve = createReferenceResolver(descriptor, {
+      baseDir: path.dirname(filePath),
+    });
+
+    descriptor.interfaceComponents.inputPorts?.forEach((value, index) => {
+      const port = resolveEntity<InputPort>(value, resolve);
+      const target = parseUrn(port?.fullyQualifiedName);
+      if (!port || target?.portKind !== 'outputports') return;
+
+      const fqn = port.fullyQualifiedName!;
+      const issuePath = [
+        'interfaceComponents',
+        'inputPorts',
+        index,
+        'fullyQualifiedName',
+      ];
+      const report = (rule: string, message: string) =>
+        addIssue(filePath, {
+          severity: 'error',
+          rule,
+          path: issuePath,
+          message,
+        });
+
+      const byMajor = versions.get(target.product);
+      if (!byMajor) {
+        report(
+          'dangling-input-port',
+          `No data product ${target.product} in the mesh`,
+        );
+        return;
+      }
+
+      if (!byMajor.has(target.major)) {
+        const available = Array.from(byMajor.values())
+          .map(({ descriptor: { info } }) => info.version)
+          .join(', ');
+        report(
+          'incompatible-input-port',
+          `Data product ${target.product} has no major version ${target.major} in the mesh (found ${available})`,
+        );
+        return;
+      }
+
+      const producer = producers.get(fqn);
+      if (!producer) {
+        report(
+          'dangling-input-port',
+          `Data product ${target.product}:${target.major} has no output port ${target.port}`,
+        );
+        return;
+      }
+      producer.consumed = true;
+
+      const expected = majorVersion(port.version);
+      const actual = majorVersion(producer.port.version);
+      if (
+        expected !== undefined &&
+        actual !== undefined &&
+        expected !== actual
+      ) {
+        addIssue(filePath, {
+          severity: 'error',
+          rule: 'incompatible-input-port',
+          path: ['interfaceComponents', 'inputPorts', index, 'version'],
+          message: `Input port ${port.name} expects version ${port.version} of ${fqn}, found ${producer.port.version}`,
+        });
+      }
+    });
+  });
+
+  // Producers
+  producers.forEach(({ filePath, index, port, consumed }) => {
+    if (consumed || options.incomplete) return;
+
+    addIssue(filePath, {
+      severity: 'warning',
+      rule: 'orphaned-output-port',
+      path: ['interfaceComponents', 'outputPorts', index],
+      message: `Output port ${port.name} is not consumed by any data product of the mesh`,
+    });
+  });
+
+  return issues;
+}
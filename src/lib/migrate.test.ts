@@ -0,0 +1,173 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { registerSpecVersion } from '../specVersions';
+import { semanticDataProductDescriptorSchema } from '../semanticSchemas';
+import {
+  applyMigrationToSource,
+  findMigrationPath,
+  mapValues,
+  migrateDescriptor,
+  moveSection,
+  registerMigration,
+  renameKey,
+} from './migrate';
+
+const source = `# Trip execution
+dataProductDescriptor: 1.0.0
+info:
+  name: tripExecution # camelCase
+  owner:
+    id: john.doe@company.com
+interfaceComponents:
+  outputPorts:
+    - name: tripDetails
+      promises:
+        platform: kafka
+    - $ref: "#/components/outputPorts/tripStats"
+`;
+
+const data = {
+  dataProductDescriptor: '1.0.0',
+  info: { name: 'tripExecution', owner: { id: 'john.doe@company.com' } },
+  interfaceComponents: {
+    outputPorts: [
+      { name: 'tripDetails', promises: { platform: 'kafka' } },
+      { $ref: '#/components/outputPorts/tripStats' },
+    ],
+  },
+};
+
+beforeAll(() => {
+  ['1.1.0', '2.0.0'].forEach((version) =>
+    registerSpecVersion({
+      version,
+      schemaUrl: `/schema-${version}.json`,
+      descriptorSchema: semanticDataProductDescriptorSchema,
+    }),
+  );
+
+  registerMigration({
+    from: '1.0.0',
+    to: '1.1.0',
+    transforms: [
+      renameKey(
+        ['interfaceComponents', 'outputPorts', '*'],
+        'promises',
+        'guarantees',
+      ),
+    ],
+  });
+  registerMigration({
+    from: '1.1.0',
+    to: '2.0.0',
+    transforms: [
+      moveSection(['info', 'owner'], ['governance', 'owner']),
+      mapValues(
+        ['interfaceComponents', 'outputPorts', '*'],
+        (port) => {
+          const { $ref, ...rest } = port as Record<string, unknown>;
+          return $ref ? { ...rest, $href: $ref } : port;
+        },
+        'Converted $ref to $href',
+      ),
+    ],
+  });
+});
+
+describe('findMigrationPath', () => {
+  it('chains steps between versions', () => {
+    expect(findMigrationPath('1.0.0', '2.0.0')?.map(({ to }) => to)).toEqual([
+      '1.1.0',
+      '2.0.0',
+    ]);
+    expect(findMigrationPath('1.0.0', '1.0.0')).toEqual([]);
+    expect(findMigrationPath('2.0.0', '1.0.0')).toBeUndefined();
+  });
+});
+
+describe('migrateDescriptor', () => {
+  it('applies every step and records its changes', () => {
+    const migration = migrateDescriptor(data, '2.0.0');
+
+    expect(migration).toMatchObject({
+      success: true,
+      from: '1.0.0',
+      to: '2.0.0',
+      data: {
+        dataProductDescriptor: '2.0.0',
+        info: { name: 'tripExecution' },
+        governance: { owner: { id: 'john.doe@company.com' } },
+        interfaceComponents: {
+          outputPorts: [
+            { name: 'tripDetails', guarantees: { platform: 'kafka' } },
+            { $href: '#/components/outputPorts/tripStats' },
+          ],
+        },
+      },
+    });
+    if (!migration.success) return;
+    expect(
+      migration.changes.map(({ type, version }) => [type, version]),
+    ).toEqual([
+      ['renamed', '1.1.0'],
+      ['changed', '1.1.0'],
+      ['moved', '2.0.0'],
+      ['changed', '2.0.0'],
+      ['changed', '2.0.0'],
+    ]);
+    expect(data.info.owner).toBeDefined();
+  });
+
+  it('only updates pre-release versions of the target', () => {
+    const migration = migrateDescriptor(
+      { ...data, dataProductDescriptor: '1.0.0-DRAFT' },
+      '1.0.0',
+    );
+
+    expect(migration.success && migration.changes).toMatchObject([
+      { path: ['dataProductDescriptor'], after: '1.0.0' },
+    ]);
+  });
+
+  it('refuses unknown versions and descriptors without a version', () => {
+    expect(migrateDescriptor(data, '3.0.0')).toMatchObject({
+      success: false,
+      error: expect.stringContaining('Unknown specification version 3.0.0'),
+    });
+    expect(migrateDescriptor({ info: {} }, '2.0.0').success).toBe(false);
+  });
+
+  it('refuses transforms that would overwrite a value', () => {
+    const migration = migrateDescriptor(
+      { ...data, governance: { owner: { id: 'someone@company.com' } } },
+      '2.0.0',
+    );
+
+    expect(migration).toMatchObject({
+      success: false,
+      error:
+        'Cannot move info.owner to governance.owner: the target already exists',
+    });
+  });
+});
+
+describe('applyMigrationToSource', () => {
+  it('replays the changes on YAML, keeping comments', () => {
+    const migration = migrateDescriptor(data, '2.0.0');
+    if (!migration.success) throw new Error(migration.error);
+
+    const migrated = applyMigrationToSource(
+      source,
+      'yaml',
+      migration.data,
+      migration.changes,
+    );
+
+    expect(migrated).toContain('# Trip execution');
+    expect(migrated).toContain('name: tripExecution # camelCase');
+    expect(migrated).toContain('guarantees:\n        platform: kafka');
+    expect(migrated).toContain(
+      'governance:\n  owner:\n    id: john.doe@company.com',
+    );
+    expect(migrated).not.toContain('$ref');
+  });
+});
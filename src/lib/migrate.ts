@@ -0,0 +1,439 @@
+/**
+ * Descriptor Migration
+ *
+ * Moves descriptors from one specification version to another by applying
+ * a chain of registered migration steps, each made of transforms such as
+ * renamed keys, moved sections or rewritten values. Every change is
+ * recorded so that it can be reported and replayed on the original text.
+ * Shared by the CLI and the web app, so it must not depend on Node APIs.
+ */
+
+import YAML from 'yaml';
+import { DocumentFormat, updateDocumentSource } from './parse';
+import { isObject, Json } from './descriptor';
+import { findSpecVersion, getSpecVersions } from '../specVersions';
+
+// ===============================================================
+// Types
+// ===============================================================
+
+type Path = (string | number)[];
+
+/**
+ * A single change made by a migration
+ * - renamed: the key at `from` is now the last segment of `path`
+ * - moved: the value at `from` is now at `path`
+ * - changed: the value at `path` was replaced or added
+ * - removed: the value at `path` was deleted
+ */
+export interface MigrationChange {
+  type: 'renamed' | 'moved' | 'changed' | 'removed';
+  /** Specification version of the step that made the change */
+  version: string;
+  /** Path of the value after the change */
+  path: Path;
+  /** Path of the value before the change, for renamed and moved values */
+  from?: Path;
+  before?: unknown;
+  after?: unknown;
+  message: string;
+}
+
+/**
+ * State handed to the transforms of a migration step
+ */
+export interface MigrationContext {
+  /** The descriptor being migrated, changed in place */
+  data: Json;
+  record: (change: Omit<MigrationChange, 'version'>) => void;
+}
+
+export type MigrationTransform = (context: MigrationContext) => void;
+
+/**
+ * Transforms moving descriptors from a specification version to the next
+ */
+export interface MigrationStep {
+  from: string;
+  to: string;
+  description?: string;
+  transforms: MigrationTransform[];
+}
+
+export type MigrationResult =
+  | {
+      success: true;
+      data: Json;
+      /** Specification version declared before the migration */
+      from: string;
+      to: string;
+      changes: MigrationChange[];
+    }
+  | { success: false; error: string };
+
+// ===============================================================
+// Helpers
+// ===============================================================
+
+const formatPath = (path: Path) => path.join('.');
+
+function getIn(data: unknown, path: Path): unknown {
+  return path.reduce<unknown>(
+    (value, segment) =>
+      isObject(value) || Array.isArray(value)
+        ? (value as Record<string | number, unknown>)[segment]
+        : undefined,
+    data,
+  );
+}
+
+/**
+ * Set a value, creating missing parent objects
+ */
+function setIn(data: Json, path: Path, value: unknown): void {
+  let parent: Record<string | number, unknown> = data;
+  path.slice(0, -1).forEach((segment) => {
+    if (!isObject(parent[segment]) && !Array.isArray(parent[segment])) {
+      parent[segment] = {};
+    }
+    parent = parent[segment] as Record<string | number, unknown>;
+  });
+  parent[path[path.length - 1]] = value;
+}
+
+function deleteIn(data: Json, path: Path): void {
+  const parent = getIn(data, path.slice(0, -1));
+  const key = path[path.length - 1];
+  if (Array.isArray(parent) && typeof key === 'number') {
+    parent.splice(key, 1);
+  } else if (isObject(parent)) {
+    delete parent[key];
+  }
+}
+
+/**
+ * Paths of the values matching a pattern
+ * A `*` segment matches every item of an array or every key of an object.
+ */
+function expandPath(data: unknown, pattern: string[]): Path[] {
+  return pattern.reduce<Path[]>(
+    (paths, segment) =>
+      paths.flatMap((path) => {
+        const value = getIn(data, path);
+        if (segment !== '*') {
+          return isObject(value) && segment in value
+            ? [[...path, segment]]
+            : [];
+        }
+        if (Array.isArray(value)) {
+          return value.map((_, index) => [...path, index]);
+        }
+        return isObject(value)
+          ? Object.keys(value).map((key) => [...path, key])
+          : [];
+      }),
+    [[]],
+  );
+}
+
+// ===============================================================
+// Transforms
+// ===============================================================
+
+/**
+ * Rename a key of the objects matching a pattern, keeping the key order
+ * @param pattern Path of the objects holding the key, `*` matching any item
+ * @example renameKey(['interfaceComponents', 'outputPorts', '*'], 'promises', 'guarantees')
+ */
+export function renameKey(
+  pattern: string[],
+  from: string,
+  to: string,
+): MigrationTransform {
+  return ({ data, record }) =>
+    expandPath(data, pattern).forEach((parentPath) => {
+      const parent = getIn(data, parentPath);
+      if (!isObject(parent) || !(from in parent)) return;
+      if (to in parent) {
+        throw new Error(
+          `Cannot rename ${formatPath([...parentPath, from])} to ${to}: the key already exists`,
+        );
+      }
+
+      const entries = Object.entries(parent).map(([key, value]) =>
+        key === from ? ([to, value] as const) : ([key, value] as const),
+      );
+      Object.keys(parent).forEach((key) => delete parent[key]);
+      entries.forEach(([key, value]) => (parent[key] = value));
+
+      record({
+        type: 'renamed',
+        path: [...parentPath, to],
+        from: [...parentPath, from],
+        message: `Renamed ${from} to ${to}`,
+      });
+    });
+}
+
+/**
+ * Move a section of the descriptor to another path
+ * @example moveSection(['info', 'owner'], ['governance', 'owner'])
+ */
+export function moveSection(from: string[], to: string[]): MigrationTransform {
+  return ({ data, record }) => {
+    const value = getIn(data, from);
+    if (value === undefined) return;
+    if (getIn(data, to) !== undefined) {
+      throw new Error(
+        `Cannot move ${formatPath(from)} to ${formatPath(to)}: the target already exists`,
+      );
+    }
+
+    deleteIn(data, from);
+    setIn(data, to, value);
+    record({
+      type: 'moved',
+      path: to,
+      from,
+      message: `Moved ${formatPath(from)} to ${formatPath(to)}`,
+    });
+  };
+}
+
+/**
+ * Rewrite the values matching a pattern; returning undefined removes them
+ * Values are visited last first, so that removed array items don't shift
+ * the ones left to visit.
+ * @param pattern Path of the values, `*` matching any item
+ * @param transform New value of each matching value
+ * @param description What the transform does, used in change messages
+ * @example mapValues(['interfaceComponents', 'outputPorts', '*'], toHref, 'Converted $ref to $href')
+ */
+export function mapValues(
+  pattern: string[],
+  transform: (value: unknown, path: Path) => unknown,
+  description: string,
+): MigrationTransform {
+  return ({ data, record }) =>
+    expandPath(data, pattern)
+      .reverse()
+      .forEach((path) => {
+        const before = getIn(data, path);
+        const after = transform(before, path);
+        if (JSON.stringify(after) === JSON.stringify(before)) return;
+
+        if (after === undefined) {
+          deleteIn(data, path);
+          record({ type: 'removed', path, before, message: description });
+        } else {
+          setIn(data, path, after);
+          record({
+            type: 'changed',
+            path,
+            before,
+            after,
+            message: description,
+          });
+        }
+      });
+}
+
+// ===============================================================
+// Registry
+// ===============================================================
+
+/**
+ * No step is built in: 1.0.0 is the only published specification version,
+ * so migrating only updates pre-release versions (e.g. `1.0.0-DRAFT`).
+ * The module registering a newer version with registerSpecVersion also
+ * registers the steps reaching it.
+ */
+const migrations: MigrationStep[] = [];
+
+/**
+ * Register the migration from a specification version to another
+ * Registering the same pair of versions again replaces the step.
+ */
+export function registerMigration(step: MigrationStep): void {
+  const index = migrations.findIndex(
+    ({ from, to }) => from === step.from && to === step.to,
+  );
+  if (index === -1) migrations.push(step);
+  else migrations[index] = step;
+}
+
+/**
+ * Registered migration steps, in registration order
+ */
+export function getMigrations(): MigrationStep[] {
+  return [...migrations];
+}
+
+/**
+ * Shortest chain of steps between two versions
+ * @returns The steps in order, empty for the same version, undefined when
+ * no chain exists
+ */
+export function findMigrationPath(
+  from: string,
+  to: string,
+): MigrationStep[] | undefined {
+  const queue: [string, MigrationStep[]][] = [[from, []]];
+  const visited = new Set([from]);
+
+  while (queue.length > 0) {
+    const [version, steps] = queue.shift()!;
+    if (version === to) return steps;
+
+    migrations
+      .filter((step) => step.from === version && !visited.has(step.to))
+      .forEach((step) => {
+        visited.add(step.to);
+        queue.push([step.to, [...steps, step]]);
+      });
+  }
+
+  return undefined;
+}
+
+// ===============================================================
+// Migration
+// ===============================================================
+
+/**
+ * Migrate a descriptor to a specification version
+ *
+ * The descriptor is left untouched; the migrated copy declares the target
+ * version in `dataProductDescriptor`. It isn't validated here: use the
+ * schemas of the target version.
+ *
+ * @param data The descriptor, of any shape
+ * @param to Target specification version, which must be registered
+ * @returns The migrated copy and its changes, or why it can't be migrated
+ */
+export function migrateDescriptor(data: unknown, to: string): MigrationResult {
+  if (!isObject(data)) {
+    return { success: false, error: 'The document is not an object' };
+  }
+
+  const declared = data.dataProductDescriptor;
+  if (typeof declared !== 'string') {
+    return {
+      success: false,
+      error:
+        'The descriptor does not declare its specification version (dataProductDescriptor)',
+    };
+  }
+
+  const target = findSpecVersion(to);
+  if (!target) {
+    const versions = getSpecVersions().map(({ version }) => version);
+    return {
+      success: false,
+      error: `Unknown specification version ${to} (supported: ${versions.join(', ')})`,
+    };
+  }
+
+  const from = findSpecVersion(declared)?.version ?? declared;
+  const steps = findMigrationPath(from, target.version);
+  if (!steps) {
+    return {
+      success: false,
+      error: `No migration from specification ${declared} to ${target.version}`,
+    };
+  }
+
+  const migrated = structuredClone(data);
+  const changes: MigrationChange[] = [];
+
+  const setVersion = (version: string) => {
+    const before = migrated.dataProductDescriptor;
+    if (before === version) return;
+    migrated.dataProductDescriptor = version;
+    changes.push({
+      type: 'changed',
+      version,
+      path: ['dataProductDescriptor'],
+      before,
+      after: version,
+      message: `Updated specification version to ${version}`,
+    });
+  };
+
+  try {
+    steps.forEach((step) => {
+      const record = (change: Omit<MigrationChange, 'version'>) =>
+        changes.push({ ...change, version: step.to });
+      step.transforms.forEach((transform) =>
+        transform({ data: migrated, record }),
+      );
+      setVersion(step.to);
+    });
+    setVersion(target.version);
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+
+  return {
+    success: true,
+    data: migrated,
+    from: declared,
+    to: target.version,
+    changes,
+  };
+}
+
+/**
+ * Replay the changes of a migration on the text of a descriptor
+ * @see parse.ts updateDocumentSource
+ *
+ * @param source Original text
+ * @param format Format of the text
+ * @param data The migrated descriptor data
+ * @param changes Changes made by the migration, in order
+ * @returns The updated text
+ */
+export function applyMigrationToSource(
+  source: string,
+  format: DocumentFormat,
+  data: unknown,
+  changes: MigrationChange[],
+): string {
+  if (changes.length === 0) return source;
+
+  return updateDocumentSource(source, format, data, (document) =>
+    changes.forEach((change) => {
+      switch (change.type) {
+        case 'renamed': {
+          const parent = document.getIn(change.path.slice(0, -1), true);
+          const oldKey = change.from![change.from!.length - 1];
+          const pair = YAML.isMap(parent)
+            ? parent.items.find(({ key }) =>
+                YAML.isScalar(key) ? key.value === oldKey : key === oldKey,
+              )
+            : undefined;
+          const newKey = change.path[change.path.length - 1];
+          // Keep the key node, and the comments attached to it
+          if (YAML.isScalar(pair?.key)) pair.key.value = newKey;
+          else if (pair) pair.key = document.createNode(newKey);
+          break;
+        }
+        case 'moved': {
+          const node = document.getIn(change.from!, true);
+          document.deleteIn(change.from!);
+          document.setIn(change.path, node);
+          break;
+        }
+        case 'changed':
+          document.setIn(change.path, change.after);
+          break;
+        case 'removed':
+          document.deleteIn(change.path);
+          break;
+      }
+    }),
+  );
+}
@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest';
+import { validDescriptor } from './__fixtures__/descriptors';
+import {
+  formatDescriptor,
+  formatDescriptorSource,
+  normalizeDescriptor,
+} from './normalize';
+import { parseDocument } from './parse';
+import { verifyDataProduct } from './verify';
+
+describe('normalizeDescriptor', () => {
+  it('orders keys as the specification, unknown keys last', () => {
+    const { info, interfaceComponents, dataProductDescriptor } =
+      validDescriptor();
+    const shuffled = {
+      'x-team': 'trips',
+      interfaceComponents,
+      info: Object.fromEntries(Object.entries(info).reverse()),
+      dataProductDescriptor,
+    };
+
+    const normalized = normalizeDescriptor(shuffled) as Record<string, object>;
+
+    expect(Object.keys(normalized)).toEqual([
+      'dataProductDescriptor',
+      'info',
+      'interfaceComponents',
+      'x-team',
+    ]);
+    expect(Object.keys(normalized.info)).toEqual(Object.keys(info));
+  });
+
+  it('drops empty values from optional properties only', () => {
+    const descriptor = validDescriptor();
+    descriptor.info.description = '';
+    descriptor.info.contactPoints = [];
+    descriptor.info.name = '';
+
+    expect(normalizeDescriptor(descriptor)).toMatchObject({
+      info: expect.not.objectContaining({
+        description: '',
+        contactPoints: [],
+      }),
+    });
+    expect(normalizeDescriptor(descriptor)).toMatchObject({
+      info: { name: '' },
+    });
+  });
+
+  it('keeps content the specification does not describe', () => {
+    const descriptor = validDescriptor();
+    descriptor.interfaceComponents.outputPorts[0] = {
+      ...descriptor.interfaceComponents.outputPorts[0],
+      promises: {
+        api: {
+          name: 'tripDetailsApi',
+          version: '1.0.0',
+          specification: 'asyncapi',
+          definition: { channels: {}, servers: [], asyncapi: '2.5.0' },
+        },
+      },
+    };
+
+    expect(normalizeDescriptor(descriptor)).toMatchObject({
+      interfaceComponents: {
+        outputPorts: [
+          {
+            promises: {
+              api: {
+                definition: { channels: {}, servers: [], asyncapi: '2.5.0' },
+              },
+            },
+          },
+        ],
+      },
+    });
+  });
+});
+
+describe('formatDescriptor', () => {
+  it.each(['json', 'yaml'] as const)(
+    'gives a valid descriptor formatted the same way again (%s)',
+    (format) => {
+      const descriptor = validDescriptor();
+      descriptor.info.description = '';
+
+      const formatted = formatDescriptor(descriptor, format);
+      const parsed = parseDocument(formatted, format);
+
+      expect(parsed.success).toBe(true);
+      if (!parsed.success) return;
+      expect(verifyDataProduct(parsed.data).isValid).toBe(true);
+      expect(formatDescriptor(parsed.data, format)).toBe(formatted);
+    },
+  );
+});
+
+describe('formatDescriptorSource', () => {
+  const source = `# Trip execution
+info:
+  # Semantic version
+  version: 1.2.0 # released in May
+  name: tripExecution
+  description: ""
+  fullyQualifiedName: urn:dpds:it.quantyca:dataproducts:tripExecution:1
+  domain: transport
+  owner:
+    id: john.doe@company.com
+    name: John Doe
+dataProductDescriptor: 1.0.0
+interfaceComponents:
+  outputPorts: []
+`;
+
+  it('keeps the comments of YAML documents, with their keys', () => {
+    const parsed = parseDocument(source, 'yaml');
+    if (!parsed.success) throw new Error(parsed.error);
+
+    const formatted = formatDescriptorSource(source, 'yaml', parsed.data);
+
+    expect(formatted).toBe(`# Trip execution
+dataProductDescriptor: 1.0.0
+info:
+  fullyQualifiedName: urn:dpds:it.quantyca:dataproducts:tripExecution:1
+  name: tripExecution
+  # Semantic version
+  version: 1.2.0 # released in May
+  domain: transport
+  owner:
+    id: john.doe@company.com
+    name: John Doe
+interfaceComponents:
+  outputPorts: []
+`);
+  });
+
+  it('leaves formatted YAML documents unchanged', () => {
+    const parsed = parseDocument(source, 'yaml');
+    if (!parsed.success) throw new Error(parsed.error);
+    const formatted = formatDescriptorSource(source, 'yaml', parsed.data);
+
+    const reparsed = parseDocument(formatted, 'yaml');
+    if (!reparsed.success) throw new Error(reparsed.error);
+
+    expect(formatDescriptorSource(formatted, 'yaml', reparsed.data)).toBe(
+      formatted,
+    );
+    expect(verifyDataProduct(reparsed.data).isValid).toBe(true);
+  });
+});
@@ -0,0 +1,290 @@
+/**
+ * Canonical Formatting
+ *
+ * Normalizes descriptors so that the ones produced by the form and by hand
+ * serialize the same way: keys follow the order of the specification's
+ * object definitions, and the empty strings, arrays and objects the form
+ * leaves behind in optional properties are dropped. Content the
+ * specification doesn't describe, such as the definitions of standard
+ * definitions, is kept as it is.
+ * Shared by the CLI and the web app, so it must not depend on Node APIs.
+ */
+
+import YAML from 'yaml';
+import { z } from 'zod';
+import {
+  DocumentFormat,
+  stringifyDocument,
+  updateDocumentSource,
+} from './parse';
+import { resolveSpecVersion } from '../specVersions';
+import { isObject, Json } from './descriptor';
+
+// ===============================================================
+// Helpers
+// ===============================================================
+
+/**
+ * What normalizing a descriptor changes, everything by default
+ */
+export interface NormalizeOptions {
+  /** Order keys as the object definitions of the specification */
+  order?: boolean;
+  /** Drop empty strings, arrays and objects from optional properties */
+  prune?: boolean;
+  /**
+   * Schema giving the key order (default: the schema of the declared
+   * specification version)
+   */
+  schema?: z.ZodTypeAny;
+}
+
+const isEmpty = (value: unknown) =>
+  value === '' ||
+  (Array.isArray(value) && value.length === 0) ||
+  (isObject(value) && Object.keys(value).length === 0);
+
+/**
+ * Schema describing the values of a schema, without optional, default,
+ * lazy and refinement wrappers
+ */
+function unwrap(schema: z.ZodTypeAny): z.ZodTypeAny {
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) {
+    return unwrap(schema.unwrap());
+  }
+  if (schema instanceof z.ZodDefault) return unwrap(schema.removeDefault());
+  if (schema instanceof z.ZodEffects) return unwrap(schema.innerType());
+  if (schema instanceof z.ZodLazy) return unwrap(schema.schema);
+  return schema;
+}
+
+/**
+ * Option of a union describing a value: the object with the most keys in
+ * common with it, records coming last
+ * For example `{ $ref }` picks the reference, a port the port definition.
+ */
+function pickOption(
+  options: readonly z.ZodTypeAny[],
+  value: unknown,
+): z.ZodTypeAny | undefined {
+  const candidates = options.map(unwrap);
+
+  if (Array.isArray(value)) {
+    return candidates.find((option) => option instanceof z.ZodArray);
+  }
+  if (!isObject(value)) return undefined;
+
+  let best: z.ZodTypeAny | undefined;
+  let bestScore = -Infinity;
+  candidates.forEach((option) => {
+    const score =
+      option instanceof z.ZodObject
+        ? Object.keys(value).filter((key) => key in option.shape).length
+        : option instanceof z.ZodRecord
+          ? -1
+          : -Infinity;
+    if (score > bestScore) {
+      best = option;
+      bestScore = score;
+    }
+  });
+  return best;
+}
+
+// ===============================================================
+// Normalization
+// ===============================================================
+
+/**
+ * Whether a schema describes content left as it is
+ */
+const isUndescribed = (schema: z.ZodTypeAny) => {
+  const described = unwrap(schema);
+  return described instanceof z.ZodUnknown || described instanceof z.ZodAny;
+};
+
+/**
+ * Normalize a value described by a schema
+ */
+function normalizeValue(
+  value: unknown,
+  schema: z.ZodTypeAny,
+  options: Required<Omit<NormalizeOptions, 'schema'>>,
+): unknown {
+  let described = unwrap(schema);
+  if (described instanceof z.ZodUnion) {
+    described = pickOption(described.options, value) ?? described;
+  }
+
+  let normalized = value;
+  if (described instanceof z.ZodArray && Array.isArray(value)) {
+    normalized = value.map((item) =>
+      normalizeValue(item, described.element, options),
+    );
+  } else if (described instanceof z.ZodRecord && isObject(value)) {
+    normalized = normalizeEntries(
+      Object.keys(value),
+      value,
+      () => described.valueSchema,
+      options,
+    );
+  } else if (described instanceof z.ZodObject && isObject(value)) {
+    const shape = described.shape as Record<string, z.ZodTypeAny>;
+    // Keys of the definition first, in its order, then the others
+    const keys = options.order
+      ? [
+          ...Object.keys(shape).filter((key) => key in value),
+          ...Object.keys(value).filter((key) => !(key in shape)),
+        ]
+      : Object.keys(value);
+    normalized = normalizeEntries(keys, value, (key) => shape[key], options);
+  }
+
+  return normalized;
+}
+
+/**
+ * Normalize the entries of an object
+ * Empty values are only dropped from optional properties: required ones
+ * are kept even when empty. Content the specification doesn't describe is
+ * kept as it is.
+ */
+function normalizeEntries(
+  keys: string[],
+  value: Json,
+  schemaOf: (key: string) => z.ZodTypeAny | undefined,
+  options: Required<Omit<NormalizeOptions, 'schema'>>,
+): Json {
+  const entries = keys.flatMap((key) => {
+    const schema = schemaOf(key);
+    if (!schema || isUndescribed(schema)) return [[key, value[key]] as const];
+
+    const child = normalizeValue(value[key], schema, options);
+    const pruned = options.prune && isEmpty(child) && schema.isOptional();
+    return pruned ? [] : [[key, child] as const];
+  });
+  return Object.fromEntries(entries);
+}
+
+/**
+ * Put a descriptor in canonical form
+ *
+ * Keys are ordered as in the object definitions of the descriptor's
+ * specification version, followed by keys the specification doesn't define
+ * in their original order. Empty strings, arrays and objects are dropped,
+ * recursively, from the properties the specification marks as optional,
+ * except in content it doesn't describe.
+ *
+ * @param data The descriptor, left untouched
+ * @param options What to change, everything by default
+ * @returns The normalized copy
+ */
+export function normalizeDescriptor(
+  data: unknown,
+  options: NormalizeOptions = {},
+): unknown {
+  const {
+    order = true,
+    prune = true,
+    schema = resolveSpecVersion(data).spec.descriptorSchema,
+  } = options;
+  return normalizeValue(data, schema, { order, prune });
+}
+
+/**
+ * Serialize a descriptor in canonical form, ending with a newline
+ * @param data The descriptor
+ * @param format Target format
+ */
+export function formatDescriptor(
+  data: unknown,
+  format: DocumentFormat,
+): string {
+  return `${stringifyDocument(normalizeDescriptor(data), format).trimEnd()}\n`;
+}
+
+/**
+ * Reorder and prune the pairs of a YAML node as its normalized value
+ * Keys missing from the parsed value, such as merge keys (`<<`), are kept
+ * in front. Comments above a key move with it.
+ * @param before The parsed value of the node
+ * @param after The normalized value
+ */
+function alignYamlNode(node: unknown, before: unknown, after: unknown): void {
+  if (YAML.isMap(node) && isObject(before) && isObject(after)) {
+    const keyOf = (pair: YAML.Pair) =>
+      String(YAML.isScalar(pair.key) ? pair.key.value : pair.key);
+    const order = Object.keys(after);
+
+    // The parser attaches the comment above the first key of a nested map
+    // to the map itself
+    const [first] = node.items;
+    if (node.commentBefore && YAML.isScalar(first?.key)) {
+      first.key.commentBefore = [node.commentBefore, first.key.commentBefore]
+        .filter(Boolean)
+        .join('\n');
+      node.commentBefore = undefined;
+    }
+
+    node.items = node.items
+      .filter((pair) => {
+        const key = keyOf(pair);
+        return key in after || !(key in before);
+      })
+      .sort((a, b) => order.indexOf(keyOf(a)) - order.indexOf(keyOf(b)));
+    node.items.forEach((pair) => {
+      const key = keyOf(pair);
+      if (key in after) alignYamlNode(pair.value, before[key], after[key]);
+    });
+  } else if (
+    YAML.isSeq(node) &&
+    Array.isArray(before) &&
+    Array.isArray(after)
+  ) {
+    node.items.forEach((item, index) =>
+      alignYamlNode(item, before[index], after[index]),
+    );
+  }
+}
+
+/**
+ * Rewrite the text of a descriptor in canonical form, ending with a newline
+ * YAML documents are edited in place, so that their comments are kept.
+ * @param source Text of the descriptor
+ * @param format Format of the text
+ * @param data The parsed descriptor
+ */
+export function formatDescriptorSource(
+  source: string,
+  format: DocumentFormat,
+  data: unknown,
+): string {
+  if (format === 'json') return formatDescriptor(data, format);
+
+  const normalized = normalizeDescriptor(data);
+  const formatted = updateDocumentSource(
+    source,
+    format,
+    normalized,
+    (document) => {
+      // The comment above the first key heads the document: it stays on top
+      const firstKey = () => {
+        const root = document.contents;
+        const key = YAML.isMap(root) ? root.items[0]?.key : undefined;
+        return YAML.isScalar(key) ? key : undefined;
+      };
+      const header = firstKey()?.commentBefore;
+      if (header) firstKey()!.commentBefore = undefined;
+
+      alignYamlNode(document.contents, data, normalized);
+
+      const key = firstKey();
+      if (header && key) {
+        key.commentBefore = [header, key.commentBefore]
+          .filter(Boolean)
+          .join('\n');
+      }
+    },
+  );
+  return `${formatted.trimEnd()}\n`;
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import {
+  detectFormat,
+  formatParseError,
+  parseDocument,
+  updateDocumentSource,
+} from './parse';
+
+describe('detectFormat', () => {
+  it('recognizes YAML extensions, whatever their case', () => {
+    expect(detectFormat('descriptor.yaml')).toBe('yaml');
+    expect(detectFormat('dir/descriptor.YML')).toBe('yaml');
+    expect(detectFormat('descriptor.json')).toBe('json');
+    expect(detectFormat('descriptor')).toBe('json');
+  });
+});
+
+describe('parseDocument', () => {
+  it('parses JSON and YAML to the same data', () => {
+    const json = parseDocument('{ "info": { "name": "trips" } }', 'json');
+    const yaml = parseDocument('info:\n  name: trips\n', 'yaml');
+
+    expect(json).toEqual({ success: true, data: { info: { name: 'trips' } } });
+    expect(yaml).toEqual(json);
+  });
+
+  it('locates JSON syntax errors', () => {
+    const result = parseDocument(
+      '{\n  "name": "trips"\n  "version": 1\n}',
+      'json',
+    );
+
+    expect(result.success).toBe(false);
+    expect(result).toMatchObject({ line: 3, column: 3 });
+  });
+
+  it('locates YAML syntax errors', () => {
+    const result = parseDocument('info:\n  name: trips\n  - tags\n', 'yaml');
+
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.line).toBe(3);
+    expect(formatParseError(result, 'yaml')).toMatch(
+      /^Invalid YAML format at line 3, column \d+: /,
+    );
+  });
+});
+
+describe('updateDocumentSource', () => {
+  it('edits YAML in place, keeping comments', () => {
+    const source = '# Trips\ninfo:\n  name: trips # camelCase\n';
+    const updated = updateDocumentSource(source, 'yaml', {}, (document) =>
+      document.setIn(['info', 'version'], '1.0.0'),
+    );
+
+    expect(updated).toBe(
+      '# Trips\ninfo:\n  name: trips # camelCase\n  version: 1.0.0\n',
+    );
+  });
+
+  it('writes JSON with its original indentation and final newline', () => {
+    const source = '{\n    "name": "trips"\n}\n';
+    const updated = updateDocumentSource(
+      source,
+      'json',
+      { name: 'trips', version: '1.0.0' },
+      () => {},
+    );
+
+    expect(updated).toBe(
+      '{\n    "name": "trips",\n    "version": "1.0.0"\n}\n',
+    );
+  });
+});
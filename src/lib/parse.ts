@@ -0,0 +1,167 @@
+/**
+ * Descriptor Parsing
+ *
+ * Parses and serializes descriptors written either in JSON or in YAML.
+ * Shared by the CLI and the web loaders, so it must not depend on Node APIs.
+ */
+
+import YAML from 'yaml';
+
+/**
+ * Serialization formats supported for descriptors and schemas
+ */
+export type DocumentFormat = 'json' | 'yaml';
+
+/**
+ * Result of parsing a document
+ * Failures carry the 1-based line and column of the syntax error when known
+ */
+export type ParseResult =
+  | { success: true; data: unknown }
+  | { success: false; error: string; line?: number; column?: number };
+
+/**
+ * Detect the format of a document from its file name
+ * @param fileName File name or path
+ * @returns `yaml` for `.yaml`/`.yml` files, `json` otherwise
+ */
+export function detectFormat(fileName: string): DocumentFormat {
+  return /\.ya?ml$/i.test(fileName) ? 'yaml' : 'json';
+}
+
+/**
+ * Convert a character offset into a 1-based line and column
+ */
+export function offsetToPosition(
+  content: string,
+  offset: number,
+): { line: number; column: number } {
+  const before = content.slice(0, Math.max(0, offset));
+  const lines = before.split('\n');
+
+  return { line: lines.length, column: lines[lines.length - 1].length + 1 };
+}
+
+/**
+ * Parse a JSON document, locating syntax errors
+ */
+function parseJson(content: string): ParseResult {
+  try {
+    return { success: true, data: JSON.parse(content) };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+
+    // V8 reports either "line X column Y" or "at position N"
+    const lineMatch = /line (\d+) column (\d+)/.exec(message);
+    if (lineMatch) {
+      return {
+        success: false,
+        error: message,
+        line: Number(lineMatch[1]),
+        column: Number(lineMatch[2]),
+      };
+    }
+
+    const positionMatch = /position (\d+)/.exec(message);
+    if (positionMatch) {
+      return {
+        success: false,
+        error: message,
+        ...offsetToPosition(content, Number(positionMatch[1])),
+      };
+    }
+
+    return { success: false, error: message };
+  }
+}
+
+/**
+ * Parse a YAML document, locating syntax errors
+ */
+function parseYaml(content: string): ParseResult {
+  const document = YAML.parseDocument(content, { prettyErrors: false });
+  const [error] = document.errors;
+
+  if (error) {
+    return {
+      success: false,
+      error: error.message,
+      ...offsetToPosition(content, error.pos[0]),
+    };
+  }
+
+  return { success: true, data: document.toJS() };
+}
+
+/**
+ * Parse a document in the given format
+ * @param content Text content of the document
+ * @param format Format of the document
+ * @returns The parsed data or the syntax error
+ */
+export function parseDocument(
+  content: string,
+  format: DocumentFormat,
+): ParseResult {
+  return format === 'yaml' ? parseYaml(content) : parseJson(content);
+}
+
+/**
+ * Describe a parse failure in a single line
+ * @example "Invalid YAML format at line 3, column 1: Missing closing quote"
+ */
+export function formatParseError(
+  result: Extract<ParseResult, { success: false }>,
+  format: DocumentFormat,
+): string {
+  const position =
+    result.line !== undefined
+      ? ` at line ${result.line}, column ${result.column}`
+      : '';
+
+  return `Invalid ${format.toUpperCase()} format${position}: ${result.error}`;
+}
+
+/**
+ * Serialize data in the given format
+ * @param data Data to serialize
+ * @param format Target format
+ * @returns The serialized document, pretty printed
+ */
+export function stringifyDocument(
+  data: unknown,
+  format: DocumentFormat,
+): string {
+  return format === 'yaml'
+    ? YAML.stringify(data, { lineWidth: 0 })
+    : JSON.stringify(data, null, 2);
+}
+
+/**
+ * Write changed data back into the text of a document
+ *
+ * YAML documents are edited in place so that comments and layout are kept;
+ * JSON documents are re-serialized with their original indentation.
+ *
+ * @param source Original text
+ * @param format Format of the text
+ * @param data The changed data, written as a whole to JSON documents
+ * @param editYaml Apply the changes to the parsed YAML document
+ * @returns The updated text
+ */
+export function updateDocumentSource(
+  source: string,
+  format: DocumentFormat,
+  data: unknown,
+  editYaml: (document: YAML.Document) => void,
+): string {
+  if (format === 'yaml') {
+    const document = YAML.parseDocument(source);
+    editYaml(document);
+    return document.toString({ lineWidth: 0, flowCollectionPadding: false });
+  }
+
+  const indent = /^[ \t]+(?=")/m.exec(source)?.[0] ?? '  ';
+  const trailingNewline = source.endsWith('\n') ? '\n' : '';
+  return JSON.stringify(data, null, indent) + trailingNewline;
+}
@@ -0,0 +1,230 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { DataProductDescriptor } from '../types';
+import { validDescriptor } from './__fixtures__/descriptors';
+import {
+  checkReferences,
+  collectReferences,
+  createReferenceResolver,
+  parseJsonPointer,
+} from './references';
+
+/**
+ * The fixture, with its output port moved to `components`
+ * @param ref Reference replacing the output port
+ */
+function descriptorWithRef(ref: string): DataProductDescriptor {
+  const descriptor = validDescriptor();
+  const [port] = descriptor.interfaceComponents.outputPorts;
+  descriptor.interfaceComponents.outputPorts = [{ $ref: ref }];
+  return {
+    ...descriptor,
+    components: {
+      outputPorts: { tripDetails: port },
+      inputPorts: {
+        'trips/cdc~v1': { $ref: '#/components/outputPorts/tripDetails' },
+      },
+    },
+  } as DataProductDescriptor;
+}
+
+const REF_PATH = ['interfaceComponents', 'outputPorts', 0, '$ref'];
+
+describe('parseJsonPointer', () => {
+  it('decodes escaped segments', () => {
+    expect(parseJsonPointer('/components/inputPorts/trips~1cdc~0v1')).toEqual([
+      'components',
+      'inputPorts',
+      'trips/cdc~v1',
+    ]);
+    expect(parseJsonPointer('/a%20b')).toEqual(['a b']);
+    expect(parseJsonPointer('')).toEqual([]);
+  });
+});
+
+describe('collectReferences', () => {
+  it('finds references with the kind expected at their position', () => {
+    const descriptor = descriptorWithRef(
+      '#/components/outputPorts/tripDetails',
+    );
+
+    expect(collectReferences(descriptor)).toEqual([
+      {
+        path: ['interfaceComponents', 'outputPorts', 0],
+        ref: '#/components/outputPorts/tripDetails',
+        expectedKind: 'outputPorts',
+      },
+      {
+        path: ['components', 'inputPorts', 'trips/cdc~v1'],
+        ref: '#/components/outputPorts/tripDetails',
+        expectedKind: 'inputPorts',
+      },
+    ]);
+  });
+});
+
+describe('createReferenceResolver', () => {
+  it('follows references to their target', () => {
+    const descriptor = descriptorWithRef(
+      '#/components/outputPorts/tripDetails',
+    );
+    descriptor.components!.outputPorts!.alias = {
+      $ref: '#/components/outputPorts/tripDetails',
+    };
+    const resolve = createReferenceResolver(descriptor);
+
+    expect(resolve('#/components/outputPorts/alias')).toMatchObject({
+      success: true,
+      kind: 'outputPorts',
+      value: { name: 'tripDetails' },
+      chain: [
+        '#/components/outputPorts/alias',
+        '#/components/outputPorts/tripDetails',
+      ],
+    });
+  });
+
+  it('does not resolve remote references', () => {
+    const resolve = createReferenceResolver(validDescriptor());
+
+    expect(resolve('https://example.com/port.json')).toMatchObject({
+      success: false,
+      reason: 'unsupported',
+    });
+  });
+});
+
+describe('checkReferences', () => {
+  it('accepts references to a component of the expected kind', () => {
+    const descriptor = descriptorWithRef(
+      '#/components/outputPorts/tripDetails',
+    );
+    delete descriptor.components!.inputPorts;
+
+    expect(checkReferences(descriptor)).toEqual([]);
+  });
+
+  it('reports dangling references', () => {
+    const issues = checkReferences(
+      descriptorWithRef('#/components/outputPorts/tripStats'),
+    );
+
+    expect(issues).toContainEqual({
+      severity: 'error',
+      rule: 'unresolved-reference',
+      path: REF_PATH,
+      message: 'Unresolved reference "#/components/outputPorts/tripStats"',
+    });
+  });
+
+  it('reports references that cannot be decoded', () => {
+    const issues = checkReferences(
+      descriptorWithRef('#/components/outputPorts/100%'),
+    );
+
+    expect(issues).toContainEqual({
+      severity: 'error',
+      rule: 'unresolved-reference',
+      path: REF_PATH,
+      message:
+        'Invalid JSON pointer in reference "#/components/outputPorts/100%"',
+    });
+  });
+
+  it('reports circular references', () => {
+    const descriptor = descriptorWithRef(
+      '#/components/outputPorts/tripDetails',
+    );
+    descriptor.components!.outputPorts = {
+      tripDetails: { $ref: '#/components/outputPorts/tripStats' },
+      tripStats: { $ref: '#/components/outputPorts/tripDetails' },
+    };
+    delete descriptor.components!.inputPorts;
+
+    expect(checkReferences(descriptor)).toMatchObject([
+      { rule: 'circular-reference', path: REF_PATH },
+      {
+        rule: 'circular-reference',
+        path: ['components', 'outputPorts', 'tripDetails', '$ref'],
+      },
+      {
+        rule: 'circular-reference',
+        path: ['components', 'outputPorts', 'tripStats', '$ref'],
+      },
+    ]);
+  });
+
+  it('reports references to another kind of component', () => {
+    const issues = checkReferences(
+      descriptorWithRef('#/components/outputPorts/tripDetails'),
+    );
+
+    expect(issues).toEqual([
+      {
+        severity: 'error',
+        rule: 'reference-kind',
+        path: ['components', 'inputPorts', 'trips/cdc~v1', '$ref'],
+        message:
+          'Reference "#/components/outputPorts/tripDetails" points to outputPorts, expected inputPorts',
+      },
+    ]);
+  });
+
+  it('reports references that do not point to an object', () => {
+    const issues = checkReferences(descriptorWithRef('#/info/name'));
+
+    expect(issues).toContainEqual({
+      severity: 'error',
+      rule: 'reference-kind',
+      path: REF_PATH,
+      message: 'Reference "#/info/name" must point to an object',
+    });
+  });
+});
+
+describe('file references', () => {
+  let baseDir: string;
+
+  beforeEach(() => {
+    baseDir = fs.mkdtempSync(path.join(os.tmpdir(), 'dpds-references-'));
+    fs.mkdirSync(path.join(baseDir, 'ports'));
+    fs.writeFileSync(
+      path.join(baseDir, 'ports', 'tripDetails.yaml'),
+      'name: tripDetails\nversion: 1.0.0\nnext:\n  $ref: ./tripStats.json\n',
+    );
+    fs.writeFileSync(
+      path.join(baseDir, 'ports', 'tripStats.json'),
+      '{ "name": "tripStats", "version": "1.0.0" }',
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(baseDir, { recursive: true, force: true });
+  });
+
+  it('resolves files relative to the file holding the reference', () => {
+    const resolve = createReferenceResolver(validDescriptor(), { baseDir });
+
+    expect(resolve('./ports/tripDetails.yaml#/next')).toMatchObject({
+      success: true,
+      value: { name: 'tripStats' },
+      file: path.join(baseDir, 'ports', 'tripStats.json'),
+    });
+  });
+
+  it('reports missing files, and skips files without a base directory', () => {
+    const descriptor = descriptorWithRef('./ports/missing.json');
+    delete descriptor.components;
+
+    expect(checkReferences(descriptor, { baseDir })).toMatchObject([
+      {
+        rule: 'unresolved-reference',
+        path: REF_PATH,
+        message: expect.stringContaining('Cannot load "./ports/missing.json"'),
+      },
+    ]);
+    expect(checkReferences(descriptor)).toEqual([]);
+  });
+});
@@ -0,0 +1,376 @@
+/**
+ * Reference Resolution
+ *
+ * Resolves `$ref` values found in data product descriptors: internal JSON
+ * pointers (e.g. `#/components/outputPorts/tripDetails`) and relative file
+ * references, optionally followed by a pointer into the referenced file.
+ * References pointing to other references are followed.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { detectFormat, parseDocument } from './parse';
+import type { VerificationIssue } from './verify';
+
+// ===============================================================
+// Types
+// ===============================================================
+
+/**
+ * A `$ref` found in a descriptor
+ */
+export interface ReferenceSlot {
+  /** Path of the object holding the `$ref` */
+  path: (string | number)[];
+  ref: string;
+  /**
+   * Kind of object expected at this position (e.g. `outputPorts`), matched
+   * against the `#/components/{kind}/...` section the reference points to
+   */
+  expectedKind?: string;
+}
+
+/**
+ * Outcome of resolving a reference
+ */
+export type ResolvedReference =
+  | {
+      success: true;
+      value: unknown;
+      /** Components section of the final target, if any */
+      kind?: string;
+      /** Absolute path of the file holding the target (undefined: the descriptor) */
+      file?: string;
+      /** References followed to reach the target, in order */
+      chain: string[];
+    }
+  | {
+      success: false;
+      reason: 'unresolved' | 'circular' | 'unsupported';
+      message: string;
+    };
+
+/**
+ * Options for resolving references
+ */
+export interface ReferenceResolverOptions {
+  /**
+   * Directory relative file references are resolved against
+   * When missing, file references are not resolved
+   */
+  baseDir?: string;
+}
+
+// ===============================================================
+// Helpers
+// ===============================================================
+
+const COMPONENT_LIST_PARENTS = ['interfaceComponents', 'internalComponents'];
+const REFERENCEABLE_SECTIONS = ['promises', 'expectations', 'obligations'];
+
+/**
+ * Split a JSON pointer (without the leading `#`) into its segments
+ */
+export function parseJsonPointer(pointer: string): string[] {
+  if (pointer === '' || pointer === '/') return [];
+
+  return pointer
+    .replace(/^\//, '')
+    .split('/')
+    .map((segment) =>
+      decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~'),
+    );
+}
+
+/**
+ * Get the value at a JSON pointer
+ * @returns The value, or undefined when the pointer doesn't exist
+ */
+export function getAtPointer(root: unknown, segments: string[]): unknown {
+  return segments.reduce<unknown>((node, segment) => {
+    if (Array.isArray(node)) return node[Number(segment)];
+    if (typeof node === 'object' && node !== null) {
+      return Object.prototype.hasOwnProperty.call(node, segment)
+        ? (node as Record<string, unknown>)[segment]
+        : undefined;
+    }
+    return undefined;
+  }, root);
+}
+
+/**
+ * Check whether a value is a Reference object
+ */
+export function isReference(value: unknown): value is { $ref: string } {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as Record<string, unknown>).$ref === 'string'
+  );
+}
+
+/**
+ * Kind of object expected at a path of the descriptor
+ */
+function expectedKindAt(slotPath: (string | number)[]): string | undefined {
+  const [section, kind, , ...rest] = slotPath;
+
+  if (
+    rest.length === 0 &&
+    typeof kind === 'string' &&
+    (COMPONENT_LIST_PARENTS.includes(String(section)) ||
+      section === 'components')
+  ) {
+    return kind;
+  }
+
+  const last = slotPath[slotPath.length - 1];
+  return REFERENCEABLE_SECTIONS.includes(String(last))
+    ? String(last)
+    : undefined;
+}
+
+// ===============================================================
+// Resolver
+// ===============================================================
+
+/**
+ * Collect every `$ref` of a descriptor, with the kind expected at its position
+ *
+ * The content of standard definitions (`definition`) is not searched, since
+ * its references belong to the definition's own specification.
+ *
+ * @param descriptor The descriptor data
+ * @returns The references found
+ */
+export function collectReferences(descriptor: unknown): ReferenceSlot[] {
+  const slots: ReferenceSlot[] = [];
+
+  const walk = (node: unknown, nodePath: (string | number)[]) => {
+    if (isReference(node)) {
+      slots.push({
+        path: nodePath,
+        ref: node.$ref,
+        expectedKind: expectedKindAt(nodePath),
+      });
+      return;
+    }
+
+    if (Array.isArray(node)) {
+      node.forEach((item, index) => walk(item, [...nodePath, index]));
+    } else if (typeof node === 'object' && node !== null) {
+      Object.entries(node).forEach(([key, value]) => {
+        if (key === 'definition') {
+          if (isReference(value)) walk(value, [...nodePath, key]);
+          return;
+        }
+        walk(value, [...nodePath, key]);
+      });
+    }
+  };
+
+  walk(descriptor, []);
+  return slots;
+}
+
+/**
+ * Create a resolver for the references of a descriptor
+ * Referenced files are read and parsed once
+ *
+ * @param root The descriptor data
+ * @param options Resolver options
+ * @returns Function resolving a `$ref` value
+ */
+export function createReferenceResolver(
+  root: unknown,
+  options: ReferenceResolverOptions = {},
+): (ref: string) => ResolvedReference {
+  const documents = new Map<string, unknown>();
+
+  const loadDocument = (file: string): unknown => {
+    if (!documents.has(file)) {
+      const parsed = parseDocument(
+        fs.readFileSync(file, 'utf-8'),
+        detectFormat(file),
+      );
+      if (!parsed.success) throw new Error(parsed.error);
+      documents.set(file, parsed.data);
+    }
+    return documents.get(file);
+  };
+
+  return (initialRef) => {
+    const visited = new Set<string>();
+    const chain: string[] = [];
+    let ref = initialRef;
+    let file: string | undefined;
+
+    for (;;) {
+      const hashIndex = ref.indexOf('#');
+      const target = hashIndex === -1 ? ref : ref.slice(0, hashIndex);
+      const pointer = hashIndex === -1 ? '' : ref.slice(hashIndex + 1);
+
+      if (/^[a-z][a-z0-9+.-]*:/i.test(target)) {
+        return {
+          success: false,
+          reason: 'unsupported',
+          message: `Cannot resolve remote reference "${ref}"`,
+        };
+      }
+
+      // File references are relative to the file holding them
+      if (target) {
+        const baseDir = file ? path.dirname(file) : options.baseDir;
+        if (baseDir === undefined) {
+          return {
+            success: false,
+            reason: 'unsupported',
+            message: `Cannot resolve file reference "${ref}" without a base directory`,
+          };
+        }
+        file = path.resolve(baseDir, target);
+      }
+
+      const key = `${file ?? ''}#${pointer}`;
+      if (visited.has(key)) {
+        return {
+          success: false,
+          reason: 'circular',
+          message: `Circular reference: ${[...chain, ref].join(' → ')}`,
+        };
+      }
+      visited.add(key);
+      chain.push(ref);
+
+      let document: unknown;
+      try {
+        document = file ? loadDocument(file) : root;
+      } catch (error) {
+        return {
+          success: false,
+          reason: 'unresolved',
+          message: `Cannot load "${target}": ${
+            error instanceof Error ? error.message : String(error)
+          }`,
+        };
+      }
+
+      // Malformed percent-encoding (e.g. "100%") can't be decoded
+      let segments: string[];
+      try {
+        segments = parseJsonPointer(pointer);
+      } catch {
+        return {
+          success: false,
+          reason: 'unresolved',
+          message: `Invalid JSON pointer in reference "${ref}"`,
+        };
+      }
+      const value = getAtPointer(document, segments);
+
+      if (value === undefined) {
+        return {
+          success: false,
+          reason: 'unresolved',
+          message: `Unresolved reference "${ref}"`,
+        };
+      }
+
+      if (isReference(value)) {
+        ref = value.$ref;
+        continue;
+      }
+
+      const kind =
+        segments[0] === 'components' && segments.length === 3
+          ? segments[1]
+          : undefined;
+      return { success: true, value, kind, file, chain };
+    }
+  };
+}
+
+/**
+ * Get the object behind a value that may be a Reference
+ * @param value An inline object or a Reference
+ * @param resolve Resolver created with `createReferenceResolver`
+ * @returns The inline or referenced object, undefined when unresolvable
+ */
+export function resolveEntity<T extends object>(
+  value: T | { $ref: string },
+  resolve: (ref: string) => ResolvedReference,
+): T | undefined {
+  if (!isReference(value)) return value as T;
+
+  const resolved = resolve(value.$ref);
+  return resolved.success &&
+    typeof resolved.value === 'object' &&
+    resolved.value !== null
+    ? (resolved.value as T)
+    : undefined;
+}
+
+/**
+ * Check that every reference of a descriptor resolves to an object of the
+ * expected kind
+ *
+ * @param descriptor The descriptor data
+ * @param options Resolver options
+ * @returns Issues for unresolved, circular and wrong-kind references
+ */
+export function checkReferences(
+  descriptor: unknown,
+  options: ReferenceResolverOptions = {},
+): VerificationIssue[] {
+  const resolve = createReferenceResolver(descriptor, options);
+  const issues: VerificationIssue[] = [];
+
+  collectReferences(descriptor).forEach(
+    ({ path: slotPath, ref, expectedKind }) => {
+      const issuePath = [...slotPath, '$ref'];
+      const resolved = resolve(ref);
+
+      if (!resolved.success) {
+        // Remote references and missing base directories can't be checked here
+        if (resolved.reason === 'unsupported') return;
+
+        issues.push({
+          severity: 'error',
+          rule:
+            resolved.reason === 'circular'
+              ? 'circular-reference'
+              : 'unresolved-reference',
+          path: issuePath,
+          message: resolved.message,
+        });
+        return;
+      }
+
+      if (
+        typeof resolved.value !== 'object' ||
+        resolved.value === null ||
+        Array.isArray(resolved.value)
+      ) {
+        issues.push({
+          severity: 'error',
+          rule: 'reference-kind',
+          path: issuePath,
+          message: `Reference "${ref}" must point to an object`,
+        });
+      } else if (
+        expectedKind &&
+        resolved.kind &&
+        resolved.kind !== expectedKind
+      ) {
+        issues.push({
+          severity: 'error',
+          rule: 'reference-kind',
+          path: issuePath,
+          message: `Reference "${ref}" points to ${resolved.kind}, expected ${expectedKind}`,
+        });
+      }
+    },
+  );
+
+  return issues;
+}
@@ -0,0 +1,232 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { DataProductDescriptor } from '../types';
+import { validDescriptor } from './__fixtures__/descriptors';
+import {
+  configureIssues,
+  findLintConfig,
+  LintConfig,
+  lintDescriptor,
+  loadLintConfig,
+} from './rules';
+import { verifyDataProduct } from './verify';
+
+const config = (rules: LintConfig['rules']): LintConfig => ({
+  rules,
+  plugins: [],
+});
+
+/**
+ * The fixture, with application components depending on each other
+ */
+function descriptorWithCycle(): DataProductDescriptor {
+  return {
+    ...validDescriptor(),
+    internalComponents: {
+      applicationComponents: [
+        { name: 'loader', version: '1.0.0', dependsOn: ['reporter'] },
+        { name: 'reporter', version: '1.0.0', dependsOn: ['loader'] },
+      ],
+    },
+  };
+}
+
+const rulesOf = (issues: { rule: string }[]) => issues.map(({ rule }) => rule);
+
+describe('lintDescriptor', () => {
+  it('only checks best practices in strict mode', () => {
+    expect(lintDescriptor(validDescriptor())).toEqual([]);
+    expect(
+      rulesOf(lintDescriptor(validDescriptor(), { strict: true })),
+    ).toEqual(['info-description', 'output-port-promises', 'contact-points']);
+  });
+
+  it('checks component dependencies', () => {
+    expect(lintDescriptor(descriptorWithCycle())).toMatchObject([
+      {
+        severity: 'error',
+        rule: 'dependency-cycle',
+        path: ['internalComponents', 'applicationComponents', 0, 'dependsOn'],
+      },
+    ]);
+  });
+
+  it('applies the configured severities', () => {
+    const issues = lintDescriptor(descriptorWithCycle(), {
+      config: config({ 'dependency-cycle': 'warn', 'contact-points': 'error' }),
+    });
+
+    expect(issues.map(({ rule, severity }) => [rule, severity])).toEqual([
+      ['dependency-cycle', 'warning'],
+      ['contact-points', 'error'],
+    ]);
+  });
+
+  it('skips rules turned off, even in strict mode', () => {
+    const issues = lintDescriptor(descriptorWithCycle(), {
+      config: config({
+        'dependency-cycle': 'off',
+        'info-description': 'off',
+        'contact-points': 'off',
+      }),
+      strict: true,
+    });
+
+    expect(rulesOf(issues)).toEqual(['output-port-promises']);
+  });
+
+  it('skips rules disabled by a value on the path of the issue', () => {
+    const descriptor = descriptorWithCycle();
+    Object.assign(descriptor.info, { 'x-dpds-disable': ['info-description'] });
+    Object.assign(descriptor.internalComponents!, {
+      'x-dpds-disable': ['dependency-cycle'],
+    });
+    Object.assign(descriptor.interfaceComponents.outputPorts[0], {
+      'x-dpds-disable': true,
+    });
+
+    const issues = lintDescriptor(descriptor, { strict: true });
+
+    expect(rulesOf(issues)).toEqual(['contact-points']);
+  });
+
+  it('reports plugin rules that throw', () => {
+    const issues = lintDescriptor(validDescriptor(), {
+      config: {
+        rules: {},
+        plugins: [
+          {
+            name: 'broken',
+            check: () => {
+              throw new Error('Not implemented');
+            },
+          },
+        ],
+      },
+    });
+
+    expect(issues).toEqual([
+      {
+        severity: 'error',
+        rule: 'broken',
+        path: [],
+        message: 'Rule broken failed: Not implemented',
+      },
+    ]);
+  });
+});
+
+describe('configureIssues', () => {
+  it('configures issues found outside of the lint rules', () => {
+    const issues = configureIssues(
+      validDescriptor(),
+      [
+        {
+          severity: 'warning',
+          rule: 'orphaned-output-port',
+          path: ['interfaceComponents', 'outputPorts', 0],
+          message: 'Output port tripDetails is not consumed',
+        },
+        {
+          severity: 'error',
+          rule: 'dangling-input-port',
+          path: ['interfaceComponents', 'inputPorts', 0],
+          message: 'No data product in the mesh',
+        },
+      ],
+      config({ 'orphaned-output-port': 'error', 'dangling-input-port': 'off' }),
+    );
+
+    expect(issues).toMatchObject([
+      { rule: 'orphaned-output-port', severity: 'error' },
+    ]);
+  });
+});
+
+describe('verifyDataProduct', () => {
+  it('runs the consistency checks as configurable rules', () => {
+    const descriptor = validDescriptor();
+    descriptor.info.version = '2.0.0';
+
+    expect(rulesOf(verifyDataProduct(descriptor).issues)).toEqual([
+      'product-fqn-consistency',
+    ]);
+    expect(
+      verifyDataProduct(descriptor, {
+        lint: config({ 'product-fqn-consistency': 'warn' }),
+      }).isValid,
+    ).toBe(true);
+  });
+});
+
+describe('loadLintConfig', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'dpds-rules-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  const writeConfig = (content: string) => {
+    const filePath = path.join(directory, '.dpdsrc');
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  };
+
+  it('reads the severities of built-in and external rules', async () => {
+    const filePath = writeConfig(
+      'rules:\n  dependency-cycle: warn\n  orphaned-output-port: "off"\n',
+    );
+
+    await expect(loadLintConfig(filePath)).resolves.toEqual({
+      rules: { 'dependency-cycle': 'warn', 'orphaned-output-port': 'off' },
+      plugins: [],
+      filePath,
+    });
+  });
+
+  it('rejects unknown rules and properties', async () => {
+    await expect(
+      loadLintConfig(writeConfig('rules:\n  no-such-rule: warn\n')),
+    ).rejects.toThrow('Unknown rule "no-such-rule"');
+    await expect(
+      loadLintConfig(writeConfig('rulez:\n  contact-points: warn\n')),
+    ).rejects.toThrow('Unrecognized key');
+  });
+
+  it('loads the rules of plugin modules', async () => {
+    fs.writeFileSync(
+      path.join(directory, 'owner.mjs'),
+      `export default {
+        name: 'owner-name',
+        check: (descriptor) =>
+          descriptor.info.owner.name ? [] : [{ path: ['info', 'owner'], message: 'Missing owner name' }],
+      };`,
+    );
+    const filePath = writeConfig(
+      'rules:\n  owner-name: error\nplugins:\n  - ./owner.mjs\n',
+    );
+
+    const loaded = await loadLintConfig(filePath);
+    const descriptor = validDescriptor();
+    delete descriptor.info.owner.name;
+
+    expect(lintDescriptor(descriptor, { config: loaded })).toMatchObject([
+      { severity: 'error', rule: 'owner-name', message: 'Missing owner name' },
+    ]);
+  });
+
+  it('finds the configuration of a parent directory', async () => {
+    const filePath = writeConfig('rules:\n  contact-points: error\n');
+    fs.mkdirSync(path.join(directory, 'products'));
+
+    await expect(
+      findLintConfig(path.join(directory, 'products', 'trips.json')),
+    ).resolves.toMatchObject({ filePath });
+  });
+});
@@ -0,0 +1,547 @@
+/**
+ * Lint Rules
+ *
+ * Checks run on descriptors that pass schema validation: consistency,
+ * references, component dependencies, standard definitions and best
+ * practices. Each check is a named rule whose severity (off, warn or error)
+ * is set in a `.dpdsrc` file, which also lists local modules adding rules of
+ * their own, e.g. to encode governance policies. Values of a descriptor turn
+ * rules off for themselves and their content with an `x-dpds-disable`
+ * property.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { z } from 'zod';
+import type { DataProductDescriptor } from '../types';
+import { checkConsistency } from '../semanticSchemas';
+import { checkStandardDefinitions } from './definitions';
+import { checkComponentDependencies } from './dependencies';
+import { parseDocument } from './parse';
+import { checkReferences } from './references';
+import type { IssueSeverity, VerificationIssue } from './verify';
+
+// ===============================================================
+// Types
+// ===============================================================
+
+type Path = (string | number)[];
+
+export type RuleSeverity = 'off' | 'warn' | 'error';
+
+/**
+ * A problem found by a rule
+ */
+export interface RuleIssue {
+  /** Path of the offending value inside the descriptor */
+  path: Path;
+  message: string;
+  /** Severity of this issue when the configuration doesn't set one */
+  severity?: Exclude<RuleSeverity, 'off'>;
+}
+
+/**
+ * What rules know about the descriptor beside its content
+ */
+export interface RuleContext {
+  /** Directory of the descriptor, locating the files it references */
+  baseDir?: string;
+}
+
+/**
+ * A named check of valid descriptors
+ * @example
+ * const rule: LintRule = {
+ *   name: 'owner-email',
+ *   description: 'Owners are identified by their email address',
+ *   check: (descriptor) =>
+ *     descriptor.info.owner.id.includes('@')
+ *       ? []
+ *       : [{ path: ['info', 'owner', 'id'], message: 'The owner id is not an email address' }],
+ * };
+ */
+export interface LintRule {
+  name: string;
+  description?: string;
+  /** Severity when the configuration doesn't set one (default: warn) */
+  severity?: RuleSeverity;
+  /** Only run in strict mode when the configuration doesn't set a severity */
+  strict?: boolean;
+  check: (
+    descriptor: DataProductDescriptor,
+    context: RuleContext,
+  ) => RuleIssue[];
+}
+
+/**
+ * Rule configuration, as read from a `.dpdsrc` file
+ */
+export interface LintConfig {
+  /** Severity of rules, by name */
+  rules: Record<string, RuleSeverity>;
+  /** Rules exported by the modules listed in `plugins` */
+  plugins: LintRule[];
+  /** File the configuration was read from */
+  filePath?: string;
+}
+
+/**
+ * Name of the configuration file, looked up from the descriptor's directory
+ */
+export const CONFIG_FILE_NAME = '.dpdsrc';
+
+/**
+ * Property turning rules off for a value and its content: `true` for every
+ * rule, or a rule name or list of rule names
+ * @example { "x-dpds-disable": ["output-port-promises"] }
+ */
+export const DISABLE_PROPERTY = 'x-dpds-disable';
+
+const severitySchema = z.enum(['off', 'warn', 'error']);
+
+const configSchema = z
+  .object({
+    rules: z.record(severitySchema).optional(),
+    plugins: z.array(z.string()).optional(),
+  })
+  .strict();
+
+// ===============================================================
+// Built-in Rules
+// ===============================================================
+
+type Check = (
+  descriptor: DataProductDescriptor,
+  context: RuleContext,
+) => { rule: string; path: Path; message: string; severity?: IssueSeverity }[];
+
+const checkResults = new WeakMap<RuleContext, Map<Check, ReturnType<Check>>>();
+
+/**
+ * Rule reporting the issues of a check that covers several rules
+ * The check runs once per lint run, whichever of its rules are on.
+ */
+const ruleOf =
+  (check: Check) =>
+  (
+    name: string,
+    description: string,
+    severity: RuleSeverity = 'error',
+  ): LintRule => ({
+    name,
+    description,
+    severity,
+    check: (descriptor, context) => {
+      let results = checkResults.get(context);
+      if (!results) checkResults.set(context, (results = new Map()));
+      let found = results.get(check);
+      if (!found) results.set(check, (found = check(descriptor, context)));
+
+      return found
+        .filter((issue) => issue.rule === name)
+        .map(({ path, message, severity }) => ({
+          path,
+          message,
+          severity: severity === 'warning' ? 'warn' : severity,
+        }));
+    },
+  });
+
+const consistencyRule = ruleOf((descriptor) => checkConsistency(descriptor));
+const referenceRule = ruleOf(checkReferences);
+const dependencyRule = ruleOf(checkComponentDependencies);
+const definitionRule = ruleOf(checkStandardDefinitions);
+
+const outputPorts = (descriptor: DataProductDescriptor) =>
+  descriptor.interfaceComponents.outputPorts.flatMap((port, index) =>
+    '$ref' in port
+      ? [] // Skip references
+      : [
+          {
+            port,
+            name: port.name || `#${index}`,
+            path: ['interfaceComponents', 'outputPorts', index],
+          },
+        ],
+  );
+
+/**
+ * Checks of valid descriptors
+ * Best practices are only checked in strict mode unless configured otherwise.
+ */
+export const BUILT_IN_RULES: LintRule[] = [
+  consistencyRule(
+    'product-fqn-consistency',
+    'The fully qualified name matches the name and major version',
+  ),
+  consistencyRule(
+    'port-fqn-consistency',
+    'Port fully qualified names extend the data product URN',
+  ),
+  referenceRule('unresolved-reference', 'References resolve'),
+  referenceRule('circular-reference', 'References are not circular'),
+  referenceRule(
+    'reference-kind',
+    'References point to an object of the expected kind',
+  ),
+  dependencyRule(
+    'unknown-component-reference',
+    'Components depend on components and ports that exist',
+  ),
+  dependencyRule('dependency-cycle', 'Component dependencies are not circular'),
+  dependencyRule(
+    'unreachable-infrastructure',
+    'Infrastructural components are used by an application component',
+    'warn',
+  ),
+  definitionRule(
+    'definition-content',
+    'Standard definitions are valid for their specification',
+  ),
+  {
+    name: 'info-description',
+    description: 'Data products have a description',
+    strict: true,
+    check: (descriptor) =>
+      descriptor.info.description
+        ? []
+        : [
+            {
+              path: ['info'],
+              message: 'Missing data product description in info',
+            },
+          ],
+  },
+  {
+    name: 'output-port-description',
+    description: 'Output ports have a description',
+    strict: true,
+    check: (descriptor) =>
+      outputPorts(descriptor)
+        .filter(({ port }) => !port.description)
+        .map(({ name, path }) => ({
+          path,
+          message: `Missing description for output port ${name}`,
+        })),
+  },
+  {
+    name: 'output-port-promises',
+    description: 'Output ports declare their promises',
+    strict: true,
+    check: (descriptor) =>
+      outputPorts(descriptor)
+        .filter(({ port }) => !port.promises)
+        .map(({ name, path }) => ({
+          path,
+          message: `Missing promises in output port ${name}`,
+        })),
+  },
+  {
+    name: 'contact-points',
+    description: 'Data products have contact points',
+    strict: true,
+    check: (descriptor) =>
+      descriptor.info.contactPoints?.length
+        ? []
+        : [
+            {
+              path: ['info'],
+              message: 'No contact points defined for the data product',
+            },
+          ],
+  },
+];
+
+/**
+ * Rules checked outside of lintDescriptor, configured the same way: the
+ * declared specification version, checked before schema validation, and the
+ * connections between the descriptors of a mesh
+ * @see verify.ts checkSpecVersion
+ * @see mesh.ts checkMesh
+ */
+export const EXTERNAL_RULES: Pick<LintRule, 'name' | 'description'>[] = [
+  {
+    name: 'unknown-spec-version',
+    description: 'Descriptors declare a registered specification version',
+  },
+  {
+    name: 'duplicate-data-product',
+    description: 'Data products of a mesh have distinct identifiers',
+  },
+  {
+    name: 'dangling-input-port',
+    description: 'Input ports consume an output port of the mesh',
+  },
+  {
+    name: 'incompatible-input-port',
+    description: 'Input ports are compatible with the output port they consume',
+  },
+  {
+    name: 'orphaned-output-port',
+    description: 'Output ports are consumed by a data product of the mesh',
+  },
+];
+
+// ===============================================================
+// Linting
+// ===============================================================
+
+const toIssueSeverity = (severity: RuleSeverity): IssueSeverity =>
+  severity === 'error' ? 'error' : 'warning';
+
+/**
+ * Whether a value on the path of an issue turns its rule off
+ */
+function isDisabled(descriptor: unknown, issuePath: Path, rule: string) {
+  let value = descriptor;
+
+  for (let index = 0; index <= issuePath.length; index++) {
+    if (typeof value !== 'object' || value === null) return false;
+
+    const disabled = (value as Record<string, unknown>)[DISABLE_PROPERTY];
+    if (
+      disabled === true ||
+      disabled === rule ||
+      (Array.isArray(disabled) && disabled.includes(rule))
+    ) {
+      return true;
+    }
+
+    if (index < issuePath.length) {
+      value = (value as Record<string | number, unknown>)[issuePath[index]];
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Rules of a configuration, plugin rules replacing built-in ones with the
+ * same name
+ */
+export function getLintRules(config?: LintConfig): LintRule[] {
+  const rules = new Map(BUILT_IN_RULES.map((rule) => [rule.name, rule]));
+  config?.plugins.forEach((rule) => rules.set(rule.name, rule));
+  return [...rules.values()];
+}
+
+/**
+ * Names of the rules a configuration can set, checked by lintDescriptor or
+ * elsewhere
+ */
+export function getRuleNames(config?: LintConfig): string[] {
+  return [...getLintRules(config), ...EXTERNAL_RULES].map(({ name }) => name);
+}
+
+/**
+ * Run the lint rules on a valid descriptor
+ *
+ * Rules without a configured severity use the one of their issues, then
+ * their own, and rules marked `strict` only run in strict mode. A rule that
+ * throws is reported as an error of that rule.
+ *
+ * @param descriptor The validated descriptor
+ * @param options The rule configuration, whether verification is strict and
+ * the directory of the descriptor
+ * @returns Issues found, with the rule name and its severity
+ */
+export function lintDescriptor(
+  descriptor: DataProductDescriptor,
+  options: { config?: LintConfig; strict?: boolean; baseDir?: string } = {},
+): VerificationIssue[] {
+  const { config, strict = false, baseDir } = options;
+  const context: RuleContext = { baseDir };
+  const issues: VerificationIssue[] = [];
+
+  getLintRules(config).forEach((rule) => {
+    const configured = config?.rules[rule.name];
+    const severity =
+      configured ??
+      (rule.strict && !strict ? 'off' : (rule.severity ?? 'warn'));
+    if (severity === 'off') return;
+
+    let found: RuleIssue[];
+    try {
+      found = rule.check(descriptor, context);
+    } catch (error) {
+      issues.push({
+        severity: 'error',
+        rule: rule.name,
+        path: [],
+        message: `Rule ${rule.name} failed: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      });
+      return;
+    }
+
+    found
+      .filter((issue) => !isDisabled(descriptor, issue.path, rule.name))
+      .forEach((issue) =>
+        issues.push({
+          severity: toIssueSeverity(configured ?? issue.severity ?? severity),
+          rule: rule.name,
+          path: issue.path,
+          message: issue.message,
+        }),
+      );
+  });
+
+  return issues;
+}
+
+/**
+ * Apply the rule configuration to issues found outside of lintDescriptor
+ *
+ * Issues of rules turned off, or disabled by a value on their path, are
+ * dropped, and the others take the configured severity of their rule.
+ *
+ * @param descriptor The descriptor the issues were found in
+ * @param issues The issues, with the name of their rule
+ * @param config The rule configuration
+ */
+export function configureIssues(
+  descriptor: unknown,
+  issues: VerificationIssue[],
+  config?: LintConfig,
+): VerificationIssue[] {
+  return issues.flatMap((issue) => {
+    const configured = config?.rules[issue.rule];
+    if (
+      configured === 'off' ||
+      isDisabled(descriptor, issue.path, issue.rule)
+    ) {
+      return [];
+    }
+    return configured
+      ? [{ ...issue, severity: toIssueSeverity(configured) }]
+      : [issue];
+  });
+}
+
+// ===============================================================
+// Configuration
+// ===============================================================
+
+const isLintRule = (value: unknown): value is LintRule =>
+  typeof value === 'object' &&
+  value !== null &&
+  typeof (value as LintRule).name === 'string' &&
+  typeof (value as LintRule).check === 'function';
+
+/**
+ * Load the rules exported by a plugin module: a rule or a list of rules as
+ * default export
+ */
+async function loadPlugin(modulePath: string): Promise<LintRule[]> {
+  const module = await import(pathToFileURL(modulePath).href);
+  const exported = module.default;
+  const rules = Array.isArray(exported) ? exported : [exported];
+
+  if (rules.length === 0 || !rules.every(isLintRule)) {
+    throw new Error(
+      `${modulePath} must export a rule or a list of rules (name, check) as default`,
+    );
+  }
+
+  return rules;
+}
+
+/**
+ * Read a configuration file
+ *
+ * The file holds JSON or YAML with the severity of rules and the plugin
+ * modules to load, relative to the file:
+ *
+ * ```yaml
+ * rules:
+ *   info-description: error
+ *   contact-points: off
+ * plugins:
+ *   - ./rules/governance.mjs
+ * ```
+ *
+ * @param filePath Path of the configuration file
+ * @returns The configuration, with the plugin rules loaded
+ * @throws When the file can't be read or is invalid, a plugin can't be
+ * loaded, or a configured rule doesn't exist
+ */
+export async function loadLintConfig(filePath: string): Promise<LintConfig> {
+  const fail = (message: string) => new Error(`${filePath}: ${message}`);
+
+  let source: string;
+  try {
+    source = await fs.promises.readFile(filePath, 'utf-8');
+  } catch (error) {
+    throw fail(error instanceof Error ? error.message : String(error));
+  }
+
+  // YAML is a superset of JSON
+  const parsed = parseDocument(source, 'yaml');
+  if (!parsed.success) throw fail(parsed.error);
+
+  const result = configSchema.safeParse(parsed.data ?? {});
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw fail(
+      issue.path.length > 0
+        ? `${issue.path.join('.')}: ${issue.message}`
+        : issue.message,
+    );
+  }
+
+  const plugins: LintRule[] = [];
+  for (const plugin of result.data.plugins ?? []) {
+    const modulePath = path.resolve(path.dirname(filePath), plugin);
+    try {
+      plugins.push(...(await loadPlugin(modulePath)));
+    } catch (error) {
+      throw fail(
+        `Cannot load plugin ${plugin}: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      );
+    }
+  }
+
+  const config = { rules: result.data.rules ?? {}, plugins, filePath };
+  const names = getRuleNames(config);
+  const unknown = Object.keys(config.rules).find(
+    (name) => !names.includes(name),
+  );
+  if (unknown) throw fail(`Unknown rule "${unknown}"`);
+
+  return config;
+}
+
+const configsByDirectory = new Map<string, Promise<LintConfig | undefined>>();
+
+/**
+ * Find and read the configuration of a descriptor: the closest `.dpdsrc`
+ * file in its directory or a parent directory
+ * Configurations are read once per directory.
+ * @param filePath Path of the descriptor
+ * @returns The configuration, undefined when there is none
+ * @throws See loadLintConfig
+ */
+export function findLintConfig(
+  filePath: string,
+): Promise<LintConfig | undefined> {
+  const lookup = (directory: string): Promise<LintConfig | undefined> => {
+    let config = configsByDirectory.get(directory);
+    if (!config) {
+      const configPath = path.join(directory, CONFIG_FILE_NAME);
+      const parent = path.dirname(directory);
+      config = fs.existsSync(configPath)
+        ? loadLintConfig(configPath)
+        : parent !== directory
+          ? lookup(parent)
+          : Promise.resolve(undefined);
+      configsByDirectory.set(directory, config);
+    }
+    return config;
+  };
+
+  return lookup(path.dirname(path.resolve(filePath)));
+}
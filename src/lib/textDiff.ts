@@ -0,0 +1,104 @@
+/**
+ * Text Diff
+ *
+ * Minimal line based unified diff, used to preview rewrites of descriptor
+ * files without writing them.
+ */
+
+type DiffLine = { type: ' ' | '-' | '+'; text: string };
+
+/**
+ * Compute the line operations turning `before` into `after`
+ * Uses the longest common subsequence of the two line lists
+ */
+function diffLines(before: string[], after: string[]): DiffLine[] {
+  const rows = before.length + 1;
+  const cols = after.length + 1;
+  const lcs = new Uint32Array(rows * cols);
+
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lcs[i * cols + j] =
+        before[i] === after[j]
+          ? lcs[(i + 1) * cols + j + 1] + 1
+          : Math.max(lcs[(i + 1) * cols + j], lcs[i * cols + j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+
+  while (i < before.length || j < after.length) {
+    if (i < before.length && j < after.length && before[i] === after[j]) {
+      lines.push({ type: ' ', text: before[i] });
+      i++;
+      j++;
+    } else if (
+      i < before.length &&
+      (j === after.length || lcs[(i + 1) * cols + j] >= lcs[i * cols + j + 1])
+    ) {
+      lines.push({ type: '-', text: before[i] });
+      i++;
+    } else {
+      lines.push({ type: '+', text: after[j] });
+      j++;
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Render a unified diff between two texts
+ * @param before Original text
+ * @param after Updated text
+ * @param fileName Name shown in the diff header
+ * @param context Number of unchanged lines shown around changes
+ * @returns The unified diff, or an empty string when texts are equal
+ */
+export function formatUnifiedDiff(
+  before: string,
+  after: string,
+  fileName: string,
+  context: number = 3,
+): string {
+  if (before === after) return '';
+
+  const lines = diffLines(before.split('\n'), after.split('\n'));
+  const output = [`--- ${fileName}`, `+++ ${fileName}`];
+  let index = 0;
+
+  while (index < lines.length) {
+    // Find the next change, then extend the hunk while changes are close
+    const firstChange = lines.findIndex(
+      (line, i) => i >= index && line.type !== ' ',
+    );
+    if (firstChange === -1) break;
+
+    const start = Math.max(index, firstChange - context);
+    let end = firstChange;
+
+    for (let i = firstChange; i < lines.length && i <= end + context * 2; i++) {
+      if (lines[i].type !== ' ') end = i;
+    }
+    end = Math.min(lines.length - 1, end + context);
+
+    const hunk = lines.slice(start, end + 1);
+    const beforeStart =
+      lines.slice(0, start).filter((l) => l.type !== '+').length + 1;
+    const afterStart =
+      lines.slice(0, start).filter((l) => l.type !== '-').length + 1;
+    const beforeCount = hunk.filter((l) => l.type !== '+').length;
+    const afterCount = hunk.filter((l) => l.type !== '-').length;
+
+    output.push(
+      `@@ -${beforeStart},${beforeCount} +${afterStart},${afterCount} @@`,
+    );
+    hunk.forEach((line) => output.push(`${line.type}${line.text}`));
+
+    index = end + 1;
+  }
+
+  return output.join('\n');
+}
@@ -0,0 +1,208 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  MockInstance,
+  vi,
+} from 'vitest';
+import { validDescriptor } from './__fixtures__/descriptors';
+import { cli, verifyDescriptorFile, verifyFile, verifyFiles } from './verify';
+
+let directory: string;
+
+beforeEach(() => {
+  directory = fs.mkdtempSync(path.join(os.tmpdir(), 'dpds-verify-'));
+});
+
+afterEach(() => {
+  fs.rmSync(directory, { recursive: true, force: true });
+  vi.restoreAllMocks();
+});
+
+/**
+ * Write a file to the temporary directory
+ * @returns Its path
+ */
+const write = (fileName: string, content: unknown) => {
+  const filePath = path.join(directory, fileName);
+  fs.writeFileSync(
+    filePath,
+    typeof content === 'string' ? content : JSON.stringify(content),
+  );
+  return filePath;
+};
+
+const invalidDescriptor = () => ({ ...validDescriptor(), info: {} });
+
+describe('verifyFile', () => {
+  it('verifies synchronously, without looking for a .dpdsrc file', () => {
+    write('.dpdsrc', 'rules:\n  contact-points: error\n');
+    const filePath = write('trips.json', validDescriptor());
+
+    const verification = verifyFile(filePath);
+
+    expect(verification).not.toBeInstanceOf(Promise);
+    expect(verification.result.isValid).toBe(true);
+    expect(verification.data).toEqual(validDescriptor());
+  });
+
+  it('reports missing files and parse errors', () => {
+    expect(
+      verifyFile(path.join(directory, 'missing.json')).result.issues,
+    ).toMatchObject([{ rule: 'file-not-found' }]);
+    expect(
+      verifyFile(write('broken.yaml', 'info: [')).result.issues,
+    ).toMatchObject([{ rule: 'parse-error', line: 1 }]);
+  });
+});
+
+describe('verifyDescriptorFile', () => {
+  it('applies the rules of the closest .dpdsrc file', async () => {
+    write('.dpdsrc', 'rules:\n  contact-points: error\n');
+    const filePath = write('trips.json', validDescriptor());
+
+    const verification = await verifyDescriptorFile(filePath);
+
+    expect(verification.result.isValid).toBe(false);
+    expect(verification.result.issues).toMatchObject([
+      { rule: 'contact-points', path: ['info'] },
+    ]);
+  });
+
+  it('prefers the lint option to .dpdsrc files', async () => {
+    write('.dpdsrc', 'rules:\n  contact-points: error\n');
+    const filePath = write('trips.json', validDescriptor());
+
+    const verification = await verifyDescriptorFile(filePath, {
+      lint: { rules: {}, plugins: [] },
+    });
+
+    expect(verification.result.isValid).toBe(true);
+  });
+
+  it('reports invalid .dpdsrc files', async () => {
+    write('.dpdsrc', 'rules:\n  no-such-rule: error\n');
+    const filePath = write('trips.json', validDescriptor());
+
+    const verification = await verifyDescriptorFile(filePath);
+
+    expect(verification.result.issues).toMatchObject([{ rule: 'lint-config' }]);
+    expect(verification.source).toBeDefined();
+  });
+});
+
+describe('verifyFiles', () => {
+  it('reports every file in order', async () => {
+    const filePaths = [
+      write('a.json', invalidDescriptor()),
+      write('b.json', validDescriptor()),
+      write('c.json', invalidDescriptor()),
+    ];
+
+    const reports = await verifyFiles(filePaths);
+
+    expect(reports.map(({ filePath }) => filePath)).toEqual(filePaths);
+    expect(reports.map(({ result }) => result.isValid)).toEqual([
+      false,
+      true,
+      false,
+    ]);
+  });
+
+  it('stops after the first invalid file with failFast', async () => {
+    const filePaths = [
+      write('a.json', validDescriptor()),
+      write('b.json', invalidDescriptor()),
+      write('c.json', validDescriptor()),
+      write('d.json', invalidDescriptor()),
+    ];
+
+    const sequential = await verifyFiles(filePaths, {
+      failFast: true,
+      concurrency: 1,
+    });
+    const concurrent = await verifyFiles(filePaths, { failFast: true });
+
+    [sequential, concurrent].forEach((reports) =>
+      expect(reports.map(({ filePath }) => filePath)).toEqual(
+        filePaths.slice(0, 2),
+      ),
+    );
+  });
+});
+
+describe('verify command', () => {
+  let exit: MockInstance;
+  let log: MockInstance;
+  let error: MockInstance;
+
+  beforeEach(() => {
+    // Stop the command where it exits, like the process would
+    exit = vi.spyOn(process, 'exit').mockImplementation((code) => {
+      throw new Error(`exit ${code}`);
+    });
+    log = vi.spyOn(console, 'log').mockImplementation(() => {});
+    error = vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  /**
+   * Run the command line with arguments
+   * @returns The exit code
+   */
+  const run = async (...args: string[]) => {
+    vi.spyOn(process, 'argv', 'get').mockReturnValue([
+      'node',
+      'verify',
+      ...args,
+    ]);
+    await cli().catch(() => undefined);
+    return exit.mock.calls[0]?.[0];
+  };
+
+  it('fails when there are more warnings than allowed', async () => {
+    // The fixture has no description, contact points nor promises
+    const filePath = write('trips.json', validDescriptor());
+
+    expect(
+      await run('verify', filePath, '--strict', '--max-warnings', '2'),
+    ).toBe(1);
+    expect(error).toHaveBeenCalledWith(
+      '\nToo many warnings: 3 found, at most 2 allowed',
+    );
+  });
+
+  it('succeeds with as many warnings as allowed', async () => {
+    const filePath = write('trips.json', validDescriptor());
+
+    expect(
+      await run('verify', filePath, '--strict', '--max-warnings', '3'),
+    ).toBe(0);
+  });
+
+  it('rejects invalid warning limits', async () => {
+    const filePath = write('trips.json', validDescriptor());
+
+    expect(await run('verify', filePath, '--max-warnings', 'many')).toBe(1);
+    expect(error).toHaveBeenCalledWith(
+      'Error: --max-warnings must be a non-negative integer',
+    );
+  });
+
+  it('only reports the files verified before the first failure with --fail-fast', async () => {
+    write('a.json', invalidDescriptor());
+    write('b.json', validDescriptor());
+
+    expect(
+      await run('verify', directory, '--fail-fast', '--format', 'json'),
+    ).toBe(1);
+    const output = JSON.parse(log.mock.calls[0][0]);
+    expect(
+      output.files.map(({ file }: { file: string }) => path.basename(file)),
+    ).toEqual(['a.json']);
+  });
+});
@@ -7,14 +7,103 @@
  */
 
 import * as fs from 'fs';
+import * as path from 'path';
+import * as readline from 'readline/promises';
+import { parseArgs } from 'util';
+import { pathToFileURL } from 'url';
 import { z } from 'zod';
-import { dataProductDescriptorSchema } from '../zodSchemas';
+import {
+  getSpecVersions,
+  registerSpecVersion,
+  resolveSpecVersion,
+  SpecVersion,
+} from '../specVersions';
 import { DataProductDescriptor } from '../types';
+import { resolveDescriptorPaths } from './files';
+import {
+  detectFormat,
+  formatParseError,
+  parseDocument,
+  stringifyDocument,
+} from './parse';
+import { locateIssues } from './locations';
+import {
+  createZodDefinitionValidator,
+  registerDefinitionValidator,
+} from './definitions';
+import { applyFixesToSource, fixDataProduct, FixOptions } from './fix';
+import {
+  BUILT_IN_RULES,
+  CONFIG_FILE_NAME,
+  configureIssues,
+  findLintConfig,
+  getRuleNames,
+  LintConfig,
+  lintDescriptor,
+  loadLintConfig,
+} from './rules';
+import { formatUnifiedDiff } from './textDiff';
+import { applyMigrationToSource, migrateDescriptor } from './migrate';
+import { bundleDescriptor, splitDescriptor } from './bundle';
+import { formatDescriptorSource } from './normalize';
+import {
+  API_SPECIFICATIONS,
+  createDescriptor,
+  InitField,
+  InitInput,
+  normalizeInitInput,
+} from './init';
+import { diffDataProducts, DescriptorDiff } from './diff';
+import { checkMesh } from './mesh';
+import {
+  buildLineageGraph,
+  formatGraph,
+  GRAPH_FORMATS,
+  GraphFormat,
+  isGraphFormat,
+} from './graph';
+import {
+  DOCS_FORMATS,
+  DocsFormat,
+  isDocsFormat,
+  renderDescriptorDocs,
+  renderMeshIndex,
+} from './docs';
+import {
+  FileReport,
+  formatIssueMessage,
+  formatIssuePath,
+  formatReports,
+  isOutputFormat,
+  OUTPUT_FORMATS,
+  OutputFormat,
+} from './formatters';
 
 // ===============================================================
 // Validation Helper Functions
 // ===============================================================
 
+/**
+ * Severity of a single verification issue
+ */
+export type IssueSeverity = 'error' | 'warning';
+
+/**
+ * A single problem found while verifying a descriptor
+ */
+export interface VerificationIssue {
+  severity: IssueSeverity;
+  /** Name of the rule that produced the issue (e.g. `schema`) */
+  rule: string;
+  /** Path of the offending value inside the descriptor */
+  path: (string | number)[];
+  message: string;
+  /** 1-based line in the source file, when known */
+  line?: number;
+  /** 1-based column in the source file, when known */
+  column?: number;
+}
+
 /**
  * Result of a data product verification
  */
@@ -22,6 +111,7 @@ export interface VerificationResult {
   isValid: boolean;
   errors: string[] | null;
   warnings: string[];
+  issues: VerificationIssue[];
 }
 
 /**
@@ -29,45 +119,70 @@ export interface VerificationResult {
  */
 export interface VerifyOptions {
   strict?: boolean;
+  /**
+   * Directory relative file references (`$ref`) are resolved against
+   * File references are not checked when missing
+   */
+  baseDir?: string;
+  /**
+   * Lint rule configuration
+   * verifyDescriptorFile looks for a `.dpdsrc` file next to the descriptor
+   * when missing
+   */
+  lint?: LintConfig;
 }
 
 /**
- * Format Zod errors into a flat array of error messages
- * @param errors Zod formatted errors
- * @param path Current path (for recursion)
- * @returns Array of error messages
+ * Build a verification result from a list of issues
+ * @param issues Issues found during verification
+ * @returns Verification result, valid when no issue is an error
  */
-function formatZodErrors(
-  errors: z.ZodFormattedError<any>,
-  path: string = '',
-): string[] {
-  let errorMessages: string[] = [];
+export function createVerificationResult(
+  issues: VerificationIssue[],
+): VerificationResult {
+  const errors = issues
+    .filter((issue) => issue.severity === 'error')
+    .map(formatIssueMessage);
+  const warnings = issues
+    .filter((issue) => issue.severity === 'warning')
+    .map(formatIssueMessage);
 
-  // Process _errors at current level
-  if (errors._errors && errors._errors.length > 0) {
-    errorMessages = errorMessages.concat(
-      errors._errors.map((err: string) => (path ? `${path}: ${err}` : err)),
-    );
-  }
+  return {
+    isValid: errors.length === 0,
+    errors: errors.length > 0 ? errors : null,
+    warnings,
+    issues,
+  };
+}
 
-  // Process nested errors
-  const errorsObj = errors as Record<string, unknown>;
-  for (const key in errorsObj) {
-    if (
-      key !== '_errors' &&
-      typeof errorsObj[key] === 'object' &&
-      errorsObj[key] !== null
-    ) {
-      const newPath = path ? `${path}.${key}` : key;
-      const nestedErrors = formatZodErrors(
-        errorsObj[key] as z.ZodFormattedError<any>,
-        newPath,
-      );
-      errorMessages = errorMessages.concat(nestedErrors);
+/**
+ * Flatten Zod issues into verification issues
+ * Union errors are expanded into the issues of each branch, mirroring
+ * what `ZodError.format()` does
+ * @param error Zod error
+ * @returns Array of schema issues
+ */
+function collectZodIssues(error: z.ZodError): VerificationIssue[] {
+  return error.issues.flatMap((issue): VerificationIssue[] => {
+    if (issue.code === 'invalid_union') {
+      return issue.unionErrors.flatMap(collectZodIssues);
     }
-  }
 
-  return errorMessages;
+    // Semantic rules name themselves through the issue params
+    const rule =
+      issue.code === 'custom' && typeof issue.params?.rule === 'string'
+        ? issue.params.rule
+        : 'schema';
+
+    return [
+      {
+        severity: 'error',
+        rule,
+        path: issue.path,
+        message: issue.message,
+      },
+    ];
+  });
 }
 
 /**
@@ -79,20 +194,25 @@ function formatZodErrors(
 export function validateWithSchema<T extends z.ZodTypeAny>(
   schema: T,
   data: unknown,
-): { success: true; data: z.infer<T> } | { success: false; errors: string[] } {
+):
+  | { success: true; data: z.infer<T> }
+  | { success: false; errors: string[]; issues: VerificationIssue[] } {
   const result = schema.safeParse(data);
 
   if (result.success) {
     return { success: true, data: result.data };
   } else {
     // Format the errors for readability
-    const formattedErrors = formatZodErrors(result.error.format());
-    return { success: false, errors: formattedErrors };
+    const issues = collectZodIssues(result.error);
+    return { success: false, errors: issues.map(formatIssueMessage), issues };
   }
 }
 
 /**
- * Validate a data product descriptor using Zod schemas
+ * Validate a data product descriptor using Zod schemas, including the
+ * cross-field consistency rules
+ * The schemas are those of the specification version the descriptor
+ * declares, or of the default version when it isn't registered.
  * @param data The descriptor data to validate
  * @returns Validation result with potential error messages
  */
@@ -100,8 +220,9 @@ export function validateDataProductDescriptor(
   data: unknown,
 ):
   | { success: true; data: DataProductDescriptor }
-  | { success: false; errors: string[] } {
-  const result = validateWithSchema(dataProductDescriptorSchema, data);
+  | { success: false; errors: string[]; issues: VerificationIssue[] } {
+  const { spec } = resolveSpecVersion(data);
+  const result = validateWithSchema(spec.descriptorSchema, data);
 
   if (result.success) {
     // Use type assertion to match the expected DataProductDescriptor interface
@@ -110,7 +231,7 @@ export function validateDataProductDescriptor(
       data: result.data as unknown as DataProductDescriptor,
     };
   } else {
-    return { success: false, errors: result.errors };
+    return { success: false, errors: result.errors, issues: result.issues };
   }
 }
 
@@ -127,139 +248,409 @@ export function verifyDataProduct(
   data: unknown,
   options: VerifyOptions = {},
 ): VerificationResult {
+  const { lint: config, strict, baseDir } = options;
   const result = validateDataProductDescriptor(data);
+  const versionIssues = configureIssues(data, checkSpecVersion(data), config);
 
   if (result.success) {
-    const warnings = options.strict ? checkBestPractices(result.data) : [];
+    return createVerificationResult([
+      ...versionIssues,
+      ...lintDescriptor(result.data, { config, strict, baseDir }),
+    ]);
+  }
 
-    return {
-      isValid: true,
-      errors: null,
-      warnings,
-    };
-  } else {
-    return {
-      isValid: false,
-      errors: result.errors,
-      warnings: [],
-    };
+  const schemaIssues = result.issues.filter(({ rule }) => rule === 'schema');
+  if (schemaIssues.length > 0) {
+    // Rules checked by the schema itself are configured like lint rules
+    return createVerificationResult([
+      ...versionIssues,
+      ...schemaIssues,
+      ...configureIssues(
+        data,
+        result.issues.filter(({ rule }) => rule !== 'schema'),
+        config,
+      ),
+    ]);
   }
+
+  // Structurally valid: the lint rules report the consistency issues the
+  // schema found, along with rules the schema has no counterpart for
+  const ruleNames = getRuleNames(config);
+  return createVerificationResult([
+    ...versionIssues,
+    ...configureIssues(
+      data,
+      result.issues.filter(({ rule }) => !ruleNames.includes(rule)),
+      config,
+    ),
+    ...lintDescriptor(data as DataProductDescriptor, {
+      config,
+      strict,
+      baseDir,
+    }),
+  ]);
 }
 
+/**
+ * Warn when a descriptor declares a specification version that isn't
+ * registered, as it is then validated against the default version
+ */
+export function checkSpecVersion(data: unknown): VerificationIssue[] {
+  const { spec, known } = resolveSpecVersion(data);
+  const declared = (data as Record<string, unknown> | null)
+    ?.dataProductDescriptor;
+  if (known || typeof declared !== 'string') return [];
+
+  const versions = getSpecVersions().map(({ version }) => version);
+  return [
+    {
+      severity: 'warning',
+      rule: 'unknown-spec-version',
+      path: ['dataProductDescriptor'],
+      message: `Unknown specification version ${declared} (supported: ${versions.join(', ')}), validated against ${spec.version}`,
+    },
+  ];
+}
+
+/**
+ * Compare two versions of a data product descriptor
+ * @see diff.ts diffDataProducts
+ */
+export { diffDataProducts };
+export type {
+  ChangeImpact,
+  DescriptorChange,
+  DescriptorDiff,
+  DiffOptions,
+  VersionBump,
+} from './diff';
+
+/**
+ * Specification versions descriptors are validated with
+ * @see specVersions.ts
+ */
+export { getSpecVersions, registerSpecVersion };
+export type { SpecVersion };
+
+/**
+ * Validators of the content of standard definitions, by specification
+ * @see definitions.ts
+ */
+export { createZodDefinitionValidator, registerDefinitionValidator };
+export type {
+  DefinitionContext,
+  DefinitionIssue,
+  DefinitionValidator,
+} from './definitions';
+
+/**
+ * Lint rules run on valid descriptors, configured from `.dpdsrc` files
+ * @see rules.ts
+ */
+export {
+  BUILT_IN_RULES,
+  findLintConfig,
+  lintDescriptor,
+  loadLintConfig,
+} from './rules';
+export type { LintConfig, LintRule, RuleIssue, RuleSeverity } from './rules';
+
 /**
  * Check best practices for a data product descriptor
- * This provides additional quality checks beyond schema validation
+ * Runs the built-in best practice rules, those of strict mode.
+ * @returns The warning messages
+ * @deprecated Use lintDescriptor, whose issues carry their rule, path and
+ * severity and which applies the rule configuration
  */
 export function checkBestPractices(
   descriptor: DataProductDescriptor,
 ): string[] {
-  const warnings: string[] = [];
+  const config: LintConfig = {
+    rules: Object.fromEntries(
+      BUILT_IN_RULES.map(({ name, strict }) => [name, strict ? 'warn' : 'off']),
+    ),
+    plugins: [],
+  };
+  return lintDescriptor(descriptor, { config }).map(({ message }) => message);
+}
 
-  // Check for descriptions
-  if (!descriptor.info.description) {
-    warnings.push('Missing data product description in info');
-  }
+/**
+ * Verification of a descriptor file
+ */
+export interface FileVerification {
+  result: VerificationResult;
+  /** The descriptor, when valid */
+  data: DataProductDescriptor | null;
+  /** Content of the file, when it could be read */
+  source?: string;
+}
 
-  // Check for output ports descriptions
-  descriptor.interfaceComponents.outputPorts.forEach((port, index) => {
-    if ('$ref' in port) return; // Skip references
+/**
+ * Verification failing with a single issue
+ */
+function fileFailure(
+  rule: string,
+  message: string,
+  source?: string,
+): FileVerification {
+  return {
+    result: createVerificationResult([
+      { severity: 'error', rule, path: [], message },
+    ]),
+    data: null,
+    source,
+  };
+}
 
-    if (!port.description) {
-      warnings.push(
-        `Missing description for output port ${port.name || `#${index}`}`,
-      );
-    }
+const errorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : String(error);
 
-    // Check for promises in output ports
-    if (!port.promises) {
-      warnings.push(
-        `Missing promises in output port ${port.name || `#${index}`}`,
-      );
-    }
-  });
+/**
+ * Parse and verify the content of a descriptor file, pointing each issue
+ * back into the file
+ */
+function verifySource(
+  filePath: string,
+  source: string,
+  options: VerifyOptions,
+): FileVerification {
+  const format = detectFormat(filePath);
+  const parsed = parseDocument(source, format);
 
-  // Check for contact points
-  if (
-    !descriptor.info.contactPoints ||
-    descriptor.info.contactPoints.length === 0
-  ) {
-    warnings.push('No contact points defined for the data product');
+  if (!parsed.success) {
+    return {
+      result: createVerificationResult([
+        {
+          severity: 'error',
+          rule: 'parse-error',
+          path: [],
+          message: formatParseError(parsed, format),
+          line: parsed.line,
+          column: parsed.column,
+        },
+      ]),
+      data: null,
+      source,
+    };
   }
 
-  return warnings;
+  const { issues } = verifyDataProduct(parsed.data, {
+    baseDir: path.dirname(filePath),
+    ...options,
+  });
+  const result = createVerificationResult(locateIssues(issues, source));
+
+  return {
+    result,
+    data: result.isValid ? (parsed.data as DataProductDescriptor) : null,
+    source,
+  };
 }
 
 /**
  * Verify a file containing a data product descriptor
  *
- * @param filePath Path to the JSON file
+ * Lint rules use the `lint` option only; verifyDescriptorFile also looks for
+ * the `.dpdsrc` file of the descriptor.
+ *
+ * @param filePath Path to the JSON or YAML file
  * @param options Verification options
- * @returns Verification result and the data if valid
+ * @returns Verification result, the data if valid and the file content
  */
 export function verifyFile(
   filePath: string,
   options: VerifyOptions = {},
-): { result: VerificationResult; data: DataProductDescriptor | null } {
+): FileVerification {
   try {
-    // Read file content
     if (!fs.existsSync(filePath)) {
-      return {
-        result: {
-          isValid: false,
-          errors: [`File not found: ${filePath}`],
-          warnings: [],
-        },
-        data: null,
-      };
+      return fileFailure('file-not-found', `File not found: ${filePath}`);
     }
 
-    const fileContent = fs.readFileSync(filePath, 'utf-8');
-    let data: any;
+    const source = fs.readFileSync(filePath, 'utf-8');
+    return verifySource(filePath, source, options);
+  } catch (error) {
+    return fileFailure(
+      'internal-error',
+      `Error during verification: ${errorMessage(error)}`,
+    );
+  }
+}
 
-    try {
-      data = JSON.parse(fileContent);
-    } catch (error) {
-      return {
-        result: {
-          isValid: false,
-          errors: [
-            `Invalid JSON format: ${
-              error instanceof Error ? error.message : String(error)
-            }`,
-          ],
-          warnings: [],
-        },
-        data: null,
-      };
+/**
+ * Verify a file containing a data product descriptor, with the rule
+ * configuration of the closest `.dpdsrc` file when the `lint` option is
+ * missing
+ *
+ * @param filePath Path to the JSON or YAML file
+ * @param options Verification options
+ * @returns Verification result, the data if valid and the file content
+ */
+export async function verifyDescriptorFile(
+  filePath: string,
+  options: VerifyOptions = {},
+): Promise<FileVerification> {
+  try {
+    if (!fs.existsSync(filePath)) {
+      return fileFailure('file-not-found', `File not found: ${filePath}`);
     }
 
-    // Verify the data
-    const result = verifyDataProduct(data, options);
+    const source = await fs.promises.readFile(filePath, 'utf-8');
 
-    return {
-      result,
-      data: result.isValid ? (data as DataProductDescriptor) : null,
-    };
+    let lint = options.lint;
+    if (!lint) {
+      try {
+        lint = await findLintConfig(filePath);
+      } catch (error) {
+        return fileFailure('lint-config', errorMessage(error), source);
+      }
+    }
+
+    return verifySource(filePath, source, { ...options, lint });
   } catch (error) {
-    return {
-      result: {
-        isValid: false,
-        errors: [
-          `Error during verification: ${
-            error instanceof Error ? error.message : String(error)
-          }`,
-        ],
-        warnings: [],
-      },
-      data: null,
-    };
+    return fileFailure(
+      'internal-error',
+      `Error during verification: ${errorMessage(error)}`,
+    );
+  }
+}
+
+/**
+ * Options for verifying several files
+ */
+export interface VerifyFilesOptions extends VerifyOptions {
+  /** Stop verifying new files after the first invalid one */
+  failFast?: boolean;
+  /** Maximum number of files verified at the same time */
+  concurrency?: number;
+}
+
+/**
+ * Verify several descriptor files concurrently
+ *
+ * @param filePaths Paths of the files to verify
+ * @param options Verification options
+ * @returns One report per verified file, in the order of `filePaths`
+ */
+export async function verifyFiles(
+  filePaths: string[],
+  options: VerifyFilesOptions = {},
+): Promise<FileReport[]> {
+  const { failFast = false, concurrency = 8, ...verifyOptions } = options;
+  const reports: (FileReport | undefined)[] = new Array(filePaths.length);
+  let nextIndex = 0;
+  let failed = false;
+
+  // Each worker picks the next pending file until none is left
+  const worker = async () => {
+    while (nextIndex < filePaths.length && !(failFast && failed)) {
+      const index = nextIndex++;
+      const filePath = filePaths[index];
+      const { result, data, source } = await verifyDescriptorFile(
+        filePath,
+        verifyOptions,
+      );
+
+      reports[index] = { filePath, result, data, source };
+      if (!result.isValid) failed = true;
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.max(1, concurrency) }, () => worker()),
+  );
+
+  const verified = reports.filter((report): report is FileReport => !!report);
+
+  // Files verified concurrently after the first failure are not reported
+  if (failFast) {
+    const firstInvalid = verified.findIndex(({ result }) => !result.isValid);
+    if (firstInvalid !== -1) return verified.slice(0, firstInvalid + 1);
   }
+
+  return verified;
+}
+
+/**
+ * Verify the descriptors of a mesh, then the connections between them
+ * Output ports aren't reported as orphaned when a descriptor is invalid,
+ * since it may be the one consuming them.
+ *
+ * @param filePaths Paths of the descriptors of the mesh
+ * @param options Verification options
+ * @returns One report per file, including mesh level issues
+ * @see mesh.ts checkMesh
+ */
+export async function verifyMesh(
+  filePaths: string[],
+  options: VerifyFilesOptions = {},
+): Promise<FileReport[]> {
+  const reports = await verifyFiles(filePaths, { ...options, failFast: false });
+  const meshIssues = checkMesh(
+    reports
+      .filter(({ data }) => data)
+      .map(({ filePath, data }) => ({ filePath, descriptor: data! })),
+    { incomplete: reports.some(({ data }) => !data) },
+  );
+
+  return Promise.all(
+    reports.map(async (report) => {
+      const found = meshIssues.get(report.filePath);
+      if (!found) return report;
+
+      // Configuration errors are already reported by verifyFiles
+      const config =
+        options.lint ??
+        (await findLintConfig(report.filePath).catch(() => undefined));
+      const issues = configureIssues(report.data, found, config);
+      const located = report.source
+        ? locateIssues(issues, report.source)
+        : issues;
+      return {
+        ...report,
+        result: createVerificationResult([...report.result.issues, ...located]),
+      };
+    }),
+  );
 }
 
 // ===============================================================
 // CLI Functionality
 // ===============================================================
 
+/**
+ * Parse command line arguments
+ * @throws When an unknown option is passed
+ */
+function parseCLIArgs(args: string[]) {
+  return parseArgs({
+    args,
+    options: {
+      strict: { type: 'boolean' },
+      format: { type: 'string' },
+      'fail-fast': { type: 'boolean' },
+      'max-warnings': { type: 'string' },
+      fix: { type: 'boolean' },
+      'dry-run': { type: 'boolean' },
+      check: { type: 'boolean' },
+      namespace: { type: 'string' },
+      output: { type: 'string' },
+      spec: { type: 'string', multiple: true },
+      config: { type: 'string' },
+      to: { type: 'string' },
+      domain: { type: 'string' },
+      name: { type: 'string' },
+      description: { type: 'string' },
+      owner: { type: 'string' },
+      'owner-name': { type: 'string' },
+      'output-port': { type: 'string', multiple: true },
+      api: { type: 'string' },
+      yes: { type: 'boolean' },
+      help: { type: 'boolean' },
+    },
+    allowPositionals: true,
+  });
+}
+
 /**
  * Print usage information
  */
@@ -268,15 +659,67 @@ function printUsage(): void {
 Data Product Descriptor Verification Tool
 
 Usage:
-  npx data-product-verifier <command> <file-path> [options]
+  npx data-product-verifier verify <path...> [options]
+  npx data-product-verifier display <file-path>
+  npx data-product-verifier fix <path...> [options]
+  npx data-product-verifier format <path...> [options]
+  npx data-product-verifier diff <old-file> <new-file> [options]
+  npx data-product-verifier mesh <path...> [options]
+  npx data-product-verifier graph <path...> [options]
+  npx data-product-verifier docs <path...> [options]
+  npx data-product-verifier migrate <path...> --to <version> [options]
+  npx data-product-verifier init <file-path> [options]
+  npx data-product-verifier bundle <file-path> [options]
+  npx data-product-verifier split <file-path> [options]
 
 Commands:
-  verify    Verify a data product descriptor
+  verify    Verify data product descriptors (files, directories or globs)
   display   Verify and display a data product descriptor
+  fix       Fix common mistakes (versions, names, fully qualified names)
+  format    Rewrite descriptors in canonical form: keys in specification order,
+            without empty values
+  diff      Classify changes between two versions and check the version bump
+  mesh      Verify descriptors and the input ports connecting them
+  graph     Print the lineage graph of products, ports and components
+  docs      Write documentation pages, with an index for directories
+  migrate   Migrate descriptors to another specification version
+  init      Create a new descriptor, asking for the values not given as options
+  bundle    Inline the file references of a descriptor into a single document
+  split     Move ports, components and definitions to files next to a descriptor
 
 Options:
-  --strict  Perform strict verification (additional checks)
-  --help    Show this help message
+  --strict            Perform strict verification (additional checks)
+  --format <format>   Output format for verify and mesh: ${OUTPUT_FORMATS.join(', ')} (default: text)
+                      Output format for diff: text, json
+                      Output format for graph: ${GRAPH_FORMATS.join(', ')} (default: dot)
+                      Output format for docs: ${DOCS_FORMATS.join(', ')} (default: markdown)
+  --fail-fast         Stop at the first invalid descriptor
+  --max-warnings <n>  Fail when more than <n> warnings are found
+  --fix               Fix common mistakes before verifying
+  --dry-run           With fix, format and migrate: print a diff instead of
+                      writing files
+                      With split: list the files instead of writing them
+  --check             With format: fail when descriptors aren't in canonical
+                      form, without writing them
+  --namespace <ns>    With fix: mesh namespace used to derive missing URNs
+                      With init: mesh namespace (e.g. it.quantyca)
+  --output <dir>      With docs: directory pages are written to (default: docs)
+                      With bundle: file the bundle is written to (default: stdout)
+  --to <version>      With migrate: target specification version
+  --domain <domain>   With init: domain of the data product
+  --name <name>       With init: name of the data product
+  --description <d>   With init: description of the data product
+  --owner <id>        With init: owner id (e.g. an email address)
+  --owner-name <n>    With init: owner name
+  --output-port <n>   With init: output port to create (repeatable)
+  --api <spec>        With init: API specification of the output ports:
+                      ${API_SPECIFICATIONS.join(', ')} (default: openapi)
+  --yes               With init: don't ask, fail when a value is missing
+  --config <file>     With verify and mesh: rule configuration, instead of the
+                      closest ${CONFIG_FILE_NAME} file of each descriptor
+  --spec <module>     Load a module registering specification versions or
+                      definition validators
+  --help              Show this help message
   `);
 }
 
@@ -335,34 +778,122 @@ function displayDataProductDescriptor(dpd: DataProductDescriptor): void {
 }
 
 /**
- * Verify a file from the command line
+ * Options of the fix command
  */
-async function verifyCLI(
-  filePath: string,
-  strict: boolean = false,
+interface FixCLIOptions extends FixOptions {
+  dryRun: boolean;
+  /** Where progress is printed (stderr when stdout holds a report) */
+  log?: (message: string) => void;
+}
+
+/**
+ * Fix descriptor files from the command line
+ * @returns false when a file couldn't be read or parsed
+ */
+async function fixCLI(
+  filePaths: string[],
+  options: FixCLIOptions,
 ): Promise<boolean> {
-  console.log(`Verifying: ${filePath}`);
-  console.log('----------------------------------------');
+  const { dryRun, log = console.log, ...fixOptions } = options;
+  let success = true;
 
-  const { result, data } = verifyFile(filePath, { strict });
+  for (const filePath of filePaths) {
+    const file = await readDescriptorFile(filePath);
+    if (!file) {
+      success = false;
+      continue;
+    }
 
-  if (result.isValid) {
-    console.log('✅ Verification successful!');
+    const { source } = file;
+    const format = detectFormat(filePath);
+    const { data, fixes } = fixDataProduct(file.data, fixOptions);
 
-    if (strict && result.warnings.length > 0) {
-      console.log('\n⚠️ Warnings (best practices):');
-      result.warnings.forEach((warning) => console.log(`- ${warning}`));
-    } else if (strict) {
-      console.log('✓ Best practices check passed');
+    if (fixes.length === 0) {
+      log(`Nothing to fix: ${filePath}`);
+      continue;
     }
 
-    return true;
-  } else {
-    console.log('❌ Verification failed!');
-    console.log('\nErrors:');
-    result.errors?.forEach((error) => console.log(`- ${error}`));
+    const fixed = applyFixesToSource(source, format, data, fixes);
+
+    log(`${dryRun ? 'Would fix' : 'Fixed'}: ${filePath}`);
+    fixes.forEach((fix) =>
+      log(
+        `- ${formatIssuePath(fix.path)}: ${JSON.stringify(
+          fix.from,
+        )} → ${JSON.stringify(fix.to)} (${fix.rule})`,
+      ),
+    );
+
+    if (dryRun) {
+      log(formatUnifiedDiff(source, fixed, filePath));
+    } else {
+      await fs.promises.writeFile(filePath, fixed, 'utf-8');
+    }
+
+    log('');
+  }
+
+  return success;
+}
+
+/**
+ * Options of the verify command
+ */
+interface VerifyCLIOptions {
+  strict: boolean;
+  format: OutputFormat;
+  failFast: boolean;
+  maxWarnings?: number;
+  /** Fix common mistakes before verifying */
+  fix?: Omit<FixCLIOptions, 'log'>;
+  /** Also check the connections between the descriptors */
+  mesh?: boolean;
+  /** Rule configuration replacing the `.dpdsrc` files of the descriptors */
+  lint?: LintConfig;
+}
+
+/**
+ * Verify files, directories and glob patterns from the command line
+ */
+async function verifyCLI(
+  inputs: string[],
+  options: VerifyCLIOptions,
+): Promise<boolean> {
+  const { strict, format, failFast, maxWarnings, fix, mesh, lint } = options;
+  const filePaths = await resolveDescriptorPaths(inputs);
+
+  if (filePaths.length === 0) {
+    console.error(`Error: No descriptor found in ${inputs.join(', ')}`);
+    return false;
+  }
+
+  let fixed = true;
+  if (fix) {
+    // Keep stdout clean for machine-readable formats
+    const log = format === 'text' ? console.log : console.error;
+    fixed = await fixCLI(filePaths, { ...fix, log });
+  }
+
+  const reports = mesh
+    ? await verifyMesh(filePaths, { strict, lint })
+    : await verifyFiles(filePaths, { strict, failFast, lint });
+
+  console.log(formatReports(reports, format, { strict }));
+
+  const allValid = reports.every(({ result }) => result.isValid);
+  const warningCount = reports.reduce(
+    (sum, { result }) => sum + result.warnings.length,
+    0,
+  );
+
+  if (maxWarnings !== undefined && warningCount > maxWarnings) {
+    console.error(
+      `\nToo many warnings: ${warningCount} found, at most ${maxWarnings} allowed`,
+    );
     return false;
   }
+
+  return allValid && fixed;
 }
 
 /**
@@ -373,7 +904,7 @@ async function displayCLI(filePath: string): Promise<boolean> {
   console.log('----------------------------------------');
 
   // Verify the file first
-  const { result, data } = verifyFile(filePath);
+  const { result, data } = await verifyDescriptorFile(filePath);
 
   if (!result.isValid || !data) {
     console.error(
@@ -391,36 +922,771 @@ async function displayCLI(filePath: string): Promise<boolean> {
   return true;
 }
 
+/**
+ * Print the changes between two descriptors, grouped by impact
+ */
+function printDescriptorDiff(diff: DescriptorDiff): void {
+  const groups = [
+    ['breaking', 'Breaking changes'],
+    ['additive', 'Additive changes'],
+    ['cosmetic', 'Cosmetic changes'],
+  ] as const;
+
+  if (diff.changes.length === 0) {
+    console.log('\nNo changes');
+  }
+
+  groups.forEach(([impact, title]) => {
+    const changes = diff.changes.filter((change) => change.impact === impact);
+    if (changes.length === 0) return;
+
+    console.log(`\n${title}:`);
+    changes.forEach((change) =>
+      console.log(`- ${change.path.join('.')}: ${change.message}`),
+    );
+  });
+
+  console.log(`\nRequired version bump: ${diff.requiredBump}`);
+  console.log(
+    `Declared version bump: ${diff.declaredBump ?? 'not an increase'} (${diff.oldVersion} → ${diff.newVersion})`,
+  );
+  console.log(
+    diff.isBumpSufficient
+      ? '\n✅ The declared version bump is sufficient'
+      : '\n❌ The declared version bump is not sufficient',
+  );
+}
+
+/**
+ * Compare two descriptor files from the command line
+ * @returns false when a file is invalid or the version bump is insufficient
+ */
+async function diffCLI(
+  oldPath: string,
+  newPath: string,
+  format: OutputFormat,
+): Promise<boolean> {
+  if (format !== 'text' && format !== 'json') {
+    console.error(`Error: Format '${format}' is not supported by diff`);
+    return false;
+  }
+
+  const [oldFile, newFile] = await Promise.all([
+    verifyDescriptorFile(oldPath),
+    verifyDescriptorFile(newPath),
+  ]);
+
+  const invalid = [
+    { filePath: oldPath, ...oldFile },
+    { filePath: newPath, ...newFile },
+  ].filter(({ result, data }) => !result.isValid || !data);
+
+  if (invalid.length > 0) {
+    console.error('Cannot compare invalid descriptors:');
+    console.error(formatReports(invalid, 'text'));
+    return false;
+  }
+
+  const diff = diffDataProducts(oldFile.data!, newFile.data!, {
+    oldReferences: { baseDir: path.dirname(oldPath) },
+    newReferences: { baseDir: path.dirname(newPath) },
+  });
+
+  if (format === 'json') {
+    console.log(JSON.stringify(diff, null, 2));
+  } else {
+    console.log(`Comparing: ${oldPath} → ${newPath}`);
+    console.log('----------------------------------------');
+    printDescriptorDiff(diff);
+  }
+
+  return diff.isBumpSufficient;
+}
+
+/**
+ * Print the lineage graph of descriptors from the command line
+ * @returns false when a descriptor is invalid; the graph holds the valid ones
+ */
+async function graphCLI(
+  inputs: string[],
+  format: GraphFormat,
+): Promise<boolean> {
+  const filePaths = await resolveDescriptorPaths(inputs);
+
+  if (filePaths.length === 0) {
+    console.error(`Error: No descriptor found in ${inputs.join(', ')}`);
+    return false;
+  }
+
+  const reports = await verifyFiles(filePaths);
+  const invalid = reports.filter(
+    ({ result, data }) => !result.isValid || !data,
+  );
+
+  if (invalid.length > 0) {
+    console.error('Skipping invalid descriptors:');
+    console.error(formatReports(invalid, 'text'));
+  }
+
+  const graph = buildLineageGraph(
+    reports
+      .filter(({ data }) => data)
+      .map(({ filePath, data }) => ({ filePath, descriptor: data! })),
+  );
+  console.log(formatGraph(graph, format));
+
+  return invalid.length === 0;
+}
+
+/**
+ * Write the documentation of descriptors from the command line
+ * An index page is written when a directory or several descriptors are given
+ * @returns false when a descriptor is invalid; the others are documented
+ */
+async function docsCLI(
+  inputs: string[],
+  format: DocsFormat,
+  outputDir: string,
+): Promise<boolean> {
+  const filePaths = await resolveDescriptorPaths(inputs);
+
+  if (filePaths.length === 0) {
+    console.error(`Error: No descriptor found in ${inputs.join(', ')}`);
+    return false;
+  }
+
+  const reports = await verifyFiles(filePaths);
+  const invalid = reports.filter(
+    ({ result, data }) => !result.isValid || !data,
+  );
+
+  if (invalid.length > 0) {
+    console.error('Skipping invalid descriptors:');
+    console.error(formatReports(invalid, 'text'));
+  }
+
+  const products = reports
+    .filter(({ data }) => data)
+    .map(({ filePath, data }) => ({ filePath, descriptor: data! }));
+  const pages = products.map((product) =>
+    renderDescriptorDocs(product, format),
+  );
+
+  // The same product version described twice would overwrite its page
+  const duplicates = new Set(
+    pages
+      .filter(
+        ({ fileName }, index) =>
+          pages.findIndex((page) => page.fileName === fileName) !== index,
+      )
+      .map(({ fileName }) => fileName),
+  );
+  if (duplicates.size > 0) {
+    duplicates.forEach((fileName) => {
+      const sources = products
+        .filter((_, index) => pages[index].fileName === fileName)
+        .map(({ filePath }) => filePath);
+      console.error(
+        `Error: ${sources.join(' and ')} would both be documented in ${fileName}`,
+      );
+    });
+    return false;
+  }
+
+  const hasDirectory = inputs.some(
+    (input) => fs.existsSync(input) && fs.statSync(input).isDirectory(),
+  );
+  if (hasDirectory || products.length > 1) {
+    pages.push(
+      renderMeshIndex(
+        products.map(({ descriptor }) => descriptor),
+        format,
+      ),
+    );
+  }
+
+  await fs.promises.mkdir(outputDir, { recursive: true });
+  for (const page of pages) {
+    const pagePath = path.join(outputDir, page.fileName);
+    await fs.promises.writeFile(pagePath, page.content, 'utf-8');
+    console.log(`Written: ${pagePath}`);
+  }
+
+  return invalid.length === 0;
+}
+
+/**
+ * Migrate descriptor files to a specification version from the command line
+ * Migrated descriptors are verified against the target version and only
+ * written when valid.
+ * @returns false when a file couldn't be read, parsed, migrated or verified
+ */
+async function migrateCLI(
+  filePaths: string[],
+  to: string,
+  dryRun: boolean,
+): Promise<boolean> {
+  let success = true;
+
+  for (const filePath of filePaths) {
+    const file = await readDescriptorFile(filePath);
+    if (!file) {
+      success = false;
+      continue;
+    }
+
+    const { source } = file;
+    const format = detectFormat(filePath);
+    const migration = migrateDescriptor(file.data, to);
+
+    if (!migration.success) {
+      console.error(`Error: ${filePath}: ${migration.error}`);
+      success = false;
+      continue;
+    }
+
+    if (migration.changes.length === 0) {
+      console.log(`Nothing to migrate: ${filePath} (${migration.to})`);
+      continue;
+    }
+
+    const result = verifyDataProduct(migration.data, {
+      baseDir: path.dirname(filePath),
+    });
+    const migrated = applyMigrationToSource(
+      source,
+      format,
+      migration.data,
+      migration.changes,
+    );
+
+    console.log(
+      `${dryRun || !result.isValid ? 'Would migrate' : 'Migrated'}: ${filePath} (${migration.from} → ${migration.to})`,
+    );
+    migration.changes.forEach((change) =>
+      console.log(
+        `- ${formatIssuePath(change.path)}: ${change.message} (${change.version})`,
+      ),
+    );
+
+    if (!result.isValid) {
+      console.error(
+        `\n❌ The migrated descriptor is not valid for specification ${migration.to}, ${filePath} was left unchanged:`,
+      );
+      result.errors?.forEach((error) => console.error(`- ${error}`));
+      success = false;
+    } else if (dryRun) {
+      console.log(formatUnifiedDiff(source, migrated, filePath));
+    } else {
+      await fs.promises.writeFile(filePath, migrated, 'utf-8');
+    }
+
+    console.log('');
+  }
+
+  return success;
+}
+
+/**
+ * Read and parse a descriptor file, printing why it can't be
+ * @returns The text and data, or undefined
+ */
+async function readDescriptorFile(
+  filePath: string,
+): Promise<{ source: string; data: unknown } | undefined> {
+  let source: string;
+
+  try {
+    source = await fs.promises.readFile(filePath, 'utf-8');
+  } catch (error) {
+    console.error(`Error: Cannot read ${filePath}: ${errorMessage(error)}`);
+    return undefined;
+  }
+
+  const format = detectFormat(filePath);
+  const parsed = parseDocument(source, format);
+
+  if (!parsed.success) {
+    console.error(`Error: ${filePath}: ${formatParseError(parsed, format)}`);
+    return undefined;
+  }
+
+  return { source, data: parsed.data };
+}
+
+/**
+ * Serialize a document, ending with a newline
+ */
+function serializeFile(data: unknown, filePath: string): string {
+  const content = stringifyDocument(data, detectFormat(filePath));
+  return content.endsWith('\n') ? content : `${content}\n`;
+}
+
+/**
+ * Inline the file references of a descriptor from the command line
+ * The bundle is printed, or written to the output file when given
+ * @returns false when the file couldn't be read or a reference inlined
+ */
+async function bundleCLI(filePath: string, output?: string): Promise<boolean> {
+  const file = await readDescriptorFile(filePath);
+  if (!file) return false;
+
+  const { data, errors } = bundleDescriptor(file.data, {
+    baseDir: path.dirname(filePath),
+  });
+
+  if (errors.length > 0) {
+    errors.forEach((error) =>
+      console.error(
+        `Error: ${filePath}: ${formatIssuePath(error.path)}: ${error.message}`,
+      ),
+    );
+    return false;
+  }
+
+  const content = serializeFile(data, output ?? filePath);
+  if (output) {
+    await fs.promises.mkdir(path.dirname(output), { recursive: true });
+    await fs.promises.writeFile(output, content, 'utf-8');
+    console.log(`Written: ${output}`);
+  } else {
+    process.stdout.write(content);
+  }
+
+  return true;
+}
+
+/**
+ * Extract the parts of a descriptor into files next to it, from the
+ * command line
+ * Existing files are only overwritten when their content is the same,
+ * except for the descriptor itself.
+ * @returns false when the file couldn't be read or a part file exists
+ */
+async function splitCLI(filePath: string, dryRun: boolean): Promise<boolean> {
+  const file = await readDescriptorFile(filePath);
+  if (!file) return false;
+
+  const { data, files } = splitDescriptor(file.data, detectFormat(filePath));
+
+  if (files.length === 0) {
+    console.log(`Nothing to split: ${filePath}`);
+    return true;
+  }
+
+  const baseDir = path.dirname(filePath);
+  const parts = files.map((part) => ({
+    filePath: path.join(baseDir, part.path),
+    content: serializeFile(part.data, part.path),
+  }));
+
+  const conflicts = parts.filter(
+    (part) =>
+      fs.existsSync(part.filePath) &&
+      fs.readFileSync(part.filePath, 'utf-8') !== part.content,
+  );
+  if (conflicts.length > 0) {
+    conflicts.forEach((part) =>
+      console.error(`Error: ${part.filePath} already exists`),
+    );
+    return false;
+  }
+
+  console.log(`${dryRun ? 'Would split' : 'Split'}: ${filePath}`);
+  for (const part of parts) {
+    console.log(`- ${part.filePath}`);
+    if (dryRun) continue;
+    await fs.promises.mkdir(path.dirname(part.filePath), { recursive: true });
+    await fs.promises.writeFile(part.filePath, part.content, 'utf-8');
+  }
+
+  if (!dryRun) {
+    await fs.promises.writeFile(
+      filePath,
+      serializeFile(data, filePath),
+      'utf-8',
+    );
+  }
+
+  return true;
+}
+
+/**
+ * Rewrite descriptor files in canonical form from the command line
+ * Valid descriptors are only rewritten when they stay valid.
+ * @param check Only report the files that aren't in canonical form
+ * @param dryRun Print a diff instead of writing files
+ * @returns false when a file couldn't be read or formatting would make it
+ * invalid, or when checking, isn't in canonical form
+ */
+async function formatCLI(
+  filePaths: string[],
+  check: boolean,
+  dryRun: boolean,
+): Promise<boolean> {
+  let success = true;
+
+  for (const filePath of filePaths) {
+    const file = await readDescriptorFile(filePath);
+    if (!file) {
+      success = false;
+      continue;
+    }
+
+    const format = detectFormat(filePath);
+    const formatted = formatDescriptorSource(file.source, format, file.data);
+    if (formatted === file.source) {
+      if (!check) console.log(`Already formatted: ${filePath}`);
+      continue;
+    }
+
+    // Formatting must not break a valid descriptor
+    const reparsed = parseDocument(formatted, format);
+    const validation = reparsed.success
+      ? validateDataProductDescriptor(reparsed.data)
+      : { success: false, errors: [formatParseError(reparsed, format)] };
+    if (
+      !validation.success &&
+      validateDataProductDescriptor(file.data).success
+    ) {
+      console.error(
+        `Error: ${filePath}: The formatted descriptor would not be valid, the file was left unchanged:`,
+      );
+      validation.errors.forEach((error) => console.error(`- ${error}`));
+      success = false;
+      continue;
+    }
+
+    if (check) {
+      console.error(`Not formatted: ${filePath}`);
+      success = false;
+    } else if (dryRun) {
+      console.log(`Would format: ${filePath}`);
+      console.log(formatUnifiedDiff(file.source, formatted, filePath));
+    } else {
+      await fs.promises.writeFile(filePath, formatted, 'utf-8');
+      console.log(`Formatted: ${filePath}`);
+    }
+  }
+
+  return success;
+}
+
+/**
+ * Questions asked by the init command, by answer
+ */
+const INIT_QUESTIONS: [InitField, string, string?][] = [
+  ['namespace', 'Mesh namespace (e.g. it.quantyca)'],
+  ['domain', 'Domain'],
+  ['name', 'Data product name'],
+  ['description', 'Description (optional)'],
+  ['ownerId', 'Owner id (e.g. an email address)'],
+  ['ownerName', 'Owner name (optional)'],
+  ['outputPorts', 'Output ports (comma-separated names)'],
+  [
+    'api',
+    `API specification of the output ports (${API_SPECIFICATIONS.join(', ')})`,
+    'openapi',
+  ],
+];
+
+/**
+ * Create a new descriptor file from the command line
+ * Answers not given as options are asked for when interactive; invalid
+ * answers are asked for again.
+ * @returns false when the file exists or an answer is missing or invalid
+ */
+async function initCLI(
+  filePath: string,
+  input: InitInput,
+  interactive: boolean,
+): Promise<boolean> {
+  if (fs.existsSync(filePath)) {
+    console.error(`Error: ${filePath} already exists`);
+    return false;
+  }
+
+  let normalized = normalizeInitInput(input);
+
+  if (interactive) {
+    const rl = readline.createInterface({
+      input: process.stdin,
+      output: process.stdout,
+    });
+    const answers = { ...input };
+    const ask = async ([
+      field,
+      question,
+      defaultValue,
+    ]: (typeof INIT_QUESTIONS)[number]) => {
+      const answer = (
+        await rl.question(
+          defaultValue ? `${question} [${defaultValue}]: ` : `${question}: `,
+        )
+      ).trim();
+      const value = answer || defaultValue;
+      if (field === 'outputPorts') answers.outputPorts = value ? [value] : [];
+      else answers[field] = value;
+    };
+
+    try {
+      for (const question of INIT_QUESTIONS) {
+        if (input[question[0]] === undefined) await ask(question);
+      }
+      normalized = normalizeInitInput(answers);
+
+      while (!normalized.options) {
+        for (const question of INIT_QUESTIONS) {
+          const error = normalized.errors[question[0]];
+          if (!error) continue;
+          console.log(error);
+          await ask(question);
+        }
+        normalized = normalizeInitInput(answers);
+      }
+    } catch (error) {
+      // Ctrl+C or Ctrl+D
+      if ((error as { code?: string }).code !== 'ABORT_ERR') throw error;
+      console.error('\nAborted');
+      return false;
+    } finally {
+      rl.close();
+    }
+  }
+
+  if (!normalized.options) {
+    Object.values(normalized.errors).forEach((error) =>
+      console.error(`Error: ${error}`),
+    );
+    return false;
+  }
+
+  const descriptor = createDescriptor(normalized.options);
+  const result = verifyDataProduct(descriptor, { strict: true });
+
+  if (!result.isValid || result.warnings.length > 0) {
+    console.error('Error: The generated descriptor is not valid:');
+    result.issues.forEach((issue) =>
+      console.error(`- ${formatIssueMessage(issue)}`),
+    );
+    return false;
+  }
+
+  const content = stringifyDocument(descriptor, detectFormat(filePath));
+  await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.promises.writeFile(
+    filePath,
+    content.endsWith('\n') ? content : `${content}\n`,
+    'utf-8',
+  );
+  console.log(`Created: ${filePath} (${descriptor.info.fullyQualifiedName})`);
+
+  return true;
+}
+
+/**
+ * Register the specification versions of modules
+ * A module default-exports a specification version or an array of them, or
+ * registers them itself with registerSpecVersion when imported. Modules can
+ * also register migrations and definition validators.
+ */
+async function loadSpecModules(modulePaths: string[]): Promise<void> {
+  for (const modulePath of modulePaths) {
+    const url = pathToFileURL(path.resolve(modulePath)).href;
+    const exported: unknown = (await import(url)).default ?? [];
+
+    [exported].flat().forEach((spec) => {
+      const candidate = spec as Partial<SpecVersion> | null;
+      if (
+        typeof candidate?.version !== 'string' ||
+        typeof candidate.descriptorSchema?.safeParse !== 'function'
+      ) {
+        throw new Error(
+          `${modulePath} does not export a specification version`,
+        );
+      }
+      registerSpecVersion(candidate as SpecVersion);
+    });
+  }
+}
+
 /**
  * Main CLI entry point
  */
 export async function cli(): Promise<void> {
-  const args = process.argv.slice(2);
+  let parsed: ReturnType<typeof parseCLIArgs>;
+
+  try {
+    parsed = parseCLIArgs(process.argv.slice(2));
+  } catch (error) {
+    console.error(`Error: ${errorMessage(error)}`);
+    printUsage();
+    process.exit(1);
+  }
+
+  const { values, positionals } = parsed;
 
   // Show help
-  if (args.includes('--help') || args.length === 0) {
+  if (values.help || positionals.length === 0) {
     printUsage();
     return;
   }
 
-  const command = args[0];
-  const filePath = args[1];
-  const strict = args.includes('--strict');
+  const [command, ...filePaths] = positionals;
+  const strict = values.strict ?? false;
+  const defaultFormats: Record<string, string> = {
+    graph: 'dot',
+    docs: 'markdown',
+  };
+  const format = values.format ?? defaultFormats[command] ?? 'text';
+  const maxWarnings =
+    values['max-warnings'] !== undefined
+      ? Number(values['max-warnings'])
+      : undefined;
 
-  if (!filePath) {
+  if (filePaths.length === 0) {
     console.error('Error: Missing file path');
     printUsage();
     process.exit(1);
   }
 
+  try {
+    await loadSpecModules(values.spec ?? []);
+  } catch (error) {
+    console.error(`Error: ${errorMessage(error)}`);
+    process.exit(1);
+  }
+
+  if (command === 'graph') {
+    if (!isGraphFormat(format)) {
+      console.error(`Error: Unknown graph format '${format}'`);
+      printUsage();
+      process.exit(1);
+    }
+    process.exit((await graphCLI(filePaths, format)) ? 0 : 1);
+  }
+
+  if (command === 'docs') {
+    if (!isDocsFormat(format)) {
+      console.error(`Error: Unknown docs format '${format}'`);
+      printUsage();
+      process.exit(1);
+    }
+    const outputDir = values.output ?? 'docs';
+    process.exit((await docsCLI(filePaths, format, outputDir)) ? 0 : 1);
+  }
+
+  if (!isOutputFormat(format)) {
+    console.error(`Error: Unknown format '${format}'`);
+    printUsage();
+    process.exit(1);
+  }
+
+  if (
+    maxWarnings !== undefined &&
+    (!Number.isInteger(maxWarnings) || maxWarnings < 0)
+  ) {
+    console.error('Error: --max-warnings must be a non-negative integer');
+    printUsage();
+    process.exit(1);
+  }
+
+  const fixOptions = {
+    dryRun: values['dry-run'] ?? false,
+    namespace: values.namespace,
+  };
+
+  let lint: LintConfig | undefined;
+  if (values.config) {
+    try {
+      lint = await loadLintConfig(path.resolve(values.config));
+    } catch (error) {
+      console.error(`Error: ${errorMessage(error)}`);
+      process.exit(1);
+    }
+  }
+
   let success = false;
 
   switch (command) {
     case 'verify':
-      success = await verifyCLI(filePath, strict);
+      success = await verifyCLI(filePaths, {
+        strict,
+        format,
+        failFast: values['fail-fast'] ?? false,
+        maxWarnings,
+        fix: values.fix ? fixOptions : undefined,
+        lint,
+      });
+      break;
+    case 'mesh':
+      success = await verifyCLI(filePaths, {
+        strict,
+        format,
+        failFast: false,
+        maxWarnings,
+        fix: values.fix ? fixOptions : undefined,
+        mesh: true,
+        lint,
+      });
+      break;
+    case 'fix':
+      success = await fixCLI(
+        await resolveDescriptorPaths(filePaths),
+        fixOptions,
+      );
+      break;
+    case 'format':
+      success = await formatCLI(
+        await resolveDescriptorPaths(filePaths),
+        values.check ?? false,
+        fixOptions.dryRun,
+      );
       break;
     case 'display':
-      success = await displayCLI(filePath);
+      success = await displayCLI(filePaths[0]);
+      break;
+    case 'init':
+      success = await initCLI(
+        filePaths[0],
+        {
+          namespace: values.namespace,
+          domain: values.domain,
+          name: values.name,
+          description: values.description,
+          ownerId: values.owner,
+          ownerName: values['owner-name'],
+          outputPorts: values['output-port'],
+          api: values.api,
+        },
+        !values.yes && process.stdin.isTTY,
+      );
+      break;
+    case 'bundle':
+      success = await bundleCLI(filePaths[0], values.output);
+      break;
+    case 'split':
+      success = await splitCLI(filePaths[0], fixOptions.dryRun);
+      break;
+    case 'migrate':
+      if (!values.to) {
+        console.error('Error: migrate requires a target version (--to)');
+        printUsage();
+        process.exit(1);
+      }
+      success = await migrateCLI(
+        await resolveDescriptorPaths(filePaths),
+        values.to,
+        fixOptions.dryRun,
+      );
+      break;
+    case 'diff':
+      if (filePaths.length !== 2) {
+        console.error('Error: diff requires an old and a new file path');
+        printUsage();
+        process.exit(1);
+      }
+      success = await diffCLI(filePaths[0], filePaths[1], format);
       break;
     default:
       console.error(`Error: Unknown command '${command}'`);
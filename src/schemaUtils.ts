@@ -1,113 +1,67 @@
+import { RJSFSchema } from '@rjsf/utils';
+import { COMPONENT_SECTIONS } from './lib/descriptor';
+
 /**
- * Recursively processes a schema object to transform oneOf properties
- * Specifically targets oneOf arrays with exactly 2 items where at least one is a $ref
- * and replaces the entire oneOf with the first $ref
+ * Pointer to the Reference Object definition of the DPDS schema
  */
-export const processSchema = (schema: unknown): unknown => {
-  // Handle non-objects
-  if (!schema || typeof schema !== 'object') {
-    return schema;
-  }
-
-  // Handle arrays
-  if (Array.isArray(schema)) {
-    return schema.map((item) => processSchema(item));
-  }
-
-  // Now we know it's an object
-  const schemaObj = schema as Record<string, unknown>;
-  const result: Record<string, unknown> = {};
+export const REFERENCE_SCHEMA_REF = '#/$defs/reference';
 
-  // Special handling for oneOf case
-  if (
-    'oneOf' in schemaObj &&
-    Array.isArray(schemaObj.oneOf) &&
-    schemaObj.oneOf.length === 2
-  ) {
-    const oneOfArray = schemaObj.oneOf;
-    const hasRef0 =
-      typeof oneOfArray[0] === 'object' &&
-      oneOfArray[0] !== null &&
-      '$ref' in oneOfArray[0];
+/**
+ * Properties of a Reference Object, see the `reference` definition
+ */
+export const REFERENCE_PROPERTIES = ['$ref', 'mediaType', 'description'];
 
-    const hasRef1 =
-      typeof oneOfArray[1] === 'object' &&
-      oneOfArray[1] !== null &&
-      '$ref' in oneOfArray[1];
+/**
+ * Index of the Reference Object option of a `oneOf` choosing between an
+ * inline value and a reference (ports, promises, components, definitions...)
+ * @returns The index of the option, -1 when the schema isn't such a choice
+ */
+export const referenceOptionIndex = (schema: RJSFSchema): number => {
+  const { oneOf } = schema;
+  if (!Array.isArray(oneOf) || oneOf.length !== 2) return -1;
 
-    // if refs are exactly two
-    if (hasRef0 && hasRef1) {
-      // Choose the ref that is NOT "#/$defs/reference"
-      const refItem =
-        oneOfArray[0].$ref === '#/$defs/reference'
-          ? oneOfArray[1]
-          : oneOfArray[0];
+  return oneOf.findIndex(
+    (option) =>
+      typeof option === 'object' && option.$ref === REFERENCE_SCHEMA_REF,
+  );
+};
 
-      return { $ref: refItem.$ref };
-    }
-  }
+/**
+ * Section of `components` whose entries a reference choice can point to,
+ * from its inline option: `#/$defs/outputPort` expects `outputPorts`
+ * @returns undefined when the inline value isn't a component (promises...)
+ */
+export const referenceKindOf = (schema: RJSFSchema): string | undefined => {
+  const index = referenceOptionIndex(schema);
+  const inline = index === -1 ? undefined : schema.oneOf?.[1 - index];
+  const ref = typeof inline === 'object' ? inline.$ref : undefined;
+  const kind = ref?.startsWith('#/$defs/') && `${ref.slice(8)}s`;
+  return kind && COMPONENT_SECTIONS.includes(kind) ? kind : undefined;
+};
 
-  // Process each property in the schema object
-  for (const [key, value] of Object.entries(schemaObj)) {
-    if (typeof value === 'object' && value !== null) {
-      // Recursively process nested objects
-      result[key] = processSchema(value);
-    } else {
-      // Keep primitives unchanged
-      result[key] = value;
-    }
+/**
+ * Whether a value is written inline or as a reference
+ * @returns undefined when the value could be either, e.g. an empty object
+ */
+export const referenceChoiceOf = (
+  value: unknown,
+): 'inline' | 'reference' | undefined => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return value === undefined ? undefined : 'inline';
   }
-
-  return result;
+  if ('$ref' in value) return 'reference';
+  return Object.keys(value).some((key) => !REFERENCE_PROPERTIES.includes(key))
+    ? 'inline'
+    : undefined;
 };
 
-// Test function for debugging
-export const testSchemaProcessor = () => {
-  const testSchema = {
-    type: 'object',
-    properties: {
-      inputPortOrReference: {
-        oneOf: [
-          {
-            $ref: '#/$defs/reference',
-          },
-          {
-            $ref: '#/$defs/inputPort',
-          },
-        ],
-      },
-      nested: {
-        type: 'object',
-        properties: {
-          anotherOneOf: {
-            oneOf: [
-              {
-                $ref: '#/$defs/nestedRef',
-              },
-              {
-                type: 'string',
-              },
-            ],
-          },
-        },
-      },
-      array: {
-        type: 'array',
-        items: {
-          oneOf: [
-            {
-              $ref: '#/$defs/arrayItem',
-            },
-            {
-              type: 'number',
-            },
-          ],
-        },
-      },
-    },
-  };
-
-  const processed = processSchema(testSchema);
-  console.log('Test schema processed:', processed);
-  return processed;
+/**
+ * Schema handed to the form
+ * The root `$id` is dropped: rjsf matches the data against `oneOf` options
+ * by resolving their local `$ref`s against a root schema without id, and
+ * fails to compile them otherwise.
+ */
+export const toFormSchema = (schema: unknown): RJSFSchema => {
+  const { $id, ...rest } = schema as RJSFSchema;
+  return $id === undefined ? (schema as RJSFSchema) : rest;
 };
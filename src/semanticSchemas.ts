@@ -0,0 +1,151 @@
+/**
+ * Semantic validation for Data Product Descriptors
+ * Cross-field consistency rules layered on top of the structural zod schemas
+ * from zodSchemas.ts. Each issue carries the name of the rule that produced
+ * it in `params.rule`; the verifier runs the same checks as lint rules.
+ *
+ * @see https://dpds.opendatamesh.org/specifications/dpds/1.0.0/
+ */
+
+import { z } from 'zod';
+import { dataProductDescriptorSchema } from './zodSchemas';
+import type { DataProductDescriptor } from './types';
+import { majorVersion, parseUrn } from './lib/descriptor';
+
+// ===============================================================
+// Helpers
+// ===============================================================
+
+const PORT_FQN_KINDS = [
+  ['inputPorts', 'inputports'],
+  ['outputPorts', 'outputports'],
+] as const;
+
+/**
+ * An inconsistency found by a rule
+ */
+export interface ConsistencyIssue {
+  rule: string;
+  path: (string | number)[];
+  message: string;
+}
+
+// ===============================================================
+// Consistency Rules
+// ===============================================================
+
+/**
+ * Check that info.fullyQualifiedName ends with info.name and the major
+ * version of info.version
+ * @returns The declared product URN, used to check port FQNs
+ */
+function checkProductFqn(
+  descriptor: DataProductDescriptor,
+  issues: ConsistencyIssue[],
+): string | undefined {
+  const { fullyQualifiedName, name, version } = descriptor.info;
+  const parsed = parseUrn(fullyQualifiedName);
+  if (!parsed) return undefined;
+
+  const { name: urnName, major: urnVersion } = parsed;
+  const urn = `${parsed.product}:${urnVersion}`;
+  const major = majorVersion(version);
+
+  if (urnName !== name) {
+    issues.push({
+      rule: 'product-fqn-consistency',
+      path: ['info', 'fullyQualifiedName'],
+      message: `fullyQualifiedName must contain the data product name "${name}", found "${urnName}"`,
+    });
+  }
+
+  if (major !== undefined && urnVersion !== major) {
+    issues.push({
+      rule: 'product-fqn-consistency',
+      path: ['info', 'fullyQualifiedName'],
+      message: `fullyQualifiedName must end with the major version of info.version (${major}), found "${urnVersion}"`,
+    });
+  }
+
+  // Port FQNs are checked against the declared URN, so that a product level
+  // mismatch isn't reported again on every port
+  return urn;
+}
+
+/**
+ * Check that each port FQN starts with the product URN and ends with
+ * `:{inputports|outputports}:{port.name}`
+ * Input ports may instead name the output port they consume, checked at mesh
+ * level (see lib/mesh.ts)
+ */
+function checkPortFqns(
+  descriptor: DataProductDescriptor,
+  productUrn: string,
+  issues: ConsistencyIssue[],
+) {
+  PORT_FQN_KINDS.forEach(([kind, urnKind]) => {
+    descriptor.interfaceComponents[kind]?.forEach((port, index) => {
+      if ('$ref' in port || !port.fullyQualifiedName) return;
+      if (
+        kind === 'inputPorts' &&
+        port.fullyQualifiedName.includes(':outputports:')
+      ) {
+        return;
+      }
+
+      const path = ['interfaceComponents', kind, index, 'fullyQualifiedName'];
+      const fqn = port.fullyQualifiedName;
+      const suffix = `:${urnKind}:${port.name}`;
+
+      if (!fqn.startsWith(`${productUrn}:`)) {
+        issues.push({
+          rule: 'port-fqn-consistency',
+          path,
+          message: `fullyQualifiedName must start with the data product URN "${productUrn}"`,
+        });
+      }
+
+      if (!fqn.endsWith(suffix)) {
+        issues.push({
+          rule: 'port-fqn-consistency',
+          path,
+          message: `fullyQualifiedName must end with "${suffix}"`,
+        });
+      }
+    });
+  });
+}
+
+// ===============================================================
+// Semantic Data Product Descriptor Schema
+// ===============================================================
+
+/**
+ * Check the consistency between the fully qualified names, names and
+ * versions of a structurally valid descriptor
+ * @returns Issues found, with the name of their rule
+ */
+export function checkConsistency(
+  descriptor: DataProductDescriptor,
+): ConsistencyIssue[] {
+  const issues: ConsistencyIssue[] = [];
+  const productUrn = checkProductFqn(descriptor, issues);
+  if (productUrn) checkPortFqns(descriptor, productUrn, issues);
+  return issues;
+}
+
+/**
+ * Data Product Descriptor schema with cross-field consistency rules
+ * @see zodSchemas.ts dataProductDescriptorSchema
+ */
+export const semanticDataProductDescriptorSchema =
+  dataProductDescriptorSchema.superRefine((descriptor, ctx) =>
+    checkConsistency(descriptor).forEach(({ rule, path, message }) =>
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path,
+        message,
+        params: { rule },
+      }),
+    ),
+  );
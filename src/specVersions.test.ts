@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { semanticDataProductDescriptorSchema } from './semanticSchemas';
+import {
+  DEFAULT_SPEC_VERSION,
+  findSpecVersion,
+  getSpecVersions,
+  registerSpecVersion,
+  resolveSpecVersion,
+} from './specVersions';
+
+describe('findSpecVersion', () => {
+  it('matches pre-release and build versions to their release', () => {
+    expect(findSpecVersion('1.0.0')?.version).toBe('1.0.0');
+    expect(findSpecVersion('1.0.0-DRAFT')?.version).toBe('1.0.0');
+    expect(findSpecVersion('1.0.0+build.5')?.version).toBe('1.0.0');
+  });
+
+  it('does not find unknown or missing versions', () => {
+    expect(findSpecVersion('0.9.0')).toBeUndefined();
+    expect(findSpecVersion(undefined)).toBeUndefined();
+    expect(findSpecVersion(1)).toBeUndefined();
+  });
+});
+
+describe('resolveSpecVersion', () => {
+  it('resolves the declared version', () => {
+    expect(resolveSpecVersion({ dataProductDescriptor: '1.0.0-rc.1' })).toEqual(
+      { spec: findSpecVersion('1.0.0'), known: true },
+    );
+  });
+
+  it('falls back to the default version', () => {
+    [{ dataProductDescriptor: '9.0.0' }, {}, null, 'descriptor'].forEach(
+      (data) =>
+        expect(resolveSpecVersion(data)).toEqual({
+          spec: findSpecVersion(DEFAULT_SPEC_VERSION),
+          known: false,
+        }),
+    );
+  });
+});
+
+describe('registerSpecVersion', () => {
+  it('adds versions, preferring exact matches to releases', () => {
+    const draft = {
+      version: '1.1.0-DRAFT',
+      schemaUrl: '/schema-1.1.0-DRAFT.json',
+      descriptorSchema: semanticDataProductDescriptorSchema,
+    };
+    registerSpecVersion({ ...draft, version: '1.1.0', schemaUrl: '/1.1.json' });
+    registerSpecVersion(draft);
+
+    expect(getSpecVersions().map(({ version }) => version)).toEqual([
+      '1.0.0',
+      '1.1.0',
+      '1.1.0-DRAFT',
+    ]);
+    expect(findSpecVersion('1.1.0-DRAFT')).toBe(draft);
+    expect(findSpecVersion('1.1.0-rc.1')?.schemaUrl).toBe('/1.1.json');
+  });
+});
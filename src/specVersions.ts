@@ -0,0 +1,97 @@
+/**
+ * DPDS Specification Versions
+ * Registry of the specification versions descriptors can declare in their
+ * `dataProductDescriptor` field, each with the JSON Schema used by the web
+ * app and the zod schema used by the verifier. New specification releases
+ * are added with `registerSpecVersion`, from any module.
+ *
+ * @see https://dpds.opendatamesh.org/specifications/dpds/1.0.0/
+ */
+
+import type { z } from 'zod';
+import { semanticDataProductDescriptorSchema } from './semanticSchemas';
+import type { DataProductDescriptor } from './types';
+
+// ===============================================================
+// Types
+// ===============================================================
+
+/**
+ * A specification version and the schemas validating it
+ */
+export interface SpecVersion {
+  /** Value of the `dataProductDescriptor` field (e.g. `1.0.0`) */
+  version: string;
+  /** URL of the JSON Schema loaded by the web app */
+  schemaUrl: string;
+  /** Schema used by the verifier, consistency rules included */
+  descriptorSchema: z.ZodType<DataProductDescriptor>;
+}
+
+/**
+ * Specification version a descriptor is validated with
+ */
+export interface ResolvedSpecVersion {
+  spec: SpecVersion;
+  /** False when the declared version isn't registered and the default is used */
+  known: boolean;
+}
+
+/**
+ * Version used for descriptors declaring an unknown or no version
+ */
+export const DEFAULT_SPEC_VERSION = '1.0.0';
+
+// ===============================================================
+// Registry
+// ===============================================================
+
+const registry = new Map<string, SpecVersion>();
+
+/**
+ * Register the schemas of a specification version
+ * Registering a version again replaces its schemas.
+ */
+export function registerSpecVersion(spec: SpecVersion): void {
+  registry.set(spec.version, spec);
+}
+
+/**
+ * Registered specification versions, in registration order
+ */
+export function getSpecVersions(): SpecVersion[] {
+  return Array.from(registry.values());
+}
+
+/**
+ * Find the registered specification version matching a declared version
+ * Pre-release and build suffixes (e.g. `1.0.0-DRAFT`) match the release
+ * when the exact version isn't registered.
+ * @param version Value of the `dataProductDescriptor` field
+ */
+export function findSpecVersion(version: unknown): SpecVersion | undefined {
+  if (typeof version !== 'string') return undefined;
+  return registry.get(version) ?? registry.get(version.replace(/[-+].*$/, ''));
+}
+
+/**
+ * Specification version to validate a descriptor with, falling back to the
+ * default version when the declared one isn't registered
+ * @param data The descriptor, of any shape
+ */
+export function resolveSpecVersion(data: unknown): ResolvedSpecVersion {
+  const declared =
+    typeof data === 'object' && data !== null
+      ? (data as Record<string, unknown>).dataProductDescriptor
+      : undefined;
+  const spec = findSpecVersion(declared);
+  return spec
+    ? { spec, known: true }
+    : { spec: registry.get(DEFAULT_SPEC_VERSION)!, known: false };
+}
+
+registerSpecVersion({
+  version: DEFAULT_SPEC_VERSION,
+  schemaUrl: '/schema.json',
+  descriptorSchema: semanticDataProductDescriptorSchema,
+});
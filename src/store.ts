@@ -1,21 +1,34 @@
 import { create } from 'zustand';
 import { persist, PersistOptions } from 'zustand/middleware';
+import { DocumentFormat } from './lib/parse';
 
 interface FormDataState {
   formData: Record<string, unknown>;
+  // Format of the loaded document, used when exporting it back
+  documentFormat: DocumentFormat;
+  // Path of the form field to open and scroll to, not persisted
+  revealedPath?: string[];
   setFormData: (data: Record<string, unknown>) => void;
+  setDocumentFormat: (format: DocumentFormat) => void;
+  revealField: (path?: string[]) => void;
   resetFormData: () => void;
 }
 
-const persistOptions: PersistOptions<FormDataState> = {
+type PersistedState = Pick<FormDataState, 'formData' | 'documentFormat'>;
+
+const persistOptions: PersistOptions<FormDataState, PersistedState> = {
   name: 'form-data-storage',
+  partialize: ({ formData, documentFormat }) => ({ formData, documentFormat }),
 };
 
 export const useStore = create<FormDataState>()(
   persist(
     (set) => ({
       formData: {},
+      documentFormat: 'json',
       setFormData: (formData) => set({ formData }),
+      setDocumentFormat: (documentFormat) => set({ documentFormat }),
+      revealField: (revealedPath) => set({ revealedPath }),
       resetFormData: () => set({ formData: {} }),
     }),
     persistOptions,
@@ -1,359 +1,373 @@
 /**
- * TypeScript definitions for Data Product Descriptor Specification (DPDS)
- * Based on DPDS v1.0.0
+ * Generated from public/schema.json by scripts/generate-schemas.mjs.
+ * Do not edit: change the schema, then run `npm run generate`.
+ *
  * @see https://dpds.opendatamesh.org/specifications/dpds/1.0.0/
  */
 
 /**
- * Base Entity interface that many components extend
+ * Info Object
+ * @see https://dpds.opendatamesh.org/specifications/dpds/1.0.0/#infoObject
+ * @see schema.json $defs.info
  */
-export interface Entity {
-  /** Unique identifier */
+export interface Info {
   id?: string;
-  /** Fully qualified name */
-  fullyQualifiedName?: string;
-  /** Entity type */
+  fullyQualifiedName: string;
   entityType?: string;
-  /** Name of the entity (required) */
   name: string;
-  /** Version of the entity (required) */
   version: string;
-  /** Display name */
   displayName?: string;
-  /** Description */
-  description?: string;
-  /** Component group */
-  componentGroup?: string;
-  /** Tags */
-  tags?: string[];
-  /** External documentation */
-  externalDocs?: ExternalResource;
-  /** Any additional custom properties */
-  [key: string]: any;
-}
-
-/**
- * External Resource Object
- * @see https://dpds.opendatamesh.org/specifications/dpds/1.0.0/#externalResourceObject
- */
-export interface ExternalResource {
-  /** Description of the external resource */
-  description?: string;
-  /** Media type */
-  mediaType?: string;
-  /** URL reference (required) */
-  $href: string;
-}
-
-/**
- * Reference Object
- * @see https://dpds.opendatamesh.org/specifications/dpds/1.0.0/#referenceObject
- */
-export interface Reference {
-  /** URI reference (required) */
-  $ref: string;
-  /** Media type */
-  mediaType?: string;
-  /** Description */
   description?: string;
+  domain: string;
+  owner: Owner;
+  contactPoints?: ContactPoint[];
+  [key: `x-${string}`]: unknown;
 }
 
 /**
  * Owner Object
  * @see https://dpds.opendatamesh.org/specifications/dpds/1.0.0/#ownerObject
+ * @see schema.json $defs.owner
  */
 export interface Owner {
-  /** Owner ID (required) */
   id: string;
-  /** Owner name */
   name?: string;
-  /** Any additional custom properties */
-  [key: string]: any;
+  [key: `x-${string}`]: unknown;
 }
 
 /**
  * Contact Point Object
  * @see https://dpds.opendatamesh.org/specifications/dpds/1.0.0/#contactPointObject
+ * @see schema.json $defs.contactPoint
  */
 export interface ContactPoint {
-  /** Name of the contact point */
   name?: string;
-  /** Description */
   description?: string;
-  /** Communication channel */
   channel?: string;
-  /** Address */
   address?: string;
-  /** Any additional custom properties */
-  [key: string]: any;
+  [key: `x-${string}`]: unknown;
 }
 
 /**
- * Info Object
- * @see https://dpds.opendatamesh.org/specifications/dpds/1.0.0/#infoObject
+ * Interface Components Object
+ * @see https://dpds.opendatamesh.org/specifications/dpds/1.0.0/#interfaceComponentsObject
+ * @see schema.json $defs.interfaceComponents
  */
-export interface Info {
-  /** Unique identifier */
-  id?: string;
-  /** Fully qualified name (required) */
-  fullyQualifiedName: string;
-  /** Entity type */
-  entityType?: string;
-  /** Name of the data product (required) */
-  name: string;
-  /** Version of the data product (required) */
-  version: string;
-  /** Display name */
-  displayName?: string;
-  /** Description */
-  description?: string;
-  /** Domain (required) */
-  domain: string;
-  /** Owner information (required) */
-  owner: Owner;
-  /** Contact points */
-  contactPoints?: ContactPoint[];
-  /** Any additional custom properties */
-  [key: string]: any;
+export interface InterfaceComponents {
+  inputPorts?: InputPortOrReference[];
+  outputPorts: OutputPortOrReference[];
+  discoveryPorts?: DiscoveryPortOrReference[];
+  observabilityPorts?: ObservabilityPortOrReference[];
+  controlPorts?: ControlPortOrReference[];
 }
 
 /**
- * Standard Definition Object
- * @see https://dpds.opendatamesh.org/specifications/dpds/1.0.0/#standardDefinitionObject
+ * @see schema.json $defs.inputPortOrReference
  */
-export interface StandardDefinition extends Entity {
-  /** Specification used */
-  specification: string;
-  /** Specification version */
-  specificationVersion?: string;
-  /** Definition content - can be an object, string or reference */
-  definition: any;
+export type InputPortOrReference = Reference | InputPort;
+
+/**
+ * Input Port Object
+ * @see https://dpds.opendatamesh.org/specifications/dpds/1.0.0/#inputPortComponent
+ * @see schema.json $defs.inputPort
+ */
+export interface InputPort extends Entity, Port {
+  [key: `x-${string}`]: unknown;
+}
+
+/**
+ * @see schema.json $defs.outputPortOrReference
+ */
+export type OutputPortOrReference = Reference | OutputPort;
+
+/**
+ * Output Port Component
+ * @see https://dpds.opendatamesh.org/specifications/dpds/1.0.0/#outputPortComponent
+ * @see schema.json $defs.outputPort
+ */
+export interface OutputPort extends Entity, Port {
+  [key: `x-${string}`]: unknown;
+}
+
+/**
+ * @see schema.json $defs.discoveryPortOrReference
+ */
+export type DiscoveryPortOrReference = Reference | DiscoveryPort;
+
+/**
+ * Discovery Port Component
+ * @see https://dpds.opendatamesh.org/specifications/dpds/1.0.0/#discoveryPortComponent
+ * @see schema.json $defs.discoveryPort
+ */
+export interface DiscoveryPort extends Entity, Port {
+  [key: `x-${string}`]: unknown;
+}
+
+/**
+ * @see schema.json $defs.observabilityPortOrReference
+ */
+export type ObservabilityPortOrReference = Reference | ObservabilityPort;
+
+/**
+ * Observability Port Component
+ * @see https://dpds.opendatamesh.org/specifications/dpds/1.0.0/#observabilityPortComponent
+ * @see schema.json $defs.observabilityPort
+ */
+export interface ObservabilityPort extends Entity, Port {
+  [key: `x-${string}`]: unknown;
+}
+
+/**
+ * @see schema.json $defs.controlPortOrReference
+ */
+export type ControlPortOrReference = Reference | ControlPort;
+
+/**
+ * Control Port Component
+ * @see https://dpds.opendatamesh.org/specifications/dpds/1.0.0/#controlPortComponent
+ * @see schema.json $defs.controlPort
+ */
+export interface ControlPort extends Entity, Port {
+  [key: `x-${string}`]: unknown;
 }
 
+/**
+ * @see schema.json $defs.port
+ */
+export interface Port {
+  promises?: PromisesOrReference;
+  expectations?: ExpectationsOrReference;
+  obligations?: ObligationsOrReference;
+}
+
+/**
+ * @see schema.json $defs.promisesOrReference
+ */
+export type PromisesOrReference = Reference | Promises;
+
 /**
  * Promises Object
  * @see https://dpds.opendatamesh.org/specifications/dpds/1.0.0/#promisesObject
+ * @see schema.json $defs.promises
  */
 export interface Promises {
-  /** Platform */
   platform?: string;
-  /** Services type */
   servicesType?: string;
-  /** API definition */
   api?: StandardDefinition;
-  /** Deprecation policy */
   deprecationPolicy?: StandardDefinition;
-  /** Service level objectives */
   slo?: StandardDefinition;
-  /** Any additional custom properties */
-  [key: string]: any;
+  [key: `x-${string}`]: unknown;
+}
+
+/**
+ * @see schema.json $defs.definition
+ */
+export interface Definition {
+  specification: string;
+  specificationVersion?: string;
+  definition: ObjectOrStringOrReference;
+  [key: `x-${string}`]: unknown;
+}
+
+/**
+ * Standard Definition Object
+ * @see https://dpds.opendatamesh.org/specifications/dpds/1.0.0/#standardDefinitionObject
+ * @see schema.json $defs.standardDefinition
+ */
+export interface StandardDefinition extends Entity, Definition {
+  [key: `x-${string}`]: unknown;
 }
 
+/**
+ * @see schema.json $defs.expectationsOrReference
+ */
+export type ExpectationsOrReference = Reference | Expectations;
+
 /**
  * Expectations Object
  * @see https://dpds.opendatamesh.org/specifications/dpds/1.0.0/#expectationsObject
+ * @see schema.json $defs.expectations
  */
 export interface Expectations {
-  /** Audience expectations */
   audience?: StandardDefinition;
-  /** Usage expectations */
   usage?: StandardDefinition;
-  /** Any additional custom properties */
-  [key: string]: any;
+  [key: `x-${string}`]: unknown;
 }
 
+/**
+ * @see schema.json $defs.obligationsOrReference
+ */
+export type ObligationsOrReference = Reference | Obligations;
+
 /**
  * Obligations Object
  * @see https://dpds.opendatamesh.org/specifications/dpds/1.0.0/#obligationsObject
+ * @see schema.json $defs.obligations
  */
 export interface Obligations {
-  /** Terms and conditions */
   termsAndConditions?: StandardDefinition;
-  /** Billing policy */
   billingPolicy?: StandardDefinition;
-  /** Service level agreement */
   sla?: StandardDefinition;
-  /** Any additional custom properties */
-  [key: string]: any;
+  [key: `x-${string}`]: unknown;
 }
 
 /**
- * Base Port interface that specific port types extend
+ * Internal Components Object
+ * @see https://dpds.opendatamesh.org/specifications/dpds/1.0.0/#internalComponentsObject
+ * @see schema.json $defs.internalComponents
  */
-export interface Port extends Entity {
-  /** Port promises */
-  promises?: Promises | Reference;
-  /** Port expectations */
-  expectations?: Expectations | Reference;
-  /** Port obligations */
-  obligations?: Obligations | Reference;
+export interface InternalComponents {
+  lifecycleInfo?: {
+    [key: string]: LifecycleTaskInfo[];
+  };
+  applicationComponents?: ApplicationComponentOrReference[];
+  infrastructuralComponents?: InfrastructuralComponentOrReference[];
 }
 
 /**
- * Input Port Component
- * @see https://dpds.opendatamesh.org/specifications/dpds/1.0.0/#inputPortComponent
- */
-export interface InputPort extends Port {}
-
-/**
- * Output Port Component
- * @see https://dpds.opendatamesh.org/specifications/dpds/1.0.0/#outputPortComponent
- */
-export interface OutputPort extends Port {}
-
-/**
- * Discovery Port Component
- * @see https://dpds.opendatamesh.org/specifications/dpds/1.0.0/#discoveryPortComponent
- */
-export interface DiscoveryPort extends Port {}
-
-/**
- * Observability Port Component
- * @see https://dpds.opendatamesh.org/specifications/dpds/1.0.0/#observabilityPortComponent
+ * Owner Object
+ * @see https://dpds.opendatamesh.org/specifications/dpds/1.0.0/#lifecycleTaskInfoObject
+ * @see schema.json $defs.lifecycleTaskInfo
  */
-export interface ObservabilityPort extends Port {}
+export interface LifecycleTaskInfo {
+  name?: string;
+  order?: number;
+  service?: ExternalResource;
+  template?: StandardDefinitionOrReference;
+  configurations?: ObjectOrReference;
+  [key: `x-${string}`]: unknown;
+}
 
 /**
- * Control Port Component
- * @see https://dpds.opendatamesh.org/specifications/dpds/1.0.0/#controlPortComponent
+ * @see schema.json $defs.standardDefinitionOrReference
  */
-export interface ControlPort extends Port {}
+export type StandardDefinitionOrReference = Reference | StandardDefinition;
 
 /**
- * Interface Components Object
- * @see https://dpds.opendatamesh.org/specifications/dpds/1.0.0/#interfaceComponentsObject
+ * @see schema.json $defs.applicationComponentOrReference
  */
-export interface InterfaceComponents {
-  /** Input ports */
-  inputPorts?: (InputPort | Reference)[];
-  /** Output ports (required) */
-  outputPorts: (OutputPort | Reference)[];
-  /** Discovery ports */
-  discoveryPorts?: (DiscoveryPort | Reference)[];
-  /** Observability ports */
-  observabilityPorts?: (ObservabilityPort | Reference)[];
-  /** Control ports */
-  controlPorts?: (ControlPort | Reference)[];
-}
+export type ApplicationComponentOrReference = Reference | ApplicationComponent;
 
 /**
  * Application Component
  * @see https://dpds.opendatamesh.org/specifications/dpds/1.0.0/#applicationComponent
+ * @see schema.json $defs.applicationComponent
  */
 export interface ApplicationComponent extends Entity {
-  /** Platform */
   platform?: string;
-  /** Application type */
   applicationType?: string;
-  /** Components this application consumes from */
   consumesFrom?: string[];
-  /** Components this application provides to */
   providesTo?: string[];
-  /** Components this application depends on */
   dependsOn?: string[];
+  [key: `x-${string}`]: unknown;
 }
 
+/**
+ * @see schema.json $defs.infrastructuralComponentOrReference
+ */
+export type InfrastructuralComponentOrReference = Reference | InfrastructuralComponent;
+
 /**
  * Infrastructural Component
  * @see https://dpds.opendatamesh.org/specifications/dpds/1.0.0/#infrastructuralComponent
+ * @see schema.json $defs.infrastructuralComponent
  */
 export interface InfrastructuralComponent extends Entity {
-  /** Platform */
   platform?: string;
-  /** Infrastructure type */
   infrastructureType?: string;
-  /** Components this infrastructure depends on */
   dependsOn?: string[];
 }
 
-/**
- * Lifecycle Task Info Object
- * @see https://dpds.opendatamesh.org/specifications/dpds/1.0.0/#lifecycleTaskInfoObject
- */
-export interface LifecycleTaskInfo {
-  /** Name of the task */
-  name?: string;
-  /** Order of execution */
-  order?: number;
-  /** Service to execute the task */
-  service?: ExternalResource;
-  /** Template for the task */
-  template?: StandardDefinition | Reference;
-  /** Configurations for the task */
-  configurations?: object | Reference;
-  /** Any additional custom properties */
-  [key: string]: any;
-}
-
-/**
- * Internal Components Object
- * @see https://dpds.opendatamesh.org/specifications/dpds/1.0.0/#internalComponentsObject
- */
-export interface InternalComponents {
-  /** Lifecycle information */
-  lifecycleInfo?: {
-    [key: string]: LifecycleTaskInfo[];
-  };
-  /** Application components */
-  applicationComponents?: (ApplicationComponent | Reference)[];
-  /** Infrastructural components */
-  infrastructuralComponents?: (InfrastructuralComponent | Reference)[];
-}
-
 /**
  * Components Object
  * @see https://dpds.opendatamesh.org/specifications/dpds/1.0.0/#componentsObject
+ * @see schema.json $defs.components
  */
 export interface Components {
-  /** Reusable input ports */
   inputPorts?: {
-    [key: string]: InputPort | Reference;
+    [key: string]: InputPortOrReference;
   };
-  /** Reusable output ports */
   outputPorts?: {
-    [key: string]: OutputPort | Reference;
+    [key: string]: OutputPortOrReference;
   };
-  /** Reusable discovery ports */
   discoveryPorts?: {
-    [key: string]: DiscoveryPort | Reference;
+    [key: string]: DiscoveryPortOrReference;
   };
-  /** Reusable observability ports */
   observabilityPorts?: {
-    [key: string]: ObservabilityPort | Reference;
+    [key: string]: ObservabilityPortOrReference;
   };
-  /** Reusable control ports */
   controlPorts?: {
-    [key: string]: ControlPort | Reference;
+    [key: string]: ControlPortOrReference;
   };
-  /** Reusable application components */
   applicationComponents?: {
-    [key: string]: ApplicationComponent | Reference;
+    [key: string]: ApplicationComponentOrReference;
   };
-  /** Reusable infrastructural components */
   infrastructuralComponents?: {
-    [key: string]: InfrastructuralComponent | Reference;
+    [key: string]: InfrastructuralComponentOrReference;
   };
-  /** Any additional custom properties */
-  [key: string]: any;
+  [key: `x-${string}`]: unknown;
+}
+
+/**
+ * Reference Object
+ * @see https://dpds.opendatamesh.org/specifications/dpds/1.0.0/#referenceObject
+ * @see schema.json $defs.reference
+ */
+export interface Reference {
+  $ref: string;
+  mediaType?: string;
+  description?: string;
+}
+
+/**
+ * External Resource Object
+ * @see https://dpds.opendatamesh.org/specifications/dpds/1.0.0/#externalResourceObject
+ * @see schema.json $defs.externalResource
+ */
+export interface ExternalResource {
+  description?: string;
+  mediaType?: string;
+  $href: string;
 }
 
 /**
- * Data Product Descriptor
+ * @see schema.json $defs.objectOrReference
+ */
+export type ObjectOrReference = Record<string, unknown> | Reference;
+
+/**
+ * @see schema.json $defs.objectOrStringOrReference
+ */
+export type ObjectOrStringOrReference = Record<string, unknown> | string;
+
+/**
+ * @see schema.json $defs.entity
+ */
+export interface Entity {
+  id?: string;
+  fullyQualifiedName?: string;
+  entityType?: string;
+  name: string;
+  version: string;
+  displayName?: string;
+  description?: string;
+  componentGroup?: string;
+  tags?: string[];
+  externalDocs?: ExternalResource;
+}
+
+/**
+ * dataProductDescriptor
  * @see https://dpds.opendatamesh.org/specifications/dpds/1.0.0/#dpdsObject
+ * @see schema.json root object
  */
 export interface DataProductDescriptor {
-  /** Data product descriptor version (required) */
   dataProductDescriptor: string;
-  /** Information about the data product (required) */
   info: Info;
-  /** Interface components (required) */
   interfaceComponents: InterfaceComponents;
-  /** Internal components */
   internalComponents?: InternalComponents;
-  /** Reusable components */
   components?: Components;
-  /** Tags */
   tags?: string[];
-  /** External documentation */
   externalDocs?: ExternalResource;
 }
+
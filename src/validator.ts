@@ -0,0 +1,13 @@
+import { customizeValidator } from '@rjsf/validator-ajv8';
+import { Ajv2020 } from 'ajv/dist/2020';
+import { DPDS_FORMAT_PATTERNS } from './formats';
+
+/**
+ * Validator of the form and of the source editor
+ * The DPDS schema is a draft 2020-12 schema; the DPDS custom string formats
+ * are checked like the CLI does.
+ */
+export const formValidator = customizeValidator({
+  AjvClass: Ajv2020,
+  customFormats: DPDS_FORMAT_PATTERNS,
+});
@@ -1,228 +1,172 @@
 /**
- * Zod schema definitions for Data Product Descriptor Specification (DPDS)
- * These schemas provide runtime validation matching the TypeScript types
- * from types.ts and align with the official JSON schema
+ * Generated from public/schema.json by scripts/generate-schemas.mjs.
+ * Do not edit: change the schema, then run `npm run generate`.
  *
  * @see https://dpds.opendatamesh.org/specifications/dpds/1.0.0/
  */
 
 import { z } from 'zod';
-import type {
-  DataProductDescriptor,
-  InterfaceComponents,
-  Components,
-} from './types';
-
-// ===============================================================
-// Custom Validators
-// ===============================================================
-
-/**
- * UUID format validator
- * Format: xxxxxxxx-xxxx-xxxx-xxxx-xxxxxxxxxxxx where x is a hexadecimal character
- */
-const uuidRegex =
-  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
-const isValidUuid = (val?: string) => val === undefined || uuidRegex.test(val);
-
-/**
- * Fully Qualified Name format validator
- * For Data Products:
- *   Format: A URN of the form urn:dpds:{mesh-namespace}:dataproducts:{product-name}:{product-major-version}
- *   Example: "urn:dpds:it.quantyca:dataproducts:tripExecution:1"
- * For Input Ports:
- *   Format: A URN of the form urn:dpds:{mesh-namespace}:dataproducts:{product-name}:{product-major-version}:inputports:{port-name}
- *   Example: "urn:dpds:it.quantyca:dataproducts:tripExecution:1:inputports:tmsTripCDC"
- * For Output Ports:
- *   Format: A URN of the form urn:dpds:{mesh-namespace}:dataproducts:{product-name}:{product-major-version}:outputports:{port-name}
- *   Example: "urn:dpds:it.quantyca:dataproducts:tripExecution:1:outputports:tripDetails"
- *
- * Where mesh-namespace is typically a company's domain name in reverse dot notation (e.g., it.quantyca)
- */
-const fqnRegex =
-  /^urn:dpds:[a-zA-Z0-9][\w\.\-]*:dataproducts:[a-zA-Z0-9][\w\-]*:[0-9]+(:(input|output)ports:[a-zA-Z0-9][\w\-]*)?$/;
-const isValidFqn = (val?: string): val is string =>
-  val === undefined || fqnRegex.test(val);
+import { formatRefinement } from './formats';
+import type { DataProductDescriptor } from './types';
 
 /**
- * Alphanumeric format validator
- */
-const alphanumericRegex = /^[a-zA-Z0-9]+$/;
-const isValidAlphanumeric = (val?: string) =>
-  val === undefined || alphanumericRegex.test(val);
-
-/**
- * Domain format validator
- */
-const domainRegex = /^[a-zA-Z0-9][\w\.\-]*$/;
-const isValidDomain = (val?: string) =>
-  val === undefined || domainRegex.test(val);
-
-/**
- * Name camel case validator
- */
-const camelCaseRegex = /^[a-z][a-zA-Z0-9]*$/;
-const isValidCamelCase = (val?: string) =>
-  val === undefined || camelCaseRegex.test(val);
-
-/**
- * Version format validator
- * Format: semantic versioning format
- */
-const versionRegex = /^\d+\.\d+\.\d+(-[a-zA-Z0-9\.]+)?(\+[a-zA-Z0-9\.]+)?$/;
-const isValidVersion = (val?: string) =>
-  val === undefined || versionRegex.test(val);
-
-/**
- * URI format validator
+ * Owner Object
+ * @see https://dpds.opendatamesh.org/specifications/dpds/1.0.0/#ownerObject
+ * @see schema.json $defs.owner
  */
-const uriRegex = /^(https?|ftp):\/\/[^\s/$.?#].[^\s]*$/i;
-const isValidUri = (val?: string) => val === undefined || uriRegex.test(val);
+export const ownerSchema = z
+  .object({
+    id: z.string(),
+    name: z.string().optional(),
+  })
+  .passthrough();
 
 /**
- * URI reference format validator
- * Can be a relative path or absolute URI
+ * Contact Point Object
+ * @see https://dpds.opendatamesh.org/specifications/dpds/1.0.0/#contactPointObject
+ * @see schema.json $defs.contactPoint
  */
-const uriReferenceRegex =
-  /^(\.{0,2}\/[^\s]*|[a-z][a-z0-9+\-.]*:[^\s]*|#[^\s]*)$/i;
-const isValidUriReference = (val?: string) =>
-  val === undefined || uriReferenceRegex.test(val);
-
-// ===============================================================
-// Base Schemas
-// ===============================================================
+export const contactPointSchema = z
+  .object({
+    name: z
+      .string()
+      .refine(...formatRefinement('name', 'name'))
+      .optional(),
+    description: z.string().optional(),
+    channel: z.string().optional(),
+    address: z.string().optional(),
+  })
+  .passthrough();
 
 /**
- * Entity schema - base for many components
- * @see types.ts Entity interface
- * @see schema.json $defs.entity
+ * Info Object
+ * @see https://dpds.opendatamesh.org/specifications/dpds/1.0.0/#infoObject
+ * @see schema.json $defs.info
  */
-export const entitySchema = z
+export const infoSchema = z
   .object({
-    // readOnly in the schema
     id: z
       .string()
-      .optional()
-      .refine(isValidUuid, { message: 'id must be a valid UUID format' }),
-    fullyQualifiedName: z.string().optional().refine(isValidFqn, {
-      message:
-        'fullyQualifiedName must be a URN of the form urn:dpds:{mesh-namespace}:dataproducts:{product-name}:{product-major-version} or urn:dpds:{mesh-namespace}:dataproducts:{product-name}:{product-major-version}:(input|output)ports:{port-name}',
-    }),
-    // readOnly in the schema
-    entityType: z.string().optional().refine(isValidAlphanumeric, {
-      message: 'entityType must contain only alphanumeric characters',
-    }),
-    name: z.string().refine(isValidCamelCase, {
-      message: 'name must be in a valid format (camelCase)',
-    }),
-    version: z.string().refine(isValidVersion, {
-      message: 'version must follow semantic versioning format',
-    }),
+      .refine(...formatRefinement('uuid', 'id'))
+      .optional(),
+    fullyQualifiedName: z
+      .string()
+      .refine(...formatRefinement('fqn', 'fullyQualifiedName')),
+    entityType: z
+      .string()
+      .refine(...formatRefinement('alphanumeric', 'entityType'))
+      .optional(),
+    name: z
+      .string()
+      .refine(...formatRefinement('name', 'name')),
+    version: z
+      .string()
+      .refine(...formatRefinement('version', 'version')),
     displayName: z.string().optional(),
     description: z.string().optional(),
-    componentGroup: z.string().optional(),
-    tags: z.array(z.string()).optional(),
-    externalDocs: z
-      .object({
-        description: z.string().optional(),
-        mediaType: z.string().optional(),
-        $href: z
-          .string()
-          .refine(isValidUri, { message: '$href must be a valid URI' }),
-      })
-      .optional(),
+    domain: z
+      .string()
+      .refine(...formatRefinement('name', 'domain')),
+    owner: ownerSchema,
+    contactPoints: z.array(contactPointSchema).optional(),
   })
   .passthrough();
 
 /**
- * Reference schema - for referencing other resources
- * @see types.ts Reference interface
+ * Reference Object
+ * @see https://dpds.opendatamesh.org/specifications/dpds/1.0.0/#referenceObject
  * @see schema.json $defs.reference
  */
-export const referenceSchema = z.object({
-  $ref: z.string().refine(isValidUriReference, {
-    message: '$ref must be a valid URI reference',
-  }),
-  mediaType: z.string().optional(),
-  description: z.string().optional(),
-});
+export const referenceSchema = z
+  .object({
+    $ref: z
+      .string()
+      .refine(...formatRefinement('uri-reference', '$ref')),
+    mediaType: z.string().optional(),
+    description: z.string().optional(),
+  })
+  .passthrough();
 
 /**
- * External Resource schema
- * @see types.ts ExternalResource interface
+ * External Resource Object
+ * @see https://dpds.opendatamesh.org/specifications/dpds/1.0.0/#externalResourceObject
  * @see schema.json $defs.externalResource
  */
-export const externalResourceSchema = z.object({
-  description: z.string().optional(),
-  mediaType: z.string().optional(),
-  $href: z
-    .string()
-    .refine(isValidUri, { message: '$href must be a valid URI' }),
-});
-
-// ===============================================================
-// Common Components
-// ===============================================================
-
-/**
- * Owner schema
- * @see types.ts Owner interface
- * @see schema.json $defs.owner
- */
-export const ownerSchema = z
+export const externalResourceSchema = z
   .object({
-    id: z.string(), // Required field
-    name: z.string().optional(),
+    description: z.string().optional(),
+    mediaType: z.string().optional(),
+    $href: z
+      .string()
+      .refine(...formatRefinement('uri', '$href')),
   })
   .passthrough();
 
 /**
- * Contact Point schema
- * @see types.ts ContactPoint interface
- * @see schema.json $defs.contactPoint
+ * @see schema.json $defs.entity
  */
-export const contactPointSchema = z
+export const entitySchema = z
   .object({
-    name: z.string().optional(),
+    id: z
+      .string()
+      .refine(...formatRefinement('uuid', 'id'))
+      .optional(),
+    fullyQualifiedName: z
+      .string()
+      .refine(...formatRefinement('fqn', 'fullyQualifiedName'))
+      .optional(),
+    entityType: z
+      .string()
+      .refine(...formatRefinement('alphanumeric', 'entityType'))
+      .optional(),
+    name: z
+      .string()
+      .refine(...formatRefinement('name', 'name')),
+    version: z
+      .string()
+      .refine(...formatRefinement('version', 'version')),
+    displayName: z.string().optional(),
     description: z.string().optional(),
-    channel: z.string().optional(),
-    address: z.string().optional(),
+    componentGroup: z
+      .string()
+      .refine(...formatRefinement('name', 'componentGroup'))
+      .optional(),
+    tags: z.array(z.string()).optional(),
+    externalDocs: externalResourceSchema.optional(),
   })
   .passthrough();
 
 /**
- * Object or string schema (for definitions)
  * @see schema.json $defs.objectOrStringOrReference
  */
-export const objectOrStringSchema = z.union([z.record(z.any()), z.string()]);
+export const objectOrStringOrReferenceSchema = z.union([
+  z.record(z.unknown()),
+  z.string(),
+]);
 
 /**
- * Object or Reference schema
- * @see schema.json $defs.objectOrReference
+ * @see schema.json $defs.definition
  */
-export const objectOrReferenceSchema = z.union([
-  z.record(z.any()),
-  referenceSchema,
-]);
+export const definitionSchema = z
+  .object({
+    specification: z.string(),
+    specificationVersion: z.string().optional(),
+    definition: objectOrStringOrReferenceSchema,
+  })
+  .passthrough();
 
 /**
- * Standard Definition schema
- * @see types.ts StandardDefinition interface
- * @see schema.json $defs.standardDefinition and $defs.definition
+ * Standard Definition Object
+ * @see https://dpds.opendatamesh.org/specifications/dpds/1.0.0/#standardDefinitionObject
+ * @see schema.json $defs.standardDefinition
  */
-export const standardDefinitionSchema = entitySchema.extend({
-  specification: z.string(), // Required field
-  specificationVersion: z.string().optional(),
-  definition: objectOrStringSchema, // Can be object, string per schema
-});
-
-// ===============================================================
-// Port-Related Schemas
-// ===============================================================
+export const standardDefinitionSchema = entitySchema
+  .merge(definitionSchema)
+  .passthrough();
 
 /**
- * Promises schema
- * @see types.ts Promises interface
+ * Promises Object
+ * @see https://dpds.opendatamesh.org/specifications/dpds/1.0.0/#promisesObject
  * @see schema.json $defs.promises
  */
 export const promisesSchema = z
@@ -236,8 +180,16 @@ export const promisesSchema = z
   .passthrough();
 
 /**
- * Expectations schema
- * @see types.ts Expectations interface
+ * @see schema.json $defs.promisesOrReference
+ */
+export const promisesOrReferenceSchema = z.union([
+  referenceSchema,
+  promisesSchema,
+]);
+
+/**
+ * Expectations Object
+ * @see https://dpds.opendatamesh.org/specifications/dpds/1.0.0/#expectationsObject
  * @see schema.json $defs.expectations
  */
 export const expectationsSchema = z
@@ -248,8 +200,16 @@ export const expectationsSchema = z
   .passthrough();
 
 /**
- * Obligations schema
- * @see types.ts Obligations interface
+ * @see schema.json $defs.expectationsOrReference
+ */
+export const expectationsOrReferenceSchema = z.union([
+  referenceSchema,
+  expectationsSchema,
+]);
+
+/**
+ * Obligations Object
+ * @see https://dpds.opendatamesh.org/specifications/dpds/1.0.0/#obligationsObject
  * @see schema.json $defs.obligations
  */
 export const obligationsSchema = z
@@ -261,86 +221,143 @@ export const obligationsSchema = z
   .passthrough();
 
 /**
- * Port schema - base for all port types
- * @see types.ts Port interface
- * @see schema.json $defs.port
+ * @see schema.json $defs.obligationsOrReference
  */
-export const portSchema = entitySchema.extend({
-  promises: z.union([promisesSchema, referenceSchema]).optional(),
-  expectations: z.union([expectationsSchema, referenceSchema]).optional(),
-  obligations: z.union([obligationsSchema, referenceSchema]).optional(),
-});
+export const obligationsOrReferenceSchema = z.union([
+  referenceSchema,
+  obligationsSchema,
+]);
 
-// ===============================================================
-// Port Types (using lazy to handle circular references)
-// ===============================================================
+/**
+ * @see schema.json $defs.port
+ */
+export const portSchema = z
+  .object({
+    promises: promisesOrReferenceSchema.optional(),
+    expectations: expectationsOrReferenceSchema.optional(),
+    obligations: obligationsOrReferenceSchema.optional(),
+  })
+  .passthrough();
 
 /**
- * Input Port schema
- * @see types.ts InputPort interface
+ * Input Port Object
+ * @see https://dpds.opendatamesh.org/specifications/dpds/1.0.0/#inputPortComponent
  * @see schema.json $defs.inputPort
  */
-export const inputPortSchema = z.lazy(() => portSchema.extend({}));
+export const inputPortSchema = entitySchema
+  .merge(portSchema)
+  .passthrough();
 
 /**
- * Output Port schema
- * @see types.ts OutputPort interface
+ * @see schema.json $defs.inputPortOrReference
+ */
+export const inputPortOrReferenceSchema = z.union([
+  referenceSchema,
+  inputPortSchema,
+]);
+
+/**
+ * Output Port Component
+ * @see https://dpds.opendatamesh.org/specifications/dpds/1.0.0/#outputPortComponent
  * @see schema.json $defs.outputPort
  */
-export const outputPortSchema = z.lazy(() => portSchema.extend({}));
+export const outputPortSchema = entitySchema
+  .merge(portSchema)
+  .passthrough();
+
+/**
+ * @see schema.json $defs.outputPortOrReference
+ */
+export const outputPortOrReferenceSchema = z.union([
+  referenceSchema,
+  outputPortSchema,
+]);
 
 /**
- * Discovery Port schema
- * @see types.ts DiscoveryPort interface
+ * Discovery Port Component
+ * @see https://dpds.opendatamesh.org/specifications/dpds/1.0.0/#discoveryPortComponent
  * @see schema.json $defs.discoveryPort
  */
-export const discoveryPortSchema = z.lazy(() => portSchema.extend({}));
+export const discoveryPortSchema = entitySchema
+  .merge(portSchema)
+  .passthrough();
+
+/**
+ * @see schema.json $defs.discoveryPortOrReference
+ */
+export const discoveryPortOrReferenceSchema = z.union([
+  referenceSchema,
+  discoveryPortSchema,
+]);
 
 /**
- * Observability Port schema
- * @see types.ts ObservabilityPort interface
+ * Observability Port Component
+ * @see https://dpds.opendatamesh.org/specifications/dpds/1.0.0/#observabilityPortComponent
  * @see schema.json $defs.observabilityPort
  */
-export const observabilityPortSchema = z.lazy(() => portSchema.extend({}));
+export const observabilityPortSchema = entitySchema
+  .merge(portSchema)
+  .passthrough();
 
 /**
- * Control Port schema
- * @see types.ts ControlPort interface
+ * @see schema.json $defs.observabilityPortOrReference
+ */
+export const observabilityPortOrReferenceSchema = z.union([
+  referenceSchema,
+  observabilityPortSchema,
+]);
+
+/**
+ * Control Port Component
+ * @see https://dpds.opendatamesh.org/specifications/dpds/1.0.0/#controlPortComponent
  * @see schema.json $defs.controlPort
  */
-export const controlPortSchema = z.lazy(() => portSchema.extend({}));
+export const controlPortSchema = entitySchema
+  .merge(portSchema)
+  .passthrough();
 
-// ===============================================================
-// Component Schemas
-// ===============================================================
+/**
+ * @see schema.json $defs.controlPortOrReference
+ */
+export const controlPortOrReferenceSchema = z.union([
+  referenceSchema,
+  controlPortSchema,
+]);
 
 /**
- * Application Component schema
- * @see types.ts ApplicationComponent interface
- * @see schema.json $defs.applicationComponent
+ * Interface Components Object
+ * @see https://dpds.opendatamesh.org/specifications/dpds/1.0.0/#interfaceComponentsObject
+ * @see schema.json $defs.interfaceComponents
  */
-export const applicationComponentSchema = entitySchema.extend({
-  platform: z.string().optional(),
-  applicationType: z.string().optional(),
-  consumesFrom: z.array(z.string()).optional(),
-  providesTo: z.array(z.string()).optional(),
-  dependsOn: z.array(z.string()).optional(),
-});
+export const interfaceComponentsSchema = z
+  .object({
+    inputPorts: z.array(inputPortOrReferenceSchema).optional(),
+    outputPorts: z.array(outputPortOrReferenceSchema),
+    discoveryPorts: z.array(discoveryPortOrReferenceSchema).optional(),
+    observabilityPorts: z.array(observabilityPortOrReferenceSchema).optional(),
+    controlPorts: z.array(controlPortOrReferenceSchema).optional(),
+  })
+  .passthrough();
 
 /**
- * Infrastructure Component schema
- * @see types.ts InfrastructuralComponent interface
- * @see schema.json $defs.infrastructuralComponent
+ * @see schema.json $defs.standardDefinitionOrReference
  */
-export const infrastructuralComponentSchema = entitySchema.extend({
-  platform: z.string().optional(),
-  infrastructureType: z.string().optional(),
-  dependsOn: z.array(z.string()).optional(),
-});
+export const standardDefinitionOrReferenceSchema = z.union([
+  referenceSchema,
+  standardDefinitionSchema,
+]);
 
 /**
- * Lifecycle Task Info schema
- * @see types.ts LifecycleTaskInfo interface
+ * @see schema.json $defs.objectOrReference
+ */
+export const objectOrReferenceSchema = z.union([
+  z.record(z.unknown()),
+  referenceSchema,
+]);
+
+/**
+ * Owner Object
+ * @see https://dpds.opendatamesh.org/specifications/dpds/1.0.0/#lifecycleTaskInfoObject
  * @see schema.json $defs.lifecycleTaskInfo
  */
 export const lifecycleTaskInfoSchema = z
@@ -348,173 +365,105 @@ export const lifecycleTaskInfoSchema = z
     name: z.string().optional(),
     order: z.number().optional(),
     service: externalResourceSchema.optional(),
-    template: z.union([standardDefinitionSchema, referenceSchema]).optional(),
+    template: standardDefinitionOrReferenceSchema.optional(),
     configurations: objectOrReferenceSchema.optional(),
   })
   .passthrough();
 
-// ===============================================================
-// Container Schemas
-// ===============================================================
+/**
+ * Application Component
+ * @see https://dpds.opendatamesh.org/specifications/dpds/1.0.0/#applicationComponent
+ * @see schema.json $defs.applicationComponent
+ */
+export const applicationComponentSchema = entitySchema
+  .merge(z
+    .object({
+      platform: z.string().optional(),
+      applicationType: z.string().optional(),
+      consumesFrom: z.array(z.string()).optional(),
+      providesTo: z.array(z.string()).optional(),
+      dependsOn: z.array(z.string()).optional(),
+    })
+    .passthrough())
+  .passthrough();
 
 /**
- * Interface Components schema
- * @see types.ts InterfaceComponents interface
- * @see schema.json $defs.interfaceComponents
+ * @see schema.json $defs.applicationComponentOrReference
  */
-export const interfaceComponentsSchema = z.object({
-  inputPorts: z.array(z.union([inputPortSchema, referenceSchema])).optional(),
-  // Required field per schema
-  outputPorts: z.array(z.union([outputPortSchema, referenceSchema])),
-  discoveryPorts: z
-    .array(z.union([discoveryPortSchema, referenceSchema]))
-    .optional(),
-  observabilityPorts: z
-    .array(z.union([observabilityPortSchema, referenceSchema]))
-    .optional(),
-  controlPorts: z
-    .array(z.union([controlPortSchema, referenceSchema]))
-    .optional(),
-}) as z.ZodType<InterfaceComponents>;
-
-/**
- * Internal Components schema
- * @see types.ts InternalComponents interface
- * @see schema.json $defs.internalComponents
+export const applicationComponentOrReferenceSchema = z.union([
+  referenceSchema,
+  applicationComponentSchema,
+]);
+
+/**
+ * Infrastructural Component
+ * @see https://dpds.opendatamesh.org/specifications/dpds/1.0.0/#infrastructuralComponent
+ * @see schema.json $defs.infrastructuralComponent
  */
-export const internalComponentsSchema = z.object({
-  lifecycleInfo: z.record(z.array(lifecycleTaskInfoSchema)).optional(),
-  applicationComponents: z
-    .array(z.union([applicationComponentSchema, referenceSchema]))
-    .optional(),
-  infrastructuralComponents: z
-    .array(z.union([infrastructuralComponentSchema, referenceSchema]))
-    .optional(),
-});
+export const infrastructuralComponentSchema = entitySchema
+  .merge(z
+    .object({
+      platform: z.string().optional(),
+      infrastructureType: z.string().optional(),
+      dependsOn: z.array(z.string()).optional(),
+    })
+    .passthrough())
+  .passthrough();
 
 /**
- * Components schema - for reusable components
- * @see types.ts Components interface
- * @see schema.json $defs.components
+ * @see schema.json $defs.infrastructuralComponentOrReference
  */
-export const componentsSchema = z
+export const infrastructuralComponentOrReferenceSchema = z.union([
+  referenceSchema,
+  infrastructuralComponentSchema,
+]);
+
+/**
+ * Internal Components Object
+ * @see https://dpds.opendatamesh.org/specifications/dpds/1.0.0/#internalComponentsObject
+ * @see schema.json $defs.internalComponents
+ */
+export const internalComponentsSchema = z
   .object({
-    inputPorts: z
-      .record(z.union([inputPortSchema, referenceSchema]))
-      .optional(),
-    outputPorts: z
-      .record(z.union([outputPortSchema, referenceSchema]))
-      .optional(),
-    discoveryPorts: z
-      .record(z.union([discoveryPortSchema, referenceSchema]))
-      .optional(),
-    observabilityPorts: z
-      .record(z.union([observabilityPortSchema, referenceSchema]))
-      .optional(),
-    controlPorts: z
-      .record(z.union([controlPortSchema, referenceSchema]))
-      .optional(),
-    applicationComponents: z
-      .record(z.union([applicationComponentSchema, referenceSchema]))
-      .optional(),
-    infrastructuralComponents: z
-      .record(z.union([infrastructuralComponentSchema, referenceSchema]))
-      .optional(),
+    lifecycleInfo: z.record(z.array(lifecycleTaskInfoSchema)).optional(),
+    applicationComponents: z.array(applicationComponentOrReferenceSchema).optional(),
+    infrastructuralComponents: z.array(infrastructuralComponentOrReferenceSchema).optional(),
   })
-  .passthrough() as z.ZodType<Components>;
+  .passthrough();
 
 /**
- * Info schema - metadata about the data product
- * @see types.ts Info interface
- * @see schema.json $defs.info
+ * Components Object
+ * @see https://dpds.opendatamesh.org/specifications/dpds/1.0.0/#componentsObject
+ * @see schema.json $defs.components
  */
-export const infoSchema = z
+export const componentsSchema = z
   .object({
-    // readOnly in the schema
-    id: z
-      .string()
-      .optional()
-      .refine(isValidUuid, { message: 'id must be a valid UUID format' }),
-    // Required fields per schema
-    fullyQualifiedName: z.string().refine(isValidFqn, {
-      message:
-        'fullyQualifiedName must be a URN of the form urn:dpds:{mesh-namespace}:dataproducts:{product-name}:{product-major-version} or urn:dpds:{mesh-namespace}:dataproducts:{product-name}:{product-major-version}:(input|output)ports:{port-name}',
-    }),
-    // readOnly in the schema
-    entityType: z.string().optional().refine(isValidAlphanumeric, {
-      message: 'entityType must contain only alphanumeric characters',
-    }),
-    name: z.string().refine(isValidCamelCase, {
-      message: 'name must be in a valid format (camelCase)',
-    }),
-    version: z.string().refine(isValidVersion, {
-      message: 'version must follow semantic versioning format',
-    }),
-    displayName: z.string().optional(),
-    description: z.string().optional(),
-    // Required field per schema
-    domain: z.string(),
-    // Required field per schema
-    owner: ownerSchema,
-    contactPoints: z.array(contactPointSchema).optional(),
+    inputPorts: z.record(inputPortOrReferenceSchema).optional(),
+    outputPorts: z.record(outputPortOrReferenceSchema).optional(),
+    discoveryPorts: z.record(discoveryPortOrReferenceSchema).optional(),
+    observabilityPorts: z.record(observabilityPortOrReferenceSchema).optional(),
+    controlPorts: z.record(controlPortOrReferenceSchema).optional(),
+    applicationComponents: z.record(applicationComponentOrReferenceSchema).optional(),
+    infrastructuralComponents: z.record(infrastructuralComponentOrReferenceSchema).optional(),
   })
   .passthrough();
 
-// ===============================================================
-// Main Data Product Descriptor Schema
-// ===============================================================
-
 /**
- * Data Product Descriptor schema - the root schema
- * @see types.ts DataProductDescriptor interface
+ * dataProductDescriptor
+ * @see https://dpds.opendatamesh.org/specifications/dpds/1.0.0/#dpdsObject
  * @see schema.json root object
  */
-export const dataProductDescriptorSchema = z.object({
-  // Required field per schema
-  dataProductDescriptor: z.string().refine(isValidVersion, {
-    message: 'dataProductDescriptor must follow semantic versioning format',
-  }),
-  // Required field per schema
-  info: infoSchema,
-  // Required field per schema
-  interfaceComponents: interfaceComponentsSchema,
-  internalComponents: internalComponentsSchema.optional(),
-  components: componentsSchema.optional(),
-  tags: z.array(z.string()).optional(),
-  externalDocs: externalResourceSchema.optional(),
-}) as z.ZodType<DataProductDescriptor>;
-
-// ===============================================================
-// Type Inference Helpers
-// ===============================================================
-
-/**
- * Utility type for inferring Zod schema types
- * This allows using the zod schemas to validate at runtime
- * while getting TypeScript types that match the interfaces
- *
- * @example
- * // Get the type from a schema
- * type MyInfo = z.infer<typeof infoSchema>;
- *
- * // Validate data at runtime
- * const result = infoSchema.safeParse(myData);
- * if (result.success) {
- *   // result.data is typed as Info
- *   console.log(result.data);
- * }
- */
-export type InferSchema<T extends z.ZodTypeAny> = z.infer<T>;
-
-// Type aliases for convenience
-export type ZodDataProductDescriptor = InferSchema<
-  typeof dataProductDescriptorSchema
->;
-export type ZodInfo = InferSchema<typeof infoSchema>;
-export type ZodReference = InferSchema<typeof referenceSchema>;
-export type ZodInputPort = InferSchema<typeof inputPortSchema>;
-export type ZodOutputPort = InferSchema<typeof outputPortSchema>;
-export type ZodInterfaceComponents = InferSchema<
-  typeof interfaceComponentsSchema
->;
-export type ZodComponents = InferSchema<typeof componentsSchema>;
+export const dataProductDescriptorSchema = z
+  .object({
+    dataProductDescriptor: z
+      .string()
+      .refine(...formatRefinement('version', 'dataProductDescriptor')),
+    info: infoSchema,
+    interfaceComponents: interfaceComponentsSchema,
+    internalComponents: internalComponentsSchema.optional(),
+    components: componentsSchema.optional(),
+    tags: z.array(z.string()).optional(),
+    externalDocs: externalResourceSchema.optional(),
+  })
+  .passthrough() as z.ZodType<DataProductDescriptor>;
+